@@ -0,0 +1,151 @@
+import WebSocket from "ws";
+import type {
+  Execution,
+  GroupDetails,
+  InsertProject,
+  InsertPythonFile,
+  ProgramFile,
+  Project,
+  ProjectDetails,
+  RunConfig,
+  UpdateProject,
+  UpdatePythonFile,
+} from "@shared/schema";
+
+// The signed-in user as /api/login and /api/me return them
+export interface CurrentUser {
+  id: number;
+  username: string;
+  role: string;
+  mustChangePassword: boolean;
+}
+
+// A request the server refused, with the message it gave
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export interface Credentials {
+  token?: string;
+  cookie?: string;
+}
+
+// The PyLauncher HTTP API as the CLI uses it. Requests carry a personal access
+// token as a bearer token, or the session cookie of a password login.
+export class PyLauncherClient {
+  constructor(readonly server: string, private readonly credentials: Credentials = {}) {}
+
+  private get headers(): Record<string, string> {
+    if (this.credentials.token) {
+      return { Authorization: `Bearer ${this.credentials.token}` };
+    }
+    return this.credentials.cookie ? { Cookie: this.credentials.cookie } : {};
+  }
+
+  private async send(method: string, path: string, body?: unknown): Promise<Response> {
+    const response = await fetch(new URL(path, this.server), {
+      method,
+      headers: { ...this.headers, ...(body !== undefined ? { "Content-Type": "application/json" } : {}) },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text || response.statusText;
+      try {
+        message = JSON.parse(text).message ?? message;
+      } catch (error) {
+        // Not JSON, e.g. a proxy's error page
+      }
+      throw new ApiError(message, response.status);
+    }
+    return response;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, body);
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  // Signs in with a password and returns the session cookie to send from now on
+  async login(username: string, password: string): Promise<{ user: CurrentUser; cookie: string }> {
+    const response = await this.send("POST", "/api/login", { username, password });
+    const [cookie] = response.headers.getSetCookie().map((header) => header.split(";")[0]);
+    if (!cookie) {
+      throw new ApiError("The server did not start a session", response.status);
+    }
+    const { user } = await response.json();
+    return { user, cookie };
+  }
+
+  async logout(): Promise<void> {
+    await this.request("POST", "/api/logout");
+  }
+
+  async getCurrentUser(): Promise<CurrentUser> {
+    const { user } = await this.request<{ user: CurrentUser }>("GET", "/api/me");
+    return user;
+  }
+
+  getPrograms(): Promise<ProgramFile[]> {
+    return this.request("GET", "/api/files");
+  }
+
+  getProgram(id: number): Promise<ProgramFile> {
+    return this.request("GET", `/api/files/${id}`);
+  }
+
+  createProgram(file: InsertPythonFile): Promise<ProgramFile> {
+    return this.request("POST", "/api/files", file);
+  }
+
+  updateProgram(id: number, file: UpdatePythonFile): Promise<ProgramFile> {
+    return this.request("PUT", `/api/files/${id}`, file);
+  }
+
+  // Deleting a project's entry point deletes the whole project
+  deleteProgram(id: number): Promise<void> {
+    return this.request("DELETE", `/api/files/${id}`);
+  }
+
+  getProjects(): Promise<Project[]> {
+    return this.request("GET", "/api/projects");
+  }
+
+  getProject(id: number): Promise<ProjectDetails> {
+    return this.request("GET", `/api/projects/${id}`);
+  }
+
+  createProject(project: InsertProject): Promise<{ project: Project; entryFile?: ProgramFile }> {
+    return this.request("POST", "/api/projects", project);
+  }
+
+  updateProject(id: number, project: UpdateProject): Promise<ProjectDetails> {
+    return this.request("PATCH", `/api/projects/${id}`, project);
+  }
+
+  deleteProject(id: number): Promise<void> {
+    return this.request("DELETE", `/api/projects/${id}`);
+  }
+
+  // Only admins and teachers, who see the groups they own
+  getGroups(): Promise<GroupDetails[]> {
+    return this.request("GET", "/api/groups");
+  }
+
+  getExecutions(fileId: number): Promise<Execution[]> {
+    return this.request("GET", `/api/files/${fileId}/executions`);
+  }
+
+  getRunConfigs(fileId: number): Promise<RunConfig[]> {
+    return this.request("GET", `/api/files/${fileId}/run-configs`);
+  }
+
+  // The interactive run channel; see shared/protocol.ts for its messages
+  openRunSocket(): WebSocket {
+    const url = new URL("/api/run", this.server);
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+    return new WebSocket(url, { headers: this.headers });
+  }
+}
@@ -0,0 +1,566 @@
+import fs from "fs/promises";
+import path from "path";
+import readline from "readline/promises";
+import { Writable } from "stream";
+import { parseArgs } from "util";
+import { describeExecutionEnd } from "@shared/execution";
+import { guessEntryPoint, isIgnoredPath } from "@shared/project-paths";
+import type { ProgramFile, Project, ProjectFileInput } from "@shared/schema";
+import { PyLauncherClient } from "./api";
+import { clearSavedLogin, saveLogin, type SavedLogin } from "./config";
+import { runProgram } from "./run";
+
+// A problem with what was asked for, reported without a stack trace
+export class CliError extends Error {}
+
+// The server to talk to and how to sign in to it, from the global options,
+// the environment and the saved login
+export interface CommandContext {
+  server: string;
+  token?: string;
+  saved: SavedLogin | null;
+}
+
+// Returns the exit code, or nothing for success
+export type Command = (context: CommandContext, args: string[]) => Promise<number | void>;
+
+function clientFor(context: CommandContext): PyLauncherClient {
+  if (context.token) {
+    return new PyLauncherClient(context.server, { token: context.token });
+  }
+  if (context.saved?.server === context.server) {
+    return new PyLauncherClient(context.server, { token: context.saved.token, cookie: context.saved.cookie });
+  }
+  throw new CliError(`Not signed in to ${context.server}; run "pylauncher login" first`);
+}
+
+// Splits off the options in front of the first positional argument, leaving
+// what follows it alone, e.g. the flags of the program being run
+export function splitLeadingOptions(args: string[], booleanFlags: string[] = []): [string[], string[]] {
+  let index = 0;
+  while (index < args.length && args[index].startsWith("-") && args[index] !== "--") {
+    const flag = args[index];
+    index += flag.includes("=") || booleanFlags.includes(flag) || /^-[^-]./.test(flag) ? 1 : 2;
+  }
+  return [args.slice(0, index), args.slice(args[index] === "--" ? index + 1 : index)];
+}
+
+// Asks on stderr, so the output of commands can still be piped. Hidden
+// answers (passwords) are not echoed.
+async function prompt(question: string, hidden = false): Promise<string> {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      if (!muted) {
+        process.stderr.write(chunk);
+      }
+      callback();
+    },
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: Boolean(process.stdin.isTTY) });
+  try {
+    const answer = rl.question(question);
+    muted = hidden;
+    return await answer;
+  } finally {
+    rl.close();
+    if (hidden) {
+      process.stderr.write("\n");
+    }
+  }
+}
+
+function printTable(header: string[], rows: string[][]) {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  for (const row of [header, ...rows]) {
+    console.log(row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd());
+  }
+}
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleString();
+
+// Programs are listed under their project's name when they are its entry point
+const labelOf = (program: ProgramFile, projects: Project[]) =>
+  projects.find((project) => project.id === program.projectId)?.name ?? program.name;
+
+// Finds a program by ID, name or project name; "hello" also finds hello.py
+async function findProgram(client: PyLauncherClient, name: string): Promise<{ program: ProgramFile; project?: Project }> {
+  const [programs, projects] = await Promise.all([client.getPrograms(), client.getProjects()]);
+  const withProject = (program: ProgramFile) => ({
+    program,
+    project: projects.find((project) => project.id === program.projectId),
+  });
+
+  const byId = /^\d+$/.test(name) ? programs.find((program) => program.id === Number(name)) : undefined;
+  if (byId) {
+    return withProject(byId);
+  }
+
+  let matches = programs.filter((program) => labelOf(program, projects) === name);
+  if (matches.length === 0) {
+    matches = programs.filter((program) => labelOf(program, projects) === `${name}.py`);
+  }
+  if (matches.length === 0) {
+    throw new CliError(`No program named ${name}; "pylauncher ls" lists them`);
+  }
+  if (matches.length > 1) {
+    const ids = matches.map((program) => program.id).join(", ");
+    throw new CliError(`Several programs are named ${name}; give one of their IDs instead (${ids})`);
+  }
+  return withProject(matches[0]);
+}
+
+// Groups are given by ID or by name
+async function findGroupId(client: PyLauncherClient, group: string | undefined): Promise<number | null> {
+  if (group === undefined) {
+    return null;
+  }
+  if (/^\d+$/.test(group)) {
+    return Number(group);
+  }
+  const match = (await client.getGroups()).find((candidate) => candidate.name === group);
+  if (!match) {
+    throw new CliError(`No group named ${group}`);
+  }
+  return match.id;
+}
+
+const login: Command = async (context, args) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      username: { type: "string", short: "u" },
+      token: { type: "string" },
+    },
+  });
+
+  // Tokens are checked before they are saved
+  if (values.token) {
+    const user = await new PyLauncherClient(context.server, { token: values.token }).getCurrentUser();
+    await saveLogin({ server: context.server, username: user.username, token: values.token });
+    console.log(`Signed in to ${context.server} as ${user.username} with a token`);
+    return;
+  }
+
+  const username = values.username ?? (await prompt("Username: ")).trim();
+  const password = await prompt("Password: ", true);
+  const { user, cookie } = await new PyLauncherClient(context.server).login(username, password);
+  if (user.mustChangePassword) {
+    throw new CliError(`${user.username} has to choose a new password first; sign in at ${context.server} to do so`);
+  }
+  await saveLogin({ server: context.server, username: user.username, cookie });
+  console.log(`Signed in to ${context.server} as ${user.username}`);
+};
+
+const logout: Command = async (context, args) => {
+  parseArgs({ args, options: {} });
+  const { saved } = context;
+  if (!saved) {
+    console.log("Not signed in");
+    return;
+  }
+
+  if (saved.cookie) {
+    try {
+      await new PyLauncherClient(saved.server, { cookie: saved.cookie }).logout();
+    } catch (error) {
+      // The session may have expired already; it is forgotten all the same
+    }
+  }
+  await clearSavedLogin();
+  console.log(`Signed out of ${saved.server}`);
+  if (saved.token) {
+    console.log("The token stays valid until it is revoked on the API Tokens page.");
+  }
+};
+
+const list: Command = async (context, args) => {
+  parseArgs({ args, options: {} });
+  const client = clientFor(context);
+  const [programs, projects] = await Promise.all([client.getPrograms(), client.getProjects()]);
+  if (programs.length === 0) {
+    console.log("No programs yet");
+    return;
+  }
+
+  printTable(
+    ["ID", "NAME", "TYPE", "ACCESS", "UPDATED"],
+    programs.map((program) => [
+      String(program.id),
+      labelOf(program, projects),
+      program.projectId !== null ? "project" : "file",
+      program.access,
+      formatDate(program.updatedAt),
+    ]),
+  );
+};
+
+interface LocalFile extends ProjectFileInput {
+  size: number;
+}
+
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true });
+
+// Text files are sent as-is, anything else base64-encoded, as the browser upload does
+function toLocalFile(filePath: string, bytes: Buffer): LocalFile {
+  try {
+    return { path: filePath, content: utf8Decoder.decode(bytes), encoding: "utf8", size: bytes.length };
+  } catch (error) {
+    return { path: filePath, content: bytes.toString("base64"), encoding: "base64", size: bytes.length };
+  }
+}
+
+const isPythonSource = (file: LocalFile) => file.path.endsWith(".py") && file.encoding === "utf8";
+
+// The files of a project directory with their paths inside it. Hidden files
+// and directories (.git, .venv, .env, ...) are left out along with the files
+// uploads always skip.
+async function readProjectDirectory(dir: string): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  const walk = async (relative: string) => {
+    const entries = await fs.readdir(path.join(dir, relative), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.name.startsWith(".") || isIgnoredPath(entryPath)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      } else if (entry.isFile()) {
+        files.push(toLocalFile(entryPath, await fs.readFile(path.join(dir, entryPath))));
+      }
+    }
+  };
+  await walk("");
+  return files;
+}
+
+interface PushOptions {
+  name?: string;
+  groupId: number | null;
+  entry?: string;
+  replace: boolean;
+}
+
+// A file updates the standalone program of the same name, or becomes a new one
+async function pushFile(client: PyLauncherClient, filePath: string, options: PushOptions) {
+  const name = options.name ?? path.basename(filePath);
+  if (!name.endsWith(".py")) {
+    throw new CliError(`${filePath} is not a Python file; push its directory to upload it as part of a project`);
+  }
+  const content = await fs.readFile(filePath, "utf8");
+  const size = Buffer.byteLength(content);
+
+  const existing = (await client.getPrograms()).filter((program) => program.projectId === null && program.name === name);
+  if (existing.length > 1) {
+    throw new CliError(`Several programs are named ${name}; rename them so pushing knows which to update`);
+  }
+  if (existing.length === 0) {
+    const file = await client.createProgram({ name, content, size, groupId: options.groupId });
+    console.log(`Created ${name} (${file.id})`);
+    return;
+  }
+
+  const [program] = existing;
+  if (program.content === content) {
+    console.log(`${name} is up to date`);
+    return;
+  }
+  await client.updateProgram(program.id, { name, content, size });
+  console.log(`Updated ${name} (${program.id})`);
+}
+
+// A directory becomes a project named after it. An existing project only has
+// its Python files updated, which keeps its run history and permissions;
+// anything else needs it replaced with a new upload.
+async function pushProject(client: PyLauncherClient, dir: string, options: PushOptions) {
+  const name = options.name ?? path.basename(path.resolve(dir));
+  const files = await readProjectDirectory(dir);
+  const entryPoint = options.entry ?? guessEntryPoint(files.map((file) => file.path));
+  if (!entryPoint) {
+    throw new CliError(`${dir} has no Python files`);
+  }
+
+  const [programs, projects] = await Promise.all([client.getPrograms(), client.getProjects()]);
+  const existing = projects.filter((project) => project.name === name);
+  if (existing.length > 1) {
+    throw new CliError(`Several projects are named ${name}; rename them so pushing knows which to update`);
+  }
+  const [project] = existing;
+
+  if (!project || options.replace) {
+    // A replaced project stays in its group unless another is given
+    const entryProgram = project && programs.find((program) => program.id === project.entryFileId);
+    const groupId = options.groupId ?? entryProgram?.groupId ?? null;
+    const created = await client.createProject({
+      name,
+      groupId,
+      entryPoint,
+      files: files.map(({ path, content, encoding }) => ({ path, content, encoding })),
+    });
+    if (project) {
+      await client.deleteProject(project.id);
+    }
+    console.log(`${project ? "Replaced" : "Created"} project ${name} (${created.project.entryFileId}) with ${files.length} files`);
+    return;
+  }
+
+  const details = await client.getProject(project.id);
+  const remote = new Map(details.files.map((file) => [file.path, file]));
+  const local = new Set(files.map((file) => file.path));
+
+  // Data files are compared by size, since the API does not serve them
+  const changes = [
+    ...files.filter((file) => !remote.has(file.path)).map((file) => `  added    ${file.path}`),
+    ...details.files.filter((file) => !local.has(file.path)).map((file) => `  removed  ${file.path}`),
+    ...files.filter((file) => {
+      const remoteFile = remote.get(file.path);
+      return remoteFile && (isPythonSource(file)
+        ? remoteFile.fileId === undefined
+        : remoteFile.fileId !== undefined || remoteFile.size !== file.size);
+    }).map((file) => `  changed  ${file.path}`),
+  ];
+  if (changes.length > 0) {
+    throw new CliError(
+      `Project ${name} can only take changes to its Python files:\n${changes.join("\n")}\n`
+      + "Push again with --replace to upload it anew, which resets its run history and permissions",
+    );
+  }
+
+  const updated: string[] = [];
+  for (const file of files.filter(isPythonSource)) {
+    const fileId = remote.get(file.path)!.fileId!;
+    const program = await client.getProgram(fileId);
+    if (program.content !== file.content) {
+      await client.updateProgram(fileId, { name: program.name, content: file.content, size: file.size });
+      updated.push(file.path);
+    }
+  }
+
+  // The entry point is only changed when asked to, since it may have been chosen in the browser
+  const entryFileId = options.entry !== undefined ? remote.get(options.entry)?.fileId : undefined;
+  if (options.entry !== undefined && entryFileId === undefined) {
+    throw new CliError(`${options.entry} is not one of the project's Python files`);
+  }
+  if (entryFileId !== undefined && entryFileId !== details.entryFileId) {
+    await client.updateProject(project.id, { entryFileId });
+    console.log(`Project ${name} now runs ${options.entry}`);
+  }
+
+  console.log(updated.length > 0 ? `Updated ${updated.join(", ")} in project ${name}` : `Project ${name} is up to date`);
+}
+
+const push: Command = async (context, args) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      name: { type: "string" },
+      group: { type: "string" },
+      entry: { type: "string" },
+      replace: { type: "boolean", default: false },
+    },
+  });
+  if (positionals.length === 0) {
+    throw new CliError("Give the files or directories to push");
+  }
+  if (positionals.length > 1 && values.name !== undefined) {
+    throw new CliError("--name only works when pushing one file or directory");
+  }
+
+  const client = clientFor(context);
+  const options: PushOptions = {
+    name: values.name,
+    groupId: await findGroupId(client, values.group),
+    entry: values.entry,
+    replace: values.replace ?? false,
+  };
+  for (const target of positionals) {
+    const stats = await fs.stat(target).catch(() => null);
+    if (!stats) {
+      throw new CliError(`${target} does not exist`);
+    }
+    if (stats.isDirectory()) {
+      await pushProject(client, target, options);
+    } else {
+      await pushFile(client, target, options);
+    }
+  }
+};
+
+const pull: Command = async (context, args) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { force: { type: "boolean", short: "f", default: false } },
+  });
+  const [name, dest] = positionals;
+  if (!name || positionals.length > 2) {
+    throw new CliError("Usage: pylauncher pull <program> [destination]");
+  }
+
+  const client = clientFor(context);
+  const { program, project } = await findProgram(client, name);
+
+  // Where each source goes, relative to the working directory
+  let sources: { target: string; fileId: number }[];
+  let dataFiles: string[] = [];
+  if (project) {
+    const details = await client.getProject(project.id);
+    const root = dest ?? project.name;
+    sources = details.files
+      .filter((file) => file.fileId !== undefined)
+      .map((file) => ({ target: path.join(root, ...file.path.split("/")), fileId: file.fileId! }));
+    dataFiles = details.files.filter((file) => file.fileId === undefined).map((file) => file.path);
+  } else {
+    const isDirectory = dest !== undefined && (await fs.stat(dest).catch(() => null))?.isDirectory();
+    sources = [{ target: !dest ? program.name : isDirectory ? path.join(dest, program.name) : dest, fileId: program.id }];
+  }
+
+  const contents: string[] = [];
+  for (const source of sources) {
+    const file = source.fileId === program.id ? program : await client.getProgram(source.fileId);
+    if (file.content === null) {
+      throw new CliError(`You may only run ${project?.name ?? program.name}, not download its code`);
+    }
+    contents.push(file.content);
+  }
+
+  // Nothing is written when a local change would be lost
+  if (!values.force) {
+    const conflicts: string[] = [];
+    for (let index = 0; index < sources.length; index++) {
+      const current = await fs.readFile(sources[index].target, "utf8").catch(() => null);
+      if (current !== null && current !== contents[index]) {
+        conflicts.push(sources[index].target);
+      }
+    }
+    if (conflicts.length > 0) {
+      throw new CliError(`These files differ from the server's and would be overwritten; use --force to do so:\n  ${conflicts.join("\n  ")}`);
+    }
+  }
+
+  for (let index = 0; index < sources.length; index++) {
+    const { target } = sources[index];
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, contents[index]);
+    console.log(`Wrote ${target}`);
+  }
+  if (dataFiles.length > 0) {
+    console.error(`Skipped the project's data files, which can only be downloaded in the browser: ${dataFiles.join(", ")}`);
+  }
+};
+
+const run: Command = async (context, args) => {
+  const [options, rest] = splitLeadingOptions(args);
+  const { values } = parseArgs({
+    args: options,
+    options: {
+      config: { type: "string", short: "c" },
+      env: { type: "string", short: "e", multiple: true, default: [] },
+    },
+  });
+  const [name, ...programArgs] = rest;
+  if (!name) {
+    throw new CliError("Usage: pylauncher run [--config NAME] [--env KEY=VALUE] <program> [args...]");
+  }
+
+  const env: Record<string, string> = {};
+  for (const variable of values.env ?? []) {
+    const separator = variable.indexOf("=");
+    if (separator < 1) {
+      throw new CliError(`--env takes KEY=VALUE, not ${variable}`);
+    }
+    env[variable.slice(0, separator)] = variable.slice(separator + 1);
+  }
+
+  const client = clientFor(context);
+  const { program } = await findProgram(client, name);
+
+  let runConfigId: number | undefined;
+  if (values.config !== undefined) {
+    const runConfigs = await client.getRunConfigs(program.id);
+    const runConfig = runConfigs.find((candidate) => candidate.name === values.config);
+    if (!runConfig) {
+      const names = runConfigs.map((candidate) => candidate.name).join(", ") || "none";
+      throw new CliError(`No run configuration named ${values.config} (saved ones: ${names})`);
+    }
+    runConfigId = runConfig.id;
+  }
+
+  return runProgram(client, program.id, { args: programArgs, env, runConfigId });
+};
+
+const history: Command = async (context, args) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { limit: { type: "string", short: "n", default: "20" } },
+  });
+  const limit = Number(values.limit);
+  if (positionals.length !== 1 || !Number.isInteger(limit) || limit < 1) {
+    throw new CliError("Usage: pylauncher history [-n COUNT] <program>");
+  }
+
+  const client = clientFor(context);
+  const { program } = await findProgram(client, positionals[0]);
+  const executions = (await client.getExecutions(program.id)).slice(0, limit);
+  if (executions.length === 0) {
+    console.log("No runs yet");
+    return;
+  }
+
+  printTable(
+    ["ID", "STARTED", "RESULT", "TIME", "REVISION", "ARGS"],
+    executions.map((execution) => [
+      String(execution.id),
+      formatDate(execution.createdAt),
+      execution.status === "success" ? "Succeeded" : describeExecutionEnd(execution),
+      execution.executionTime !== null ? `${(execution.executionTime / 1000).toFixed(2)}s` : "-",
+      execution.revision !== null ? String(execution.revision) : "-",
+      (execution.args ?? []).join(" "),
+    ]),
+  );
+};
+
+const remove: Command = async (context, args) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { yes: { type: "boolean", short: "y", default: false } },
+  });
+  if (positionals.length !== 1) {
+    throw new CliError("Usage: pylauncher rm [--yes] <program>");
+  }
+
+  const client = clientFor(context);
+  const { program, project } = await findProgram(client, positionals[0]);
+  const label = project ? `project ${project.name} and all of its files` : `${program.name} (${program.id})`;
+
+  if (!values.yes) {
+    if (!process.stdin.isTTY) {
+      throw new CliError("Give --yes to delete without being asked");
+    }
+    const answer = await prompt(`Delete ${label}, with its run history? [y/N] `);
+    if (!/^y(es)?$/i.test(answer.trim())) {
+      console.log("Nothing deleted");
+      return 1;
+    }
+  }
+
+  // Deleting a project's entry point deletes the project
+  await client.deleteProgram(program.id);
+  console.log(`Deleted ${label}`);
+};
+
+export const commands: Record<string, Command> = {
+  login,
+  logout,
+  ls: list,
+  push,
+  pull,
+  run,
+  history,
+  rm: remove,
+};
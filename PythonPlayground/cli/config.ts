@@ -0,0 +1,41 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+// What `pylauncher login` remembers: the server and either a personal access
+// token or the session cookie of a password login
+export interface SavedLogin {
+  server: string;
+  username: string;
+  token?: string;
+  cookie?: string;
+}
+
+const configDir = process.env.XDG_CONFIG_HOME
+  ? path.join(process.env.XDG_CONFIG_HOME, "pylauncher")
+  : path.join(os.homedir(), ".config", "pylauncher");
+
+export const configPath = path.join(configDir, "config.json");
+
+export const DEFAULT_SERVER = "http://localhost:5000";
+
+export async function loadSavedLogin(): Promise<SavedLogin | null> {
+  try {
+    return JSON.parse(await fs.readFile(configPath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Only readable by the user, since it holds a token or session
+export async function saveLogin(login: SavedLogin): Promise<void> {
+  await fs.mkdir(configDir, { recursive: true, mode: 0o700 });
+  await fs.writeFile(configPath, `${JSON.stringify(login, null, 2)}\n`, { mode: 0o600 });
+}
+
+export async function clearSavedLogin(): Promise<void> {
+  await fs.rm(configPath, { force: true });
+}
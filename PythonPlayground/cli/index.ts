@@ -0,0 +1,78 @@
+import { parseArgs } from "util";
+import { ApiError } from "./api";
+import { CliError, commands, splitLeadingOptions } from "./commands";
+import { DEFAULT_SERVER, loadSavedLogin } from "./config";
+
+const USAGE = `Usage: pylauncher [--server URL] [--token TOKEN] <command> [options]
+
+Commands:
+  login [--username NAME] [--token TOKEN]
+      Sign in with a password or a personal access token and remember it
+  logout
+      Sign out and forget the saved login
+  ls
+      List the programs you can see
+  push [--name NAME] [--group GROUP] [--entry PATH] [--replace] <path>...
+      Upload Python files and project directories, updating existing ones
+  pull [--force] <program> [destination]
+      Download a program's code, or a project's Python files
+  run [--config NAME] [--env KEY=VALUE]... <program> [args...]
+      Run a program with its output streamed and your input passed through
+  history [-n COUNT] <program>
+      Show a program's latest runs
+  rm [--yes] <program>
+      Delete a program or project
+
+Programs are given by ID, by name or by project name. PYLAUNCHER_URL and
+PYLAUNCHER_TOKEN can be set instead of --server and --token.`;
+
+async function main(argv: string[]): Promise<number> {
+  let server = DEFAULT_SERVER;
+  try {
+    const [globalOptions, [name, ...args]] = splitLeadingOptions(argv, ["--help", "-h"]);
+    const { values } = parseArgs({
+      args: globalOptions,
+      options: {
+        server: { type: "string" },
+        token: { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+
+    if (values.help || !name || name === "help") {
+      console.log(USAGE);
+      return values.help || name === "help" ? 0 : 2;
+    }
+    const command = commands[name];
+    if (!command) {
+      console.error(`pylauncher: Unknown command ${name}\n\n${USAGE}`);
+      return 2;
+    }
+
+    const saved = await loadSavedLogin();
+    server = (values.server ?? process.env.PYLAUNCHER_URL ?? saved?.server ?? server).replace(/\/+$/, "");
+    return (await command({ server, token: values.token ?? process.env.PYLAUNCHER_TOKEN, saved }, args)) ?? 0;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      const hint = error.status === 401 ? `; run "pylauncher login" again` : "";
+      console.error(`pylauncher: ${error.message}${hint}`);
+    } else if (error instanceof CliError) {
+      console.error(`pylauncher: ${error.message}`);
+    } else if (error instanceof TypeError && error.message === "fetch failed") {
+      console.error(`pylauncher: Could not reach ${server}`);
+    } else if ((error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`pylauncher: ${(error as Error).message}; see "pylauncher --help"`);
+      return 2;
+    } else {
+      throw error;
+    }
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+}, (error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,126 @@
+import WebSocket from "ws";
+import { describeExecutionEnd } from "@shared/execution";
+import type { RunClientMessage, RunServerMessage } from "@shared/protocol";
+import type { RunInput } from "@shared/schema";
+import type { PyLauncherClient } from "./api";
+
+// Runs a program over the /api/run WebSocket the way the browser terminal
+// does: output is streamed as it comes and the local stdin is passed through.
+// In a terminal the program gets a pseudo-terminal of the same size. Resolves
+// with the exit code to leave with.
+export function runProgram(client: PyLauncherClient, fileId: number, input: RunInput): Promise<number> {
+  const interactive = Boolean(process.stdin.isTTY && process.stdout.isTTY);
+  const socket = client.openRunSocket();
+
+  return new Promise((resolve) => {
+    let started = false;
+    let finished = false;
+    let exitCode = 1;
+    // The server drops input sent before the program starts, so it waits here
+    const pending: RunClientMessage[] = [];
+
+    const send = (message: RunClientMessage) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const sendInput = (message: RunClientMessage) => {
+      if (started) {
+        send(message);
+      } else {
+        pending.push(message);
+      }
+    };
+
+    const onStdin = (data: Buffer) => {
+      // Raw mode turns Ctrl+C into input; until the program runs nothing else handles it
+      if (interactive && !started && data.includes(0x03)) {
+        socket.close();
+        finish(130);
+        return;
+      }
+      sendInput({ type: "stdin", data: data.toString("utf8") });
+    };
+    const onStdinEnd = () => sendInput({ type: "eof" });
+    const onResize = () => send({ type: "resize", cols: process.stdout.columns, rows: process.stdout.rows });
+
+    const finish = (code: number) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      process.stdin.off("data", onStdin);
+      process.stdin.off("end", onStdinEnd);
+      process.stdout.off("resize", onResize);
+      if (interactive) {
+        process.stdin.setRawMode(false);
+      }
+      process.stdin.pause();
+      resolve(code);
+    };
+
+    socket.on("open", () => {
+      send({
+        type: "start",
+        fileId,
+        terminal: interactive ? { cols: process.stdout.columns, rows: process.stdout.rows } : undefined,
+        input,
+      });
+      if (interactive) {
+        process.stdin.setRawMode(true);
+        process.stdout.on("resize", onResize);
+      }
+      process.stdin.on("data", onStdin);
+      process.stdin.on("end", onStdinEnd);
+    });
+
+    socket.on("message", (raw) => {
+      const message: RunServerMessage = JSON.parse(raw.toString());
+      switch (message.type) {
+        case "queued":
+          process.stderr.write(`Waiting for a free slot (position ${message.position} in the queue)\n`);
+          break;
+        case "started":
+          started = true;
+          pending.splice(0).forEach(send);
+          break;
+        case "stdout":
+          process.stdout.write(message.data);
+          break;
+        case "stderr":
+          process.stderr.write(message.data);
+          break;
+        case "exit": {
+          const { execution } = message.result;
+          exitCode = execution.status === "success" ? 0 : execution.exitCode || 1;
+          if (execution.status !== "success") {
+            process.stderr.write(`\n${describeExecutionEnd(execution)}\n`);
+          }
+          break;
+        }
+        case "error":
+          process.stderr.write(`pylauncher: ${message.message}\n`);
+          break;
+      }
+    });
+
+    // The upgrade is refused with a plain HTTP status, e.g. without the execute scope
+    socket.on("unexpected-response", (_request, response) => {
+      process.stderr.write(
+        response.statusCode === 401
+          ? "pylauncher: Not allowed to run programs; sign in again or use a token with the execute scope\n"
+          : `pylauncher: The server refused the run (HTTP ${response.statusCode})\n`,
+      );
+      socket.terminate();
+      finish(1);
+    });
+
+    socket.on("error", (error) => {
+      process.stderr.write(`pylauncher: ${error.message}\n`);
+      finish(1);
+    });
+
+    socket.on("close", () => finish(exitCode));
+  });
+}
@@ -4,10 +4,12 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { Login } from "@/components/login";
+import { ChangePassword } from "@/components/change-password";
 import { AdminDashboard } from "@/components/admin-dashboard";
 import { UserTerminal } from "@/components/user-terminal";
 import { useAuth } from "@/hooks/useAuth";
 import NotFound from "@/pages/not-found";
+import ApiTokens from "@/pages/api-tokens";
 
 function Router() {
   const { user, isLoading, logout } = useAuth();
@@ -27,12 +29,29 @@ function Router() {
     return <Login />;
   }
 
-  if (user.role === "admin") {
-    return <AdminDashboard onLogout={logout} />;
+  if (user.mustChangePassword) {
+    return <ChangePassword onLogout={logout} />;
   }
 
-  if (user.role === "user") {
-    return <UserTerminal onLogout={logout} />;
+  // Every role manages its personal access tokens on the same page
+  return (
+    <Switch>
+      <Route path="/tokens" component={ApiTokens} />
+      <Route>
+        <Home role={user.role} onLogout={logout} />
+      </Route>
+    </Switch>
+  );
+}
+
+function Home({ role, onLogout }: { role: string; onLogout: () => void }) {
+  // Teachers get the same dashboard, scoped to the groups they own
+  if (role === "admin" || role === "teacher") {
+    return <AdminDashboard onLogout={onLogout} />;
+  }
+
+  if (role === "user") {
+    return <UserTerminal onLogout={onLogout} />;
   }
 
   return <NotFound />;
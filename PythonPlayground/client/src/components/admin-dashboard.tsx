@@ -1,28 +1,58 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { ProgramSelector } from "@/components/program-selector";
 import { ProgramRunner } from "@/components/program-runner";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Code, Upload, Users, Settings, Download } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Code, Upload, Users, Settings, Download, FileText, KeyRound } from "lucide-react";
 import { FileUpload } from "@/components/file-upload";
+import { UserManagement } from "@/components/user-management";
+import { GroupManagement } from "@/components/group-management";
 import { useToast } from "@/hooks/use-toast";
-import type { PythonFile } from "@shared/schema";
+import { useAuth } from "@/hooks/useAuth";
+import type { GroupDetails, ProgramFile } from "@shared/schema";
+
+// Group switcher values besides group ids
+const ALL_GROUPS = "all";
+const NO_GROUP = "none";
 
 interface AdminDashboardProps {
   onLogout: () => void;
 }
 
+// Admins manage everything; teachers get the same dashboard for the programs
+// and members of the groups they own
 export function AdminDashboard({ onLogout }: AdminDashboardProps) {
-  const [selectedProgram, setSelectedProgram] = useState<PythonFile | null>(null);
+  const [selectedProgram, setSelectedProgram] = useState<ProgramFile | null>(null);
   const [showUpload, setShowUpload] = useState(false);
   const [showRunner, setShowRunner] = useState(false);
+  const [groupFilter, setGroupFilter] = useState(ALL_GROUPS);
   const { toast } = useToast();
+  const { isAdmin } = useAuth();
 
-  const { data: programs = [], isLoading } = useQuery<PythonFile[]>({
+  const { data: allPrograms = [], isLoading } = useQuery<ProgramFile[]>({
     queryKey: ["/api/files"],
   });
 
+  // Teachers only get the groups they own
+  const { data: groups = [] } = useQuery<GroupDetails[]>({
+    queryKey: ["/api/groups"],
+  });
+
+  const programs = allPrograms.filter((program) =>
+    groupFilter === ALL_GROUPS ||
+    (groupFilter === NO_GROUP ? program.groupId === null : program.groupId === Number(groupFilter)));
+
+  // New programs go to the group being shown. Teachers have to pick one of
+  // theirs unless they only own one; admins may upload without a group.
+  const uploadGroupId = groupFilter === ALL_GROUPS || groupFilter === NO_GROUP
+    ? (!isAdmin && groups.length === 1 ? groups[0].id : null)
+    : Number(groupFilter);
+  const canUpload = isAdmin || uploadGroupId !== null;
+
   const downloadMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch("/api/download-project", {
@@ -56,7 +86,7 @@ export function AdminDashboard({ onLogout }: AdminDashboardProps) {
     },
   });
 
-  const handleProgramSelect = (program: PythonFile) => {
+  const handleProgramSelect = (program: ProgramFile) => {
     setSelectedProgram(program);
     setShowRunner(true);
   };
@@ -66,7 +96,7 @@ export function AdminDashboard({ onLogout }: AdminDashboardProps) {
     setSelectedProgram(null);
   };
 
-  const handleFileUploaded = (file: PythonFile) => {
+  const handleFileUploaded = (file: ProgramFile) => {
     setShowUpload(false);
     setSelectedProgram(file);
     setShowRunner(true);
@@ -89,33 +119,55 @@ export function AdminDashboard({ onLogout }: AdminDashboardProps) {
           <div className="flex items-center space-x-4">
             <h1 className="text-3xl font-bold text-gray-900 flex items-center">
               <Code className="text-blue-600 mr-3 h-10 w-10" />
-              PyLauncher Admin
+              {isAdmin ? "PyLauncher Admin" : "PyLauncher Teacher"}
             </h1>
             <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-              Administrator Panel
+              {isAdmin ? "Administrator Panel" : "Teacher Panel"}
             </Badge>
           </div>
           <div className="flex items-center space-x-4">
+            <Select value={groupFilter} onValueChange={setGroupFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_GROUPS}>{isAdmin ? "All programs" : "All my programs"}</SelectItem>
+                {isAdmin && <SelectItem value={NO_GROUP}>No group</SelectItem>}
+                {groups.map((group) => (
+                  <SelectItem key={group.id} value={String(group.id)}>{group.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <div className="flex items-center space-x-2 text-sm text-gray-600">
-              <Users className="h-4 w-4" />
+              <FileText className="h-4 w-4" />
               <span>{programs.length} programs</span>
             </div>
-            <Button 
-              onClick={() => downloadMutation.mutate()}
-              disabled={downloadMutation.isPending}
-              variant="outline"
-              className="border-blue-300 text-blue-700 hover:bg-blue-50"
-            >
-              <Download className="mr-2 h-4 w-4" />
-              {downloadMutation.isPending ? "Downloading..." : "Download Project"}
-            </Button>
+            {isAdmin && (
+              <Button 
+                onClick={() => downloadMutation.mutate()}
+                disabled={downloadMutation.isPending}
+                variant="outline"
+                className="border-blue-300 text-blue-700 hover:bg-blue-50"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {downloadMutation.isPending ? "Downloading..." : "Download Project"}
+              </Button>
+            )}
             <Button 
               onClick={() => setShowUpload(true)} 
+              disabled={!canUpload}
+              title={canUpload ? undefined : "Choose one of your groups first"}
               className="bg-blue-600 text-white hover:bg-blue-700 shadow-lg"
             >
               <Upload className="mr-2 h-4 w-4" />
               Upload Program
             </Button>
+            <Button asChild variant="outline" className="border-gray-300" title="Personal access tokens for scripts and CI">
+              <Link href="/tokens">
+                <KeyRound className="mr-2 h-4 w-4" />
+                API Tokens
+              </Link>
+            </Button>
             <Button 
               onClick={onLogout}
               variant="outline"
@@ -129,27 +181,48 @@ export function AdminDashboard({ onLogout }: AdminDashboardProps) {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-6 py-12">
-        <div className="text-center mb-12">
-          <h2 className="text-4xl font-bold text-gray-900 mb-4">
-            Program Management
-          </h2>
-          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
-            Upload, manage, and test Python programs. Users can execute these programs through the terminal interface.
-          </p>
-        </div>
+        <Tabs defaultValue="programs">
+          <TabsList className="mb-8">
+            <TabsTrigger value="programs">
+              <Code className="mr-2 h-4 w-4" />
+              Programs
+            </TabsTrigger>
+            <TabsTrigger value="users">
+              <Users className="mr-2 h-4 w-4" />
+              {isAdmin ? "Users" : "Groups"}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="programs">
+            <div className="text-center mb-12">
+              <h2 className="text-4xl font-bold text-gray-900 mb-4">
+                Program Management
+              </h2>
+              <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+                Upload, manage, and test Python programs. Users can execute these programs through the terminal interface.
+              </p>
+            </div>
+
+            <ProgramSelector 
+              programs={programs}
+              isLoading={isLoading}
+              onProgramSelect={handleProgramSelect}
+              onShowUpload={() => canUpload && setShowUpload(true)}
+            />
+          </TabsContent>
 
-        <ProgramSelector 
-          programs={programs}
-          isLoading={isLoading}
-          onProgramSelect={handleProgramSelect}
-          onShowUpload={() => setShowUpload(true)}
-        />
+          <TabsContent value="users" className="space-y-8">
+            {isAdmin && <UserManagement />}
+            <GroupManagement />
+          </TabsContent>
+        </Tabs>
       </main>
 
       <FileUpload 
         open={showUpload}
         onOpenChange={setShowUpload}
         onFileSelect={handleFileUploaded}
+        groupId={uploadGroupId}
       />
     </div>
   );
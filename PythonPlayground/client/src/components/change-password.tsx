@@ -0,0 +1,126 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { KeyRound, Lock, AlertCircle } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { changePasswordSchema } from "@shared/schema";
+
+const changePasswordFormSchema = changePasswordSchema.extend({
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+}).refine((data) => data.newPassword !== data.currentPassword, {
+  message: "Choose a password different from the current one",
+  path: ["newPassword"],
+});
+
+type ChangePasswordFormData = z.infer<typeof changePasswordFormSchema>;
+
+interface ChangePasswordProps {
+  onLogout: () => void;
+}
+
+// Shown instead of the app until a user with a temporary password picks their own
+export function ChangePassword({ onLogout }: ChangePasswordProps) {
+  const { user, changePassword, changePasswordError, isChangingPassword } = useAuth();
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = ({ currentPassword, newPassword }: ChangePasswordFormData) => {
+    changePassword({ currentPassword, newPassword });
+  };
+
+  const passwordFields = [
+    { name: "currentPassword", label: "Current Password", placeholder: "Enter your current password" },
+    { name: "newPassword", label: "New Password", placeholder: "At least 8 characters" },
+    { name: "confirmPassword", label: "Confirm New Password", placeholder: "Repeat the new password" },
+  ] as const;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-6">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center mb-4">
+            <KeyRound className="h-8 w-8 text-white" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            Choose a New Password
+          </CardTitle>
+          <p className="text-gray-600">
+            {user?.username}, your password was set by an administrator. Please choose your own before continuing.
+          </p>
+        </CardHeader>
+
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {changePasswordError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {changePasswordError instanceof Error ? changePasswordError.message : "Could not change password"}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {passwordFields.map(({ name, label, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                          <Input 
+                            {...field} 
+                            type="password"
+                            placeholder={placeholder}
+                            className="pl-10"
+                            disabled={isChangingPassword}
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <Button 
+                type="submit" 
+                className="w-full bg-blue-600 hover:bg-blue-700"
+                disabled={isChangingPassword}
+              >
+                {isChangingPassword ? "Saving..." : "Change Password"}
+              </Button>
+              <Button 
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={onLogout}
+              >
+                Logout
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
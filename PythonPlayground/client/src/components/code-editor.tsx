@@ -1,31 +1,64 @@
-import { useEffect, useRef, useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Save, Play, FileText } from "lucide-react";
+import { Save, Play, FileText, History, ListChecks, XCircle, AlertTriangle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { PythonFile } from "@shared/schema";
+import { FileHistory } from "@/components/file-history";
+import { PythonEditor } from "@/components/python-editor";
+import type { ProgramFile, Interpreter, CheckResult } from "@shared/schema";
 
 interface CodeEditorProps {
-  file: PythonFile | null;
-  onFileUpdate: (file: PythonFile) => void;
+  file: ProgramFile | null;
+  onFileUpdate: (file: ProgramFile) => void;
   onExecute: () => void;
+  // A line to jump to, e.g. from a frame of the output's traceback
+  revealLine?: { line: number } | null;
 }
 
-export function CodeEditor({ file, onFileUpdate, onExecute }: CodeEditorProps) {
+export function CodeEditor({ file, onFileUpdate, onExecute, revealLine }: CodeEditorProps) {
   const [content, setContent] = useState("");
   const [isModified, setIsModified] = useState(false);
-  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Result of the last syntax check, cleared when another file is opened
+  const [checkResult, setCheckResult] = useState<CheckResult | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Programs run with python3 unless a run configuration says otherwise
+  const { data: interpreter } = useQuery<Interpreter>({
+    queryKey: ["/api/interpreter"],
+  });
+  const interpreterVersion = interpreter?.version ?? "python3";
+
   useEffect(() => {
     if (file) {
-      setContent(file.content);
+      // Only files the user may edit are opened here, so the code is always sent
+      setContent(file.content ?? "");
       setIsModified(false);
     }
   }, [file]);
 
+  useEffect(() => {
+    setCheckResult(null);
+  }, [file?.id]);
+
+  // Checks the saved file, or the unsaved code when it is given
+  const checkMutation = useMutation({
+    mutationFn: async ({ fileId, content }: { fileId: number; content?: string }): Promise<CheckResult> => {
+      const response = await apiRequest("POST", `/api/files/${fileId}/check`, { content });
+      return response.json();
+    },
+    onSuccess: setCheckResult,
+    onError: (error: Error) => {
+      toast({
+        title: "Check failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const saveMutation = useMutation({
     mutationFn: async () => {
       if (!file || !file.id) {
@@ -48,8 +81,10 @@ export function CodeEditor({ file, onFileUpdate, onExecute }: CodeEditorProps) {
     },
     onSuccess: (savedFile) => {
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${savedFile.id}/revisions`] });
       onFileUpdate(savedFile);
       setIsModified(false);
+      checkMutation.mutate({ fileId: savedFile.id });
       toast({
         title: "File saved",
         description: "Your changes have been saved successfully.",
@@ -81,22 +116,6 @@ export function CodeEditor({ file, onFileUpdate, onExecute }: CodeEditorProps) {
     onExecute();
   };
 
-  const insertTab = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Tab') {
-      e.preventDefault();
-      const textarea = e.currentTarget;
-      const start = textarea.selectionStart;
-      const end = textarea.selectionEnd;
-      const value = textarea.value;
-      const newValue = value.substring(0, start) + '    ' + value.substring(end);
-      setContent(newValue);
-      setTimeout(() => {
-        textarea.selectionStart = textarea.selectionEnd = start + 4;
-      }, 0);
-      setIsModified(true);
-    }
-  };
-
   if (!file) {
     return (
       <div className="flex-1 flex flex-col">
@@ -128,7 +147,7 @@ export function CodeEditor({ file, onFileUpdate, onExecute }: CodeEditorProps) {
               )}
             </div>
             <div className="flex space-x-2 text-xs text-gray-500">
-              <span>Python 3.9</span>
+              <span>{interpreterVersion}</span>
               <span>•</span>
               <span>
                 {file.updatedAt 
@@ -139,6 +158,27 @@ export function CodeEditor({ file, onFileUpdate, onExecute }: CodeEditorProps) {
             </div>
           </div>
           <div className="flex items-center space-x-3">
+            {file.id && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => checkMutation.mutate({ fileId: file.id, content })}
+                disabled={checkMutation.isPending}
+              >
+                <ListChecks className="mr-1 h-3 w-3" />
+                Check
+              </Button>
+            )}
+            {file.id && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowHistory(true)}
+              >
+                <History className="mr-1 h-3 w-3" />
+                History
+              </Button>
+            )}
             <Button 
               variant="outline" 
               size="sm"
@@ -161,23 +201,56 @@ export function CodeEditor({ file, onFileUpdate, onExecute }: CodeEditorProps) {
       </div>
 
       {/* Code Editor Area */}
-      <div className="flex-1 bg-code">
-        <textarea
-          ref={editorRef}
+      <div className="flex-1 min-h-0 bg-code">
+        <PythonEditor
           value={content}
-          onChange={(e) => handleContentChange(e.target.value)}
-          onKeyDown={insertTab}
-          className="w-full h-full p-4 text-white font-mono text-sm bg-code border-0 outline-0 resize-none"
-          style={{
-            fontFamily: "'JetBrains Mono', monospace",
-            backgroundColor: "hsl(240, 10%, 3.9%)",
-            color: "hsl(0, 0%, 98%)",
-            lineHeight: "1.5",
-          }}
+          onChange={handleContentChange}
           placeholder="# Write your Python code here..."
-          spellCheck={false}
+          diagnostics={checkResult?.diagnostics}
+          revealLine={revealLine}
+          className="h-full"
         />
       </div>
+
+      {/* Problems */}
+      {checkResult && (
+        <div className="bg-white border-t border-gray-200 px-6 py-2 max-h-40 overflow-y-auto">
+          <div className="text-xs font-medium text-gray-700 mb-1">
+            Problems ({checkResult.diagnostics.length})
+            {!checkResult.pyflakes && (
+              <span className="ml-2 font-normal text-gray-500">pyflakes is not installed, so only the syntax was checked</span>
+            )}
+          </div>
+          {checkResult.diagnostics.length === 0 ? (
+            <p className="text-xs text-gray-500">No problems found.</p>
+          ) : (
+            <ul className="space-y-1">
+              {checkResult.diagnostics.map((diagnostic, index) => (
+                <li key={index} className="flex items-center space-x-2 text-xs">
+                  {diagnostic.severity === "error" ? (
+                    <XCircle className="h-3 w-3 text-red-600 shrink-0" />
+                  ) : (
+                    <AlertTriangle className="h-3 w-3 text-amber-500 shrink-0" />
+                  )}
+                  <span className="font-mono text-gray-500">{diagnostic.line}:{diagnostic.column}</span>
+                  <span className="text-gray-900">{diagnostic.message}</span>
+                  <span className="text-gray-400">{diagnostic.source}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {file.id && (
+        <FileHistory
+          file={file}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          onRestore={onFileUpdate}
+          hasUnsavedChanges={isModified}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ProgramFile, UpdateExecutionSettings } from "@shared/schema";
+
+interface ExecutionSettingsDialogProps {
+  file: ProgramFile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Empty fields use the server's defaults
+interface SettingsForm {
+  timeoutSeconds: string;
+  memoryMb: string;
+  maxOutputKb: string;
+  allowInteractive: "default" | "yes" | "no";
+}
+
+const toForm = (file: ProgramFile): SettingsForm => ({
+  timeoutSeconds: file.timeoutMs !== null ? String(file.timeoutMs / 1000) : "",
+  memoryMb: file.memoryMb !== null ? String(file.memoryMb) : "",
+  maxOutputKb: file.maxOutputBytes !== null ? String(file.maxOutputBytes / 1024) : "",
+  allowInteractive: file.allowInteractive === null ? "default" : file.allowInteractive ? "yes" : "no",
+});
+
+const toNumber = (value: string, scale: number) =>
+  value.trim() === "" ? null : Math.round(Number(value) * scale);
+
+const fromForm = (form: SettingsForm): UpdateExecutionSettings => ({
+  timeoutMs: toNumber(form.timeoutSeconds, 1000),
+  memoryMb: toNumber(form.memoryMb, 1),
+  maxOutputBytes: toNumber(form.maxOutputKb, 1024),
+  allowInteractive: form.allowInteractive === "default" ? null : form.allowInteractive === "yes",
+});
+
+// Lets admins give a program its own timeout, memory and output limits
+export function ExecutionSettingsDialog({ file, open, onOpenChange }: ExecutionSettingsDialogProps) {
+  const [form, setForm] = useState<SettingsForm>(() => toForm(file));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<ProgramFile> => {
+      const response = await apiRequest("PATCH", `/api/files/${file.id}/execution-settings`, fromForm(form));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${file.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${file.id}/execution-settings`] });
+      onOpenChange(false);
+      toast({
+        title: "Settings saved",
+        description: "New runs of the program use these limits.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setForm(toForm(file));
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Execution Settings</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">Leave a field empty to use the server's default.</p>
+          <div className="space-y-2">
+            <Label htmlFor="settings-timeout">Timeout (seconds)</Label>
+            <Input
+              id="settings-timeout"
+              type="number"
+              min={1}
+              placeholder="Default"
+              value={form.timeoutSeconds}
+              onChange={(e) => setForm({ ...form, timeoutSeconds: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settings-memory">Memory limit (MB)</Label>
+            <Input
+              id="settings-memory"
+              type="number"
+              min={16}
+              placeholder="Default"
+              value={form.memoryMb}
+              onChange={(e) => setForm({ ...form, memoryMb: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settings-output">Output limit (KB)</Label>
+            <Input
+              id="settings-output"
+              type="number"
+              min={1}
+              placeholder="Default"
+              value={form.maxOutputKb}
+              onChange={(e) => setForm({ ...form, maxOutputKb: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Keyboard input</Label>
+            <Select
+              value={form.allowInteractive}
+              onValueChange={(allowInteractive) => setForm({ ...form, allowInteractive: allowInteractive as SettingsForm["allowInteractive"] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default</SelectItem>
+                <SelectItem value="yes">Allowed</SelectItem>
+                <SelectItem value="no">Not allowed (stdin is closed)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { RotateCcw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { DiffLine, FileRevisionSummary, ProgramFile, RevisionDiff } from "@shared/schema";
+
+interface FileHistoryProps {
+  file: ProgramFile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (file: ProgramFile) => void;
+  hasUnsavedChanges: boolean;
+}
+
+// A line on each side of the side-by-side view; null leaves that side blank
+interface DiffRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Puts each run of removed lines next to the added lines that replaced it
+function toRows(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "equal") {
+      flush();
+      rows.push({ left: line, right: line });
+    } else if (line.type === "removed") {
+      removed.push(line);
+    } else {
+      added.push(line);
+    }
+  }
+  flush();
+  return rows;
+}
+
+// Saved versions of a file, each of which can be compared with the current
+// code and restored
+export function FileHistory({ file, open, onOpenChange, onRestore, hasUnsavedChanges }: FileHistoryProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [] } = useQuery<FileRevisionSummary[]>({
+    queryKey: [`/api/files/${file.id}/revisions`],
+    enabled: open,
+  });
+
+  const { data: diff } = useQuery<RevisionDiff>({
+    queryKey: [`/api/files/${file.id}/revisions/diff?from=${selected}&to=${file.revision}`],
+    enabled: open && selected !== null,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number): Promise<ProgramFile> => {
+      const response = await apiRequest("POST", `/api/files/${file.id}/revisions/${revision}/restore`);
+      return response.json();
+    },
+    onSuccess: (restored, revision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${file.id}/revisions`] });
+      onRestore(restored);
+      setSelected(restored.revision);
+      toast({
+        title: "Revision restored",
+        description: `Revision ${revision} was saved as revision ${restored.revision}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore revision",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-5xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>History of {file.name}</SheetTitle>
+        </SheetHeader>
+        <div className="flex-1 flex min-h-0 space-x-4">
+          <div className="w-56 shrink-0 overflow-y-auto space-y-1">
+            {revisions.map((revision) => (
+              <button
+                key={revision.id}
+                onClick={() => setSelected(revision.revision)}
+                className={cn(
+                  "w-full text-left p-2 rounded text-sm hover:bg-gray-100",
+                  selected === revision.revision && "bg-blue-50 hover:bg-blue-50",
+                )}
+              >
+                <div className="font-medium text-gray-900">
+                  Revision {revision.revision}
+                  {revision.revision === file.revision && (
+                    <span className="ml-2 text-xs text-green-600">current</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">{new Date(revision.createdAt).toLocaleString()}</div>
+                {revision.restoredFrom !== null && (
+                  <div className="text-xs text-gray-500">Restored from revision {revision.restoredFrom}</div>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected === null ? (
+              <p className="text-sm text-gray-500">Pick a revision to compare it with the current code.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm text-gray-700">
+                    Revision {selected} compared with the current revision {file.revision}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(selected)}
+                    disabled={selected === file.revision || restoreMutation.isPending}
+                    title={hasUnsavedChanges ? "Unsaved changes in the editor will be discarded" : undefined}
+                  >
+                    <RotateCcw className="mr-1 h-3 w-3" />
+                    Restore
+                  </Button>
+                </div>
+                {diff && (
+                  <div className="flex-1 overflow-auto border rounded font-mono text-xs">
+                    {diff.lines.every((line) => line.type === "equal") ? (
+                      <p className="p-4 font-sans text-sm text-gray-500">No differences.</p>
+                    ) : (
+                      <SideBySideDiff lines={diff.lines} />
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function SideBySideDiff({ lines }: { lines: DiffLine[] }) {
+  const side = (line: DiffLine | null, lineNumber: number | null | undefined) => (
+    <>
+      <td className="w-10 px-2 text-right text-gray-400 select-none align-top">{lineNumber}</td>
+      <td
+        className={cn(
+          "px-2 whitespace-pre-wrap break-all align-top",
+          line?.type === "removed" && "bg-red-50 text-red-900",
+          line?.type === "added" && "bg-green-50 text-green-900",
+          !line && "bg-gray-50",
+        )}
+      >
+        {line?.text}
+      </td>
+    </>
+  );
+
+  return (
+    <table className="w-full table-fixed border-collapse">
+      <colgroup>
+        <col className="w-10" />
+        <col />
+        <col className="w-10" />
+        <col />
+      </colgroup>
+      <tbody>
+        {toRows(lines).map((row, index) => (
+          <tr key={index}>
+            {side(row.left, row.left?.oldLine)}
+            {side(row.right, row.right?.newLine)}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
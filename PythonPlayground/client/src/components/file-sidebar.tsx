@@ -4,11 +4,11 @@ import { Card } from "@/components/ui/card";
 import { CloudUpload, FileText, Edit, Trash2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { PythonFile } from "@shared/schema";
+import type { ProgramFile } from "@shared/schema";
 
 interface FileSidebarProps {
-  selectedFile: PythonFile | null;
-  onFileSelect: (file: PythonFile) => void;
+  selectedFile: ProgramFile | null;
+  onFileSelect: (file: ProgramFile) => void;
   onShowUpload: () => void;
 }
 
@@ -16,7 +16,7 @@ export function FileSidebar({ selectedFile, onFileSelect, onShowUpload }: FileSi
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: files = [], isLoading } = useQuery<PythonFile[]>({
+  const { data: files = [], isLoading } = useQuery<ProgramFile[]>({
     queryKey: ["/api/files"],
   });
 
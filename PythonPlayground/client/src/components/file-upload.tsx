@@ -2,30 +2,40 @@ import { useState, useCallback } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Upload, FileText, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, FileText, FolderOpen, X, AlertTriangle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { PythonFile } from "@shared/schema";
+import { readFolderProject, readZipProject, type ProjectDraft } from "@/lib/project-archive";
+import type { Project, ProgramFile, CheckResult, Diagnostic } from "@shared/schema";
 
 interface FileUploadProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onFileSelect: (file: PythonFile) => void;
+  onFileSelect: (file: ProgramFile) => void;
+  // Group the uploaded programs are shared with, or null for none
+  groupId?: number | null;
 }
 
-export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps) {
+export function FileUpload({ open, onOpenChange, onFileSelect, groupId = null }: FileUploadProps) {
   const [dragOver, setDragOver] = useState(false);
   const [files, setFiles] = useState<File[]>([]);
+  const [project, setProject] = useState<ProjectDraft | null>(null);
+  // First syntax error of each selected Python file that does not parse, by name or project path
+  const [syntaxErrors, setSyntaxErrors] = useState<Record<string, Diagnostic>>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const uploadMutation = useMutation({
-    mutationFn: async (file: File): Promise<PythonFile> => {
+    mutationFn: async (file: File): Promise<ProgramFile> => {
       const content = await file.text();
       const response = await apiRequest("POST", "/api/files", {
         name: file.name,
         content,
         size: file.size,
+        groupId,
       });
       return response.json();
     },
@@ -46,11 +56,81 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
     },
   });
 
+  const projectMutation = useMutation({
+    mutationFn: async (draft: ProjectDraft): Promise<{ project: Project; entryFile: ProgramFile }> => {
+      const response = await apiRequest("POST", "/api/projects", {
+        name: draft.name,
+        entryPoint: draft.entryPoint,
+        files: draft.files.map(({ path, content, encoding }) => ({ path, content, encoding })),
+        groupId,
+      });
+      return response.json();
+    },
+    onSuccess: ({ project, entryFile }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      onFileSelect(entryFile);
+      setProject(null);
+      onOpenChange(false);
+      toast({
+        title: "Project uploaded",
+        description: `${project.name} has been uploaded successfully.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Failed to upload project. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only warns: a file that does not parse can still be uploaded, e.g. to be fixed in the editor
+  const checkSyntax = async (sources: { name: string; content: string }[]) => {
+    for (const source of sources) {
+      try {
+        const response = await apiRequest("POST", "/api/check", source);
+        const result: CheckResult = await response.json();
+        const error = result.diagnostics.find((diagnostic) => diagnostic.severity === "error");
+        setSyntaxErrors(({ [source.name]: _previous, ...rest }) => (error ? { ...rest, [source.name]: error } : rest));
+      } catch (error) {
+        // Without a check result there is nothing to warn about
+      }
+    }
+  };
+
+  const loadProject = async (read: () => Promise<ProjectDraft>) => {
+    try {
+      const draft = await read();
+      if (!draft.entryPoint) {
+        toast({
+          title: "No Python files",
+          description: "A project needs at least one Python (.py) file.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setFiles([]);
+      setProject(draft);
+      setSyntaxErrors({});
+      checkSyntax(draft.files
+        .filter(file => file.path.endsWith('.py') && file.encoding === "utf8")
+        .map(file => ({ name: file.path, content: file.content })));
+    } catch (error) {
+      toast({
+        title: "Invalid project",
+        description: "The project could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const validateFile = (file: File): boolean => {
-    if (!file.name.endsWith('.py')) {
+    if (!file.name.endsWith('.py') && !file.name.endsWith('.zip')) {
       toast({
         title: "Invalid file type",
-        description: "Only Python (.py) files are allowed.",
+        description: "Only Python (.py) files and zipped projects are allowed.",
         variant: "destructive",
       });
       return false;
@@ -72,7 +152,26 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
     if (!selectedFiles) return;
 
     const validFiles = Array.from(selectedFiles).filter(validateFile);
+
+    // A zip archive is uploaded as a project instead of single files
+    const zip = validFiles.find(file => file.name.endsWith('.zip'));
+    if (zip) {
+      loadProject(() => readZipProject(zip));
+      return;
+    }
+
+    setProject(null);
     setFiles(prev => [...prev, ...validFiles]);
+    Promise.all(validFiles
+      .filter(file => file.name.endsWith('.py'))
+      .map(async file => ({ name: file.name, content: await file.text() })))
+      .then(checkSyntax);
+  }, []);
+
+  const handleFolderSelect = useCallback((selectedFiles: FileList | null) => {
+    if (!selectedFiles || selectedFiles.length === 0) return;
+    const folderFiles = Array.from(selectedFiles);
+    loadProject(() => readFolderProject(folderFiles));
   }, []);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -95,7 +194,16 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const hasSyntaxErrors = project
+    ? project.files.some(file => syntaxErrors[file.path])
+    : files.some(file => syntaxErrors[file.name]);
+
   const uploadFiles = async () => {
+    if (project) {
+      projectMutation.mutate(project);
+      return;
+    }
+
     for (const file of files) {
       await uploadMutation.mutateAsync(file);
     }
@@ -115,7 +223,7 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg">
         <DialogHeader>
-          <DialogTitle>Upload Python Files</DialogTitle>
+          <DialogTitle>Upload Python Files or Project</DialogTitle>
         </DialogHeader>
         
         <div className="space-y-4">
@@ -133,25 +241,114 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
           >
             <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <p className="text-lg font-medium text-gray-900 mb-2">
-              Drop Python files here
+              Drop Python files or a zipped project here
             </p>
             <p className="text-sm text-gray-500 mb-4">
               or click to browse your computer
             </p>
-            <Button variant="outline">
-              Select Files
-            </Button>
+            <div className="flex justify-center space-x-2">
+              <Button variant="outline">
+                Select Files
+              </Button>
+              <Button
+                variant="outline"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  document.getElementById('folder-input')?.click();
+                }}
+              >
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Select Folder
+              </Button>
+            </div>
           </div>
 
           <input
             id="file-input"
             type="file"
-            accept=".py"
+            accept=".py,.zip"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleFileSelect(e.target.files);
+              e.target.value = "";
+            }}
+          />
+
+          <input
+            id="folder-input"
+            type="file"
             multiple
             className="hidden"
-            onChange={(e) => handleFileSelect(e.target.files)}
+            // Not part of React's input typings, but supported by all major browsers
+            {...{ webkitdirectory: "" }}
+            onChange={(e) => {
+              handleFolderSelect(e.target.files);
+              e.target.value = "";
+            }}
           />
 
+          {/* Project */}
+          {project && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="project-name">Project name</Label>
+                <Input
+                  id="project-name"
+                  value={project.name}
+                  onChange={(e) => setProject({ ...project, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Entry point</Label>
+                <Select
+                  value={project.entryPoint}
+                  onValueChange={(entryPoint) => setProject({ ...project, entryPoint })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {project.files
+                      .filter(file => file.path.endsWith('.py') && file.encoding === "utf8")
+                      .map(file => (
+                        <SelectItem key={file.path} value={file.path}>
+                          {file.path}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-gray-900">Project Files</h4>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setProject(null)}
+                    className="h-6 w-6 p-0"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+                <div className="max-h-40 overflow-y-auto space-y-1">
+                  {project.files.map(file => (
+                    <div key={file.path} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                      <div className="flex items-center space-x-2 min-w-0">
+                        <FileText className={`h-4 w-4 shrink-0 ${file.path.endsWith('.py') ? "text-blue-600" : "text-gray-400"}`} />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">{file.path}</p>
+                          <SyntaxErrorNote error={syntaxErrors[file.path]} />
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500">{formatFileSize(file.size)}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* File List */}
           {files.length > 0 && (
             <div className="space-y-2">
@@ -164,6 +361,7 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
                       <div>
                         <p className="text-sm font-medium">{file.name}</p>
                         <p className="text-xs text-gray-500">{formatFileSize(file.size)}</p>
+                        <SyntaxErrorNote error={syntaxErrors[file.name]} />
                       </div>
                     </div>
                     <Button
@@ -180,6 +378,13 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
             </div>
           )}
 
+          {hasSyntaxErrors && (
+            <div className="flex items-center space-x-2 p-2 rounded bg-amber-50 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              <span>Some Python files have syntax errors and will fail when run.</span>
+            </div>
+          )}
+
           {/* Upload Button */}
           <div className="flex justify-end space-x-2">
             <Button variant="outline" onClick={() => onOpenChange(false)}>
@@ -187,9 +392,17 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
             </Button>
             <Button 
               onClick={uploadFiles}
-              disabled={files.length === 0 || uploadMutation.isPending}
+              disabled={
+                project
+                  ? !project.name.trim() || projectMutation.isPending
+                  : files.length === 0 || uploadMutation.isPending
+              }
             >
-              {uploadMutation.isPending ? "Uploading..." : `Upload ${files.length} file${files.length !== 1 ? 's' : ''}`}
+              {uploadMutation.isPending || projectMutation.isPending
+                ? "Uploading..."
+                : project
+                  ? `Upload project${hasSyntaxErrors ? " anyway" : ""}`
+                  : `Upload ${files.length} file${files.length !== 1 ? 's' : ''}${hasSyntaxErrors ? " anyway" : ""}`}
             </Button>
           </div>
         </div>
@@ -197,3 +410,12 @@ export function FileUpload({ open, onOpenChange, onFileSelect }: FileUploadProps
     </Dialog>
   );
 }
+
+function SyntaxErrorNote({ error }: { error: Diagnostic | undefined }) {
+  if (!error) return null;
+  return (
+    <p className="text-xs text-amber-600 truncate">
+      Line {error.line}: {error.message}
+    </p>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2, UserCog, UsersRound } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { GroupDetails, GroupMembers, PublicUser } from "@shared/schema";
+
+// Groups of users, e.g. a class, that programs can be shared with at once.
+// Admins create groups and choose the teachers owning them; teachers see and
+// change the members of their own groups.
+export function GroupManagement() {
+  const [name, setName] = useState("");
+  const [editGroup, setEditGroup] = useState<GroupDetails | null>(null);
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: groups = [], isLoading } = useQuery<GroupDetails[]>({
+    queryKey: ["/api/groups"],
+  });
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<GroupDetails> => {
+      const response = await apiRequest("POST", "/api/groups", { name });
+      return response.json();
+    },
+    onSuccess: (group) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+      setName("");
+      setEditGroup(group);
+    },
+    onError: showError("Failed to create group"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/groups/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+      toast({
+        title: "Group deleted",
+        description: "Programs shared with the group are no longer shared with its members.",
+      });
+    },
+    onError: showError("Failed to delete group"),
+  });
+
+  const usernameOf = (id: number) => users.find((user) => user.id === id)?.username ?? `User ${id}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <UsersRound className="mr-2 h-5 w-5 text-blue-600" />
+            {isAdmin ? "Groups" : "My Groups"}
+          </div>
+          {isAdmin && (
+            <div className="flex items-center space-x-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="New group name"
+                className="w-56"
+              />
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!name.trim() || createMutation.isPending}
+                className="bg-blue-600 text-white hover:bg-blue-700"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Group
+              </Button>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse bg-gray-200 h-10 rounded" />
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {isAdmin
+              ? "No groups yet. Groups let you share programs with several users at once."
+              : "You do not own any groups yet. Ask an admin to make you the owner of your class."}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Owners</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => (
+                <TableRow key={group.id}>
+                  <TableCell className="font-medium">{group.name}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {group.ownerIds.length === 0 ? "No owners" : group.ownerIds.map(usernameOf).join(", ")}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {group.memberIds.length === 0 ? "No members" : group.memberIds.map(usernameOf).join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => setEditGroup(group)} title="Edit members">
+                      <UserCog className="h-4 w-4" />
+                    </Button>
+                    {isAdmin && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(group.id)}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Delete group"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <GroupMembersDialog group={editGroup} users={users} canChangeOwners={isAdmin} onClose={() => setEditGroup(null)} />
+    </Card>
+  );
+}
+
+interface GroupMembersDialogProps {
+  group: GroupDetails | null;
+  users: PublicUser[];
+  canChangeOwners: boolean;
+  onClose: () => void;
+}
+
+function GroupMembersDialog({ group, users, canChangeOwners, onClose }: GroupMembersDialogProps) {
+  const [memberIds, setMemberIds] = useState<Set<number>>(new Set());
+  const [ownerIds, setOwnerIds] = useState<Set<number>>(new Set());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setMemberIds(new Set(group?.memberIds ?? []));
+    setOwnerIds(new Set(group?.ownerIds ?? []));
+  }, [group]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (id: number): Promise<GroupDetails> => {
+      // Owners are not members as well; only admins send the owners at all
+      const members: GroupMembers = {
+        userIds: Array.from(memberIds).filter((userId) => !ownerIds.has(userId)),
+        ownerIds: canChangeOwners ? Array.from(ownerIds) : undefined,
+      };
+      const response = await apiRequest("PUT", `/api/groups/${id}/members`, members);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update members",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (ids: Set<number>, setIds: (ids: Set<number>) => void, id: number, checked: boolean) => {
+    const next = new Set(ids);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setIds(next);
+  };
+
+  const teachers = users.filter((user) => user.role === "teacher");
+
+  return (
+    <Dialog open={!!group} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Members of {group?.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {canChangeOwners && (
+            <div className="space-y-2">
+              <Label>Owners</Label>
+              <p className="text-xs text-gray-500">Teachers who manage the group's members and programs.</p>
+              {teachers.length === 0 ? (
+                <p className="text-sm text-gray-500">There are no teachers yet.</p>
+              ) : (
+                <div className="max-h-32 overflow-y-auto space-y-2">
+                  {teachers.map((user) => (
+                    <label key={user.id} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={ownerIds.has(user.id)}
+                        onCheckedChange={(checked) => toggle(ownerIds, setOwnerIds, user.id, checked === true)}
+                      />
+                      <span>{user.username}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <div className="space-y-2">
+            {canChangeOwners && <Label>Members</Label>}
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {users.filter((user) => !ownerIds.has(user.id)).map((user) => (
+                <label key={user.id} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={memberIds.has(user.id)}
+                    onCheckedChange={(checked) => toggle(memberIds, setMemberIds, user.id, checked === true)}
+                  />
+                  <span>{user.username}</span>
+                  {user.role !== "user" && <span className="text-xs text-gray-400">{user.role}</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => group && saveMutation.mutate(group.id)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
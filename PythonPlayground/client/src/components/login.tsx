@@ -1,5 +1,5 @@
-import { useState } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,12 +7,22 @@ import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Code, User, Lock, AlertCircle } from "lucide-react";
+import { Setup } from "@/components/setup";
 import { useAuth } from "@/hooks/useAuth";
 import { loginSchema, type LoginData } from "@shared/schema";
 
+interface SetupStatus {
+  setupRequired: boolean;
+  demoMode: boolean;
+}
+
 export function Login() {
   const { login, loginError, isLoggingIn } = useAuth();
 
+  const { data: setupStatus } = useQuery<SetupStatus>({
+    queryKey: ["/api/setup-status"],
+  });
+
   const form = useForm<LoginData>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
@@ -25,6 +35,10 @@ export function Login() {
     login(data);
   };
 
+  if (setupStatus?.setupRequired) {
+    return <Setup />;
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-6">
       <Card className="w-full max-w-md shadow-xl">
@@ -105,21 +119,23 @@ export function Login() {
             </form>
           </Form>
 
-          <div className="mt-6 pt-6 border-t border-gray-200">
-            <h3 className="text-sm font-medium text-gray-700 mb-3">Demo Accounts:</h3>
-            <div className="space-y-2 text-xs text-gray-600">
-              <div className="bg-gray-50 p-2 rounded">
-                <strong>Admin:</strong> username: admin, password: admin123
-                <br />
-                <span className="text-green-600">Can upload and manage programs</span>
-              </div>
-              <div className="bg-gray-50 p-2 rounded">
-                <strong>User:</strong> username: user, password: user123
-                <br />
-                <span className="text-blue-600">Can run programs with terminal interface</span>
+          {setupStatus?.demoMode && (
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <h3 className="text-sm font-medium text-gray-700 mb-3">Demo Accounts:</h3>
+              <div className="space-y-2 text-xs text-gray-600">
+                <div className="bg-gray-50 p-2 rounded">
+                  <strong>Admin:</strong> username: admin, password: admin123
+                  <br />
+                  <span className="text-green-600">Can upload and manage programs</span>
+                </div>
+                <div className="bg-gray-50 p-2 rounded">
+                  <strong>User:</strong> username: user, password: user123
+                  <br />
+                  <span className="text-blue-600">Can run programs with terminal interface</span>
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,25 +1,24 @@
-import { useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Trash2, Play, Square, Clock, CheckCircle, XCircle } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Trash2, Play, Square, Clock, CheckCircle, XCircle, TimerOff, Gauge } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { PythonFile, Execution } from "@shared/schema";
+import { useProgramRun } from "@/hooks/use-program-run";
+import { TerminalOutput } from "@/components/terminal-output";
+import { TracebackView } from "@/components/traceback-view";
+import { formatBytes } from "@/lib/utils";
+import { describeExecutionEnd } from "@shared/execution";
+import type { ProgramFile, Execution, ExecutionLimits } from "@shared/schema";
 
 interface OutputPanelProps {
-  file: PythonFile | null;
+  file: ProgramFile | null;
   executionTrigger: number;
+  // Called with a line of the file when a traceback frame is clicked
+  onShowLine?: (line: number) => void;
 }
 
-interface ExecutionResult {
-  execution: Execution;
-  output: string;
-  error: string;
-  executionTime: number;
-  status: string;
-}
-
-export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
+export function OutputPanel({ file, executionTrigger, onShowLine }: OutputPanelProps) {
+  const [rawOutput, setRawOutput] = useState(false);
   const { toast } = useToast();
 
   const { data: executions = [] } = useQuery<Execution[]>({
@@ -27,15 +26,15 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
     enabled: !!file?.id,
   });
 
-  const executeMutation = useMutation({
-    mutationFn: async (fileId: number): Promise<ExecutionResult> => {
-      const response = await apiRequest("POST", `/api/execute/${fileId}`);
-      return response.json();
-    },
-    onError: () => {
+  const { data: limits } = useQuery<ExecutionLimits>({
+    queryKey: ["/api/execution-limits"],
+  });
+
+  const run = useProgramRun({
+    onError: (message) => {
       toast({
         title: "Execution Error",
-        description: "Failed to execute Python code.",
+        description: message || "Failed to execute Python code.",
         variant: "destructive",
       });
     },
@@ -43,12 +42,12 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
 
   useEffect(() => {
     if (executionTrigger > 0 && file?.id) {
-      executeMutation.mutate(file.id);
+      run.start(file.id);
     }
   }, [executionTrigger, file?.id]);
 
   const latestExecution = executions[0];
-  const result = executeMutation.data;
+  const result = run.result;
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -56,6 +55,12 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case "error":
         return <XCircle className="h-4 w-4 text-red-500" />;
+      case "cancelled":
+        return <Square className="h-4 w-4 text-orange-500" />;
+      case "timeout":
+        return <TimerOff className="h-4 w-4 text-orange-500" />;
+      case "limit_exceeded":
+        return <Gauge className="h-4 w-4 text-orange-500" />;
       default:
         return <Clock className="h-4 w-4 text-gray-500" />;
     }
@@ -67,6 +72,10 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
         return "text-green-600";
       case "error":
         return "text-red-600";
+      case "cancelled":
+      case "timeout":
+      case "limit_exceeded":
+        return "text-orange-600";
       default:
         return "text-gray-600";
     }
@@ -95,7 +104,7 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
           <h3 className="font-semibold text-secondary">Output</h3>
           <div className="flex items-center space-x-2">
             <div className="flex items-center space-x-2 text-sm">
-              {executeMutation.isPending ? (
+              {run.isRunning ? (
                 <>
                   <div className="w-2 h-2 bg-orange-400 rounded-full animate-pulse" />
                   <span className="text-gray-600">Executing...</span>
@@ -107,6 +116,15 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
                 </>
               )}
             </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs text-gray-400 hover:text-gray-600"
+              onClick={() => setRawOutput(!rawOutput)}
+              title="Show control characters instead of interpreting them"
+            >
+              {rawOutput ? "Rendered" : "Raw"}
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -143,6 +161,12 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
                 </span>
               </div>
             </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Ended:</span>
+              <span className="font-mono text-gray-800">
+                {describeExecutionEnd(currentResult.execution)}
+              </span>
+            </div>
           </div>
         </div>
       )}
@@ -156,13 +180,41 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
               <p className="text-sm">No file selected</p>
             </div>
           </div>
-        ) : executeMutation.isPending ? (
+        ) : run.isRunning && run.chunks.length === 0 ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2" />
               <p className="text-sm text-gray-600">Executing Python code...</p>
             </div>
           </div>
+        ) : run.isRunning ? (
+          <div className="p-4 font-mono text-sm space-y-3">
+            {run.output && (
+              <div className="space-y-1">
+                <div className="text-gray-600 text-xs uppercase tracking-wide">STDOUT</div>
+                <div className="bg-gray-50 rounded p-3 border">
+                  <TerminalOutput
+                    chunks={run.chunks.filter(chunk => chunk.stream === "stdout")}
+                    raw={rawOutput}
+                    className="text-gray-800 text-xs"
+                  />
+                </div>
+              </div>
+            )}
+            {run.error && (
+              <div className="space-y-1">
+                <div className="text-red-600 text-xs uppercase tracking-wide">STDERR</div>
+                <div className="bg-red-50 rounded p-3 border border-red-200">
+                  <TerminalOutput
+                    text={run.error}
+                    stream="stderr"
+                    raw={rawOutput}
+                    className="text-red-700 text-xs"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
         ) : currentResult ? (
           <div className="p-4 font-mono text-sm space-y-3">
             {/* Standard Output */}
@@ -170,21 +222,38 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
               <div className="space-y-1">
                 <div className="text-gray-600 text-xs uppercase tracking-wide">STDOUT</div>
                 <div className="bg-gray-50 rounded p-3 border">
-                  <pre className="text-gray-800 whitespace-pre-wrap text-xs">
-                    {currentResult.output}
-                  </pre>
+                  <TerminalOutput
+                    text={currentResult.output}
+                    raw={rawOutput}
+                    className="text-gray-800 text-xs"
+                  />
                 </div>
               </div>
             )}
 
+            {/* Traceback */}
+            {currentResult.execution?.traceback && (
+              <div className="space-y-1">
+                <div className="text-red-600 text-xs uppercase tracking-wide">TRACEBACK</div>
+                <TracebackView
+                  traceback={currentResult.execution.traceback}
+                  fileId={file?.id}
+                  onShowLine={onShowLine}
+                />
+              </div>
+            )}
+
             {/* Error Output */}
             {currentResult.error && (
               <div className="space-y-1">
                 <div className="text-red-600 text-xs uppercase tracking-wide">STDERR</div>
                 <div className="bg-red-50 rounded p-3 border border-red-200">
-                  <pre className="text-red-700 whitespace-pre-wrap text-xs">
-                    {currentResult.error}
-                  </pre>
+                  <TerminalOutput
+                    text={currentResult.error}
+                    stream="stderr"
+                    raw={rawOutput}
+                    className="text-red-700 text-xs"
+                  />
                 </div>
               </div>
             )}
@@ -212,8 +281,8 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
           <div className="flex items-center space-x-2">
             <Button 
               className="flex-1 bg-accent text-white hover:bg-green-600"
-              disabled={!file || executeMutation.isPending}
-              onClick={() => file?.id && executeMutation.mutate(file.id)}
+              disabled={!file || run.isRunning}
+              onClick={() => file?.id && run.start(file.id)}
             >
               <Play className="mr-2 h-4 w-4" />
               Execute Code
@@ -221,22 +290,33 @@ export function OutputPanel({ file, executionTrigger }: OutputPanelProps) {
             <Button 
               variant="destructive"
               size="sm"
-              disabled={!executeMutation.isPending}
+              disabled={!run.canStop}
+              onClick={() => run.stop()}
             >
               <Square className="h-4 w-4" />
             </Button>
           </div>
           
-          <div className="text-xs text-gray-500 space-y-1">
-            <div className="flex justify-between">
-              <span>Timeout limit:</span>
-              <span className="font-mono">30 seconds</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Memory limit:</span>
-              <span className="font-mono">128 MB</span>
+          {limits && (
+            <div className="text-xs text-gray-500 space-y-1">
+              <div className="flex justify-between">
+                <span>Timeout limit:</span>
+                <span className="font-mono">{limits.timeoutMs / 1000} seconds</span>
+              </div>
+              <div className="flex justify-between">
+                <span>CPU time limit:</span>
+                <span className="font-mono">{limits.cpuSeconds} seconds</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Memory limit:</span>
+                <span className="font-mono">{formatBytes(limits.memoryBytes, 0)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Output limit:</span>
+                <span className="font-mono">{formatBytes(limits.maxOutputBytes, 0)}</span>
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
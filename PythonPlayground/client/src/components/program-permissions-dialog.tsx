@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, User, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { DefaultAccess, GrantableAccess, GroupDetails, ProgramAccess, ProgramFile, ProgramPermissionInput, ProgramPermissions, PublicUser } from "@shared/schema";
+
+interface ProgramPermissionsDialogProps {
+  file: ProgramFile;
+  permissions: ProgramPermissions;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const accessLabels: Record<DefaultAccess | ProgramAccess, string> = {
+  none: "Hidden",
+  run: "Run only",
+  view: "Run and view code",
+  edit: "Run, view and edit code",
+  manage: "Full control",
+};
+
+// A user or group in a select, e.g. "user:3" or "group:1"
+type Principal = `${"user" | "group"}:${number}`;
+
+interface EntryForm {
+  principal: Principal;
+  access: GrantableAccess;
+}
+
+// Entries name exactly one of a user and a group
+const principalOf = (entry: Pick<ProgramPermissionInput, "userId" | "groupId">): Principal =>
+  entry.userId !== null ? `user:${entry.userId}` : `group:${entry.groupId!}`;
+
+const toEntry = ({ principal, access }: EntryForm): ProgramPermissionInput => {
+  const [kind, id] = principal.split(":");
+  return {
+    userId: kind === "user" ? Number(id) : null,
+    groupId: kind === "group" ? Number(id) : null,
+    access,
+  };
+};
+
+// Lets admins and the owners of the program's group choose who may see, run
+// and edit it. They themselves can always do everything.
+export function ProgramPermissionsDialog({ file, permissions, open, onOpenChange }: ProgramPermissionsDialogProps) {
+  const [defaultAccess, setDefaultAccess] = useState<DefaultAccess>(permissions.defaultAccess);
+  const [entries, setEntries] = useState<EntryForm[]>([]);
+  const [newPrincipal, setNewPrincipal] = useState<Principal | "">("");
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    enabled: open,
+  });
+
+  const { data: groups = [] } = useQuery<GroupDetails[]>({
+    queryKey: ["/api/groups"],
+    enabled: open,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<ProgramPermissions> => {
+      const response = await apiRequest("PUT", `/api/files/${file.id}/permissions`, {
+        defaultAccess,
+        entries: entries.map(toEntry),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${file.id}/permissions`] });
+      onOpenChange(false);
+      toast({
+        title: "Permissions saved",
+        description: `Access to ${file.name} has been updated.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save permissions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Starts from the saved permissions every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDefaultAccess(permissions.defaultAccess);
+      setEntries(permissions.entries.map((entry) => ({ principal: principalOf(entry), access: entry.access as GrantableAccess })));
+      setNewPrincipal("");
+    }
+  }, [open, permissions]);
+
+  const nameOf = (principal: Principal) => {
+    const [kind, id] = principal.split(":");
+    return kind === "user"
+      ? users.find((user) => user.id === Number(id))?.username ?? `User ${id}`
+      : groups.find((group) => group.id === Number(id))?.name ?? `Group ${id}`;
+  };
+
+  const listed = new Set(entries.map((entry) => entry.principal));
+  // Teachers get only their own groups and can name only the users in them
+  const groupUserIds = new Set(groups.flatMap((group) => [...group.memberIds, ...group.ownerIds]));
+  const availableUsers = users.filter((user) =>
+    user.role !== "admin" && (isAdmin || groupUserIds.has(user.id)) && !listed.has(`user:${user.id}`));
+  const availableGroups = groups.filter((group) => !listed.has(`group:${group.id}`));
+
+  const updateEntry = (index: number, access: GrantableAccess) =>
+    setEntries(entries.map((entry, i) => (i === index ? { ...entry, access } : entry)));
+
+  const addEntry = () => {
+    if (newPrincipal) {
+      setEntries([...entries, { principal: newPrincipal, access: "run" }]);
+      setNewPrincipal("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Permissions of {file.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Everyone signed in</Label>
+            <Select value={defaultAccess} onValueChange={(value) => setDefaultAccess(value as DefaultAccess)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(["none", "run", "view"] as const).map((access) => (
+                  <SelectItem key={access} value={access}>{accessLabels[access]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Users and groups</Label>
+            <p className="text-xs text-gray-500">Each gets the most that applies to them, including what everyone may do.</p>
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {entries.map((entry, index) => (
+                <div key={entry.principal} className="flex items-center space-x-2">
+                  <span className="flex-1 flex items-center text-sm text-gray-900">
+                    {entry.principal.startsWith("group:") ? (
+                      <Users className="mr-2 h-4 w-4 text-gray-400" />
+                    ) : (
+                      <User className="mr-2 h-4 w-4 text-gray-400" />
+                    )}
+                    {nameOf(entry.principal)}
+                  </span>
+                  <Select value={entry.access} onValueChange={(access) => updateEntry(index, access as GrantableAccess)}>
+                    <SelectTrigger className="w-52">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(["run", "view", "edit"] as const).map((access) => (
+                        <SelectItem key={access} value={access}>{accessLabels[access]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEntries(entries.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center space-x-2">
+              <Select value={newPrincipal} onValueChange={(value) => setNewPrincipal(value as Principal)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Add a user or group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableGroups.map((group) => (
+                    <SelectItem key={`group:${group.id}`} value={`group:${group.id}`}>Group: {group.name}</SelectItem>
+                  ))}
+                  {availableUsers.map((user) => (
+                    <SelectItem key={`user:${user.id}`} value={`user:${user.id}`}>{user.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={addEntry} disabled={!newPrincipal}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
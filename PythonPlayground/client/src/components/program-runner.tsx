@@ -1,42 +1,81 @@
 import { useState, useEffect } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, Play, Square, FileText, Clock, CheckCircle, XCircle, Terminal } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, Play, Square, FileText, FolderOpen, Clock, CheckCircle, XCircle, Terminal, TimerOff, Gauge, Settings, Shield } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { PythonFile, Execution } from "@shared/schema";
+import { useProgramRun } from "@/hooks/use-program-run";
+import { WorkspacePanel } from "@/components/workspace-panel";
+import { RunConfigPanel } from "@/components/run-config-panel";
+import { ExecutionSettingsDialog } from "@/components/execution-settings-dialog";
+import { ProgramPermissionsDialog, accessLabels } from "@/components/program-permissions-dialog";
+import { PythonEditor } from "@/components/python-editor";
+import { TracebackView } from "@/components/traceback-view";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TerminalOutput } from "@/components/terminal-output";
+import { describeRunState } from "@/lib/utils";
+import { describeExecutionEnd } from "@shared/execution";
+import { hasAccess } from "@shared/access";
+import type { ProgramFile, Execution, ProjectDetails, RunConfig, ExecutionSettings, ProgramPermissions } from "@shared/schema";
+
+// Select value for running without a saved configuration
+const NO_RUN_CONFIG = "default";
 
 interface ProgramRunnerProps {
-  program: PythonFile;
+  program: ProgramFile;
   onBack: () => void;
 }
 
-interface ExecutionResult {
-  execution: Execution;
-  output: string;
-  error: string;
-  executionTime: number;
-  status: string;
-}
-
 export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
   const [autoRun, setAutoRun] = useState(false);
+  const [stdinLine, setStdinLine] = useState("");
+  const [rawOutput, setRawOutput] = useState(false);
+  const [runConfigId, setRunConfigId] = useState(NO_RUN_CONFIG);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showPermissions, setShowPermissions] = useState(false);
+  // Line of the code preview a traceback frame was clicked for
+  const [revealLine, setRevealLine] = useState<{ line: number } | null>(null);
   const { toast } = useToast();
 
   const { data: executions = [] } = useQuery<Execution[]>({
     queryKey: ["/api/files", program.id, "executions"],
   });
 
-  const executeMutation = useMutation({
-    mutationFn: async (fileId: number): Promise<ExecutionResult> => {
-      const response = await apiRequest("POST", `/api/execute/${fileId}`);
-      return response.json();
-    },
-    onError: () => {
+  const { data: project } = useQuery<ProjectDetails>({
+    queryKey: [`/api/projects/${program.projectId}`],
+    enabled: program.projectId !== null,
+  });
+
+  const { data: runConfigs = [] } = useQuery<RunConfig[]>({
+    queryKey: [`/api/files/${program.id}/run-configs`],
+  });
+
+  // Refetched after the execution settings are edited
+  const { data: file = program } = useQuery<ProgramFile>({
+    queryKey: [`/api/files/${program.id}`],
+  });
+
+  const { data: settings } = useQuery<ExecutionSettings>({
+    queryKey: [`/api/files/${program.id}/execution-settings`],
+  });
+
+  // Admins and the owners of the program's group can change its settings and access
+  const canManage = hasAccess(program.access, "manage");
+
+  const { data: permissions } = useQuery<ProgramPermissions>({
+    queryKey: [`/api/files/${program.id}/permissions`],
+    enabled: canManage,
+  });
+
+  // Fall back to the default when the selected configuration was deleted
+  const selectedRunConfig = runConfigs.find((runConfig) => String(runConfig.id) === runConfigId);
+
+  const run = useProgramRun({
+    onError: (message) => {
       toast({
         title: "Execution Error",
-        description: "Failed to execute Python program.",
+        description: message || "Failed to execute Python program.",
         variant: "destructive",
       });
     },
@@ -45,12 +84,12 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
   // Auto-run the program when component mounts if autoRun is enabled
   useEffect(() => {
     if (autoRun && program.id) {
-      executeMutation.mutate(program.id);
+      run.start(program.id);
     }
   }, [program.id, autoRun]);
 
   const latestExecution = executions[0];
-  const result = executeMutation.data;
+  const result = run.result;
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -58,11 +97,30 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case "error":
         return <XCircle className="h-5 w-5 text-red-500" />;
+      case "cancelled":
+        return <Square className="h-5 w-5 text-orange-500" />;
+      case "timeout":
+        return <TimerOff className="h-5 w-5 text-orange-500" />;
+      case "limit_exceeded":
+        return <Gauge className="h-5 w-5 text-orange-500" />;
       default:
         return <Clock className="h-5 w-5 text-gray-500" />;
     }
   };
 
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "success":
+        return "text-green-600";
+      case "cancelled":
+      case "timeout":
+      case "limit_exceeded":
+        return "text-orange-600";
+      default:
+        return "text-red-600";
+    }
+  };
+
   const formatExecutionTime = (ms: number) => {
     if (ms < 1000) {
       return `${ms}ms`;
@@ -80,7 +138,17 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
 
   const handleRunProgram = () => {
     if (program.id) {
-      executeMutation.mutate(program.id);
+      run.start(program.id, undefined, selectedRunConfig ? { runConfigId: selectedRunConfig.id } : undefined);
+    }
+  };
+
+  const handleStdinKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      run.sendInput(stdinLine);
+      setStdinLine("");
+    } else if (e.key === "d" && e.ctrlKey) {
+      e.preventDefault();
+      run.sendEof();
     }
   };
 
@@ -101,19 +169,48 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
             <div className="flex items-center space-x-3">
               <FileText className="h-6 w-6 text-blue-600" />
               <div>
-                <h1 className="text-xl font-bold text-gray-900">{program.name}</h1>
-                <p className="text-sm text-gray-500">Python Program Execution</p>
+                <h1 className="text-xl font-bold text-gray-900">{project?.name ?? program.name}</h1>
+                <p className="text-sm text-gray-500">
+                  {project ? `Python Project · runs ${program.name}` : "Python Program Execution"}
+                </p>
               </div>
             </div>
           </div>
           <div className="flex items-center space-x-4">
+            {runConfigs.length > 0 && (
+              <Select
+                value={selectedRunConfig ? runConfigId : NO_RUN_CONFIG}
+                onValueChange={setRunConfigId}
+                disabled={run.isRunning}
+              >
+                <SelectTrigger className="w-48" title="Run configuration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_RUN_CONFIG}>Default</SelectItem>
+                  {runConfigs.map((runConfig) => (
+                    <SelectItem key={runConfig.id} value={String(runConfig.id)}>{runConfig.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {run.isRunning && (
+              <Button 
+                onClick={() => run.stop()}
+                disabled={!run.canStop}
+                variant="destructive"
+              >
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            )}
             <Button 
               onClick={handleRunProgram}
-              disabled={executeMutation.isPending}
+              disabled={run.isRunning}
               className="bg-green-600 hover:bg-green-700 text-white"
             >
               <Play className="mr-2 h-4 w-4" />
-              {executeMutation.isPending ? "Running..." : "Run Program"}
+              {run.isRunning ? `${describeRunState(run.queuePosition)}...` : "Run Program"}
             </Button>
           </div>
         </div>
@@ -143,14 +240,90 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
                   <label className="text-sm font-medium text-gray-700">Last Modified</label>
                   <p className="text-sm text-gray-900">{new Date(program.updatedAt).toLocaleString()}</p>
                 </div>
+                {project && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Project Files</label>
+                    <div className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                      {project.files.map((file) => (
+                        <div key={file.path} className="flex items-center justify-between text-sm">
+                          <span className="flex items-center font-mono text-gray-900">
+                            {file.fileId !== undefined ? (
+                              <FileText className="mr-2 h-3 w-3 text-blue-600" />
+                            ) : (
+                              <FolderOpen className="mr-2 h-3 w-3 text-gray-400" />
+                            )}
+                            {file.path}
+                            {file.fileId === program.id && (
+                              <span className="ml-2 text-xs text-green-600">entry point</span>
+                            )}
+                          </span>
+                          <span className="text-xs text-gray-500">{Math.round(file.size / 1024 * 100) / 100} KB</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {settings && (
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-gray-700">Execution Settings</label>
+                      {canManage && (
+                        <Button variant="ghost" size="sm" onClick={() => setShowSettings(true)}>
+                          <Settings className="mr-2 h-4 w-4" />
+                          Edit
+                        </Button>
+                      )}
+                    </div>
+                    <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                      <dt className="text-gray-500">Timeout</dt>
+                      <dd className="text-gray-900">
+                        {settings.timeoutMs / 1000}s
+                        {file.timeoutMs === null && <span className="ml-1 text-xs text-gray-400">(default)</span>}
+                      </dd>
+                      <dt className="text-gray-500">Memory limit</dt>
+                      <dd className="text-gray-900">
+                        {Math.round(settings.memoryBytes / 1024 / 1024)} MB
+                        {file.memoryMb === null && <span className="ml-1 text-xs text-gray-400">(default)</span>}
+                      </dd>
+                      <dt className="text-gray-500">Output limit</dt>
+                      <dd className="text-gray-900">
+                        {Math.round(settings.maxOutputBytes / 1024)} KB
+                        {file.maxOutputBytes === null && <span className="ml-1 text-xs text-gray-400">(default)</span>}
+                      </dd>
+                      <dt className="text-gray-500">Keyboard input</dt>
+                      <dd className="text-gray-900">
+                        {settings.allowInteractive ? "Allowed" : "Not allowed"}
+                        {file.allowInteractive === null && <span className="ml-1 text-xs text-gray-400">(default)</span>}
+                      </dd>
+                    </dl>
+                  </div>
+                )}
+                {permissions && (
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-gray-700">Access</label>
+                      <Button variant="ghost" size="sm" onClick={() => setShowPermissions(true)}>
+                        <Shield className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-900">
+                      Everyone: {accessLabels[permissions.defaultAccess]}
+                      {permissions.entries.length > 0 && (
+                        <span className="ml-1 text-gray-500">
+                          + {permissions.entries.length} user{permissions.entries.length !== 1 ? "s and groups" : " or group"}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <label className="text-sm font-medium text-gray-700">Code Preview</label>
-                  <div className="mt-2 bg-gray-900 rounded-lg p-4 max-h-64 overflow-y-auto">
-                    <pre className="text-sm text-gray-100 font-mono whitespace-pre-wrap">
-                      {program.content.slice(0, 500)}
-                      {program.content.length > 500 && "\n... (truncated)"}
-                    </pre>
-                  </div>
+                  {file.content !== null ? (
+                    <PythonEditor value={file.content} readOnly revealLine={revealLine} className="mt-2 h-64 rounded-lg" />
+                  ) : (
+                    <p className="mt-2 text-sm text-gray-500">The code of this program is hidden; you may only run it.</p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -164,16 +337,26 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
                   <Terminal className="mr-2 h-5 w-5 text-green-600" />
                   Execution Results
                 </div>
-                {executeMutation.isPending && (
-                  <div className="flex items-center space-x-2">
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600"></div>
-                    <span className="text-sm text-gray-600">Running...</span>
-                  </div>
-                )}
+                <div className="flex items-center space-x-2">
+                  {run.isRunning && (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600"></div>
+                      <span className="text-sm text-gray-600">{describeRunState(run.queuePosition)}...</span>
+                    </>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRawOutput(!rawOutput)}
+                    title="Show control characters instead of interpreting them"
+                  >
+                    {rawOutput ? "Rendered" : "Raw"}
+                  </Button>
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {!currentResult && !executeMutation.isPending ? (
+              {!currentResult && !run.isRunning ? (
                 <div className="text-center py-12">
                   <Play className="h-12 w-12 mx-auto mb-4 text-gray-300" />
                   <p className="text-gray-500 mb-4">Click "Run Program" to execute</p>
@@ -185,10 +368,35 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
                     Run Program
                   </Button>
                 </div>
-              ) : executeMutation.isPending ? (
-                <div className="text-center py-12">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600 mx-auto mb-4"></div>
-                  <p className="text-gray-600">Executing Python program...</p>
+              ) : run.isRunning ? (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700 block">Live Output</label>
+                  <div className="bg-gray-900 rounded-lg p-4 max-h-64 overflow-y-auto">
+                    {run.chunks.length === 0 ? (
+                      <pre className="text-sm font-mono text-gray-500">
+                        {run.queuePosition !== null
+                          ? `Waiting for a free worker, #${run.queuePosition} in the queue...`
+                          : "Waiting for output..."}
+                      </pre>
+                    ) : (
+                      <TerminalOutput
+                        chunks={run.chunks}
+                        raw={rawOutput}
+                        className="text-sm font-mono text-green-400"
+                        streamClassNames={{ stderr: "text-red-400", stdin: "text-yellow-300" }}
+                      />
+                    )}
+                  </div>
+                  {settings?.allowInteractive !== false && (
+                    <Input
+                      value={stdinLine}
+                      onChange={(e) => setStdinLine(e.target.value)}
+                      onKeyDown={handleStdinKeyDown}
+                      className="font-mono"
+                      placeholder="Type input for the program and press Enter (Ctrl+D for end of input)"
+                      autoFocus
+                    />
+                  )}
                 </div>
               ) : currentResult ? (
                 <div className="space-y-4">
@@ -199,9 +407,7 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
                         <span className="text-gray-600">Status:</span>
                         <div className="flex items-center space-x-2 mt-1">
                           {getStatusIcon(currentResult.status)}
-                          <span className={`font-medium ${
-                            currentResult.status === "success" ? "text-green-600" : "text-red-600"
-                          }`}>
+                          <span className={`font-medium ${getStatusColor(currentResult.status)}`}>
                             {currentResult.status.toUpperCase()}
                           </span>
                         </div>
@@ -210,6 +416,10 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
                         <span className="text-gray-600">Execution Time:</span>
                         <p className="font-mono mt-1">{formatExecutionTime(currentResult.executionTime)}</p>
                       </div>
+                      <div className="col-span-2">
+                        <span className="text-gray-600">Ended:</span>
+                        <p className="mt-1">{describeExecutionEnd(currentResult.execution)}</p>
+                      </div>
                       <div className="col-span-2">
                         <span className="text-gray-600">Completed:</span>
                         <p className="mt-1">{new Date(currentResult.execution.createdAt).toLocaleString()}</p>
@@ -222,21 +432,38 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
                     <div>
                       <label className="text-sm font-medium text-gray-700 mb-2 block">Program Output</label>
                       <div className="bg-gray-900 rounded-lg p-4 max-h-64 overflow-y-auto">
-                        <pre className="text-sm text-green-400 font-mono whitespace-pre-wrap">
-                          {currentResult.output}
-                        </pre>
+                        <TerminalOutput
+                          text={currentResult.output}
+                          raw={rawOutput}
+                          className="text-sm text-green-400 font-mono"
+                        />
                       </div>
                     </div>
                   )}
 
+                  {/* Traceback */}
+                  {currentResult.execution.traceback && (
+                    <div>
+                      <label className="text-sm font-medium text-red-700 mb-2 block">Traceback</label>
+                      <TracebackView
+                        traceback={currentResult.execution.traceback}
+                        fileId={program.id}
+                        onShowLine={file.content !== null ? (line) => setRevealLine({ line }) : undefined}
+                      />
+                    </div>
+                  )}
+
                   {/* Errors */}
                   {currentResult.error && (
                     <div>
                       <label className="text-sm font-medium text-red-700 mb-2 block">Error Output</label>
                       <div className="bg-red-50 border border-red-200 rounded-lg p-4 max-h-64 overflow-y-auto">
-                        <pre className="text-sm text-red-700 font-mono whitespace-pre-wrap">
-                          {currentResult.error}
-                        </pre>
+                        <TerminalOutput
+                          text={currentResult.error}
+                          stream="stderr"
+                          raw={rawOutput}
+                          className="text-sm text-red-700 font-mono"
+                        />
                       </div>
                     </div>
                   )}
@@ -253,6 +480,10 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
           </Card>
         </div>
 
+        <RunConfigPanel fileId={program.id} canEdit={canManage} />
+
+        <WorkspacePanel fileId={program.id} disabled={run.isRunning} />
+
         {/* Execution History */}
         {executions.length > 1 && (
           <Card className="mt-8">
@@ -263,17 +494,23 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
               <div className="space-y-2">
                 {executions.slice(0, 5).map((execution) => (
                   <div key={execution.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
-                    <div className="flex items-center space-x-3">
+                    <div className="flex items-center space-x-3" title={describeExecutionEnd(execution)}>
                       {getStatusIcon(execution.status)}
                       <span className="text-sm text-gray-600">
                         {new Date(execution.createdAt).toLocaleString()}
                       </span>
+                      {execution.revision !== null && (
+                        <span className="text-xs text-gray-500">r{execution.revision}</span>
+                      )}
+                      {(execution.args?.length || execution.stdin !== null) && (
+                        <code className="text-xs text-gray-500 truncate max-w-xs">
+                          {[...(execution.args ?? []), ...(execution.stdin !== null ? ["< stdin"] : [])].join(" ")}
+                        </code>
+                      )}
                     </div>
                     <div className="flex items-center space-x-4 text-sm text-gray-500">
                       <span>{formatExecutionTime(execution.executionTime || 0)}</span>
-                      <span className={`font-medium ${
-                        execution.status === "success" ? "text-green-600" : "text-red-600"
-                      }`}>
+                      <span className={`font-medium ${getStatusColor(execution.status)}`}>
                         {execution.status}
                       </span>
                     </div>
@@ -284,6 +521,11 @@ export function ProgramRunner({ program, onBack }: ProgramRunnerProps) {
           </Card>
         )}
       </div>
+
+      {canManage && <ExecutionSettingsDialog file={file} open={showSettings} onOpenChange={setShowSettings} />}
+      {permissions && (
+        <ProgramPermissionsDialog file={file} permissions={permissions} open={showPermissions} onOpenChange={setShowPermissions} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,16 +1,17 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Play, FileText, Clock, Upload, Trash2 } from "lucide-react";
+import { Play, FileText, FolderOpen, Clock, Upload, Trash2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { PythonFile } from "@shared/schema";
+import { hasAccess } from "@shared/access";
+import type { Project, ProgramFile } from "@shared/schema";
 
 interface ProgramSelectorProps {
-  programs: PythonFile[];
+  programs: ProgramFile[];
   isLoading: boolean;
-  onProgramSelect: (program: PythonFile) => void;
+  onProgramSelect: (program: ProgramFile) => void;
   onShowUpload: () => void;
 }
 
@@ -18,12 +19,19 @@ export function ProgramSelector({ programs, isLoading, onProgramSelect, onShowUp
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Project entry points are listed as programs and shown under the project's name
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+  const projectsById = new Map(projects.map(project => [project.id, project]));
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/files/${id}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       toast({
         title: "Program deleted",
         description: "The program has been removed successfully.",
@@ -46,7 +54,10 @@ export function ProgramSelector({ programs, isLoading, onProgramSelect, onShowUp
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
   };
 
-  const getFileDescription = (content: string) => {
+  const getFileDescription = (content: string | null) => {
+    if (content === null) {
+      return "Python program (run only)";
+    }
     const lines = content.split('\n');
     const firstComment = lines.find(line => line.trim().startsWith('#') && line.trim().length > 1);
     if (firstComment) {
@@ -103,7 +114,9 @@ export function ProgramSelector({ programs, isLoading, onProgramSelect, onShowUp
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {programs.map((program) => (
+      {programs.map((program) => {
+        const project = program.projectId !== null ? projectsById.get(program.projectId) : undefined;
+        return (
         <Card 
           key={program.id} 
           className="hover:shadow-lg transition-all cursor-pointer group border-2 hover:border-blue-300 bg-white"
@@ -112,19 +125,25 @@ export function ProgramSelector({ programs, isLoading, onProgramSelect, onShowUp
           <CardHeader className="pb-3">
             <div className="flex items-start justify-between">
               <div className="flex items-center space-x-2">
-                <FileText className="h-5 w-5 text-blue-600" />
+                {project ? (
+                  <FolderOpen className="h-5 w-5 text-blue-600" />
+                ) : (
+                  <FileText className="h-5 w-5 text-blue-600" />
+                )}
                 <CardTitle className="text-lg font-semibold text-gray-900 truncate">
-                  {program.name.replace('.py', '')}
+                  {project ? project.name : program.name.replace('.py', '')}
                 </CardTitle>
               </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0 text-gray-400 hover:text-red-500"
-                onClick={(e) => handleDelete(e, program.id)}
-              >
-                <Trash2 className="h-3 w-3" />
-              </Button>
+              {hasAccess(program.access, "manage") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0 text-gray-400 hover:text-red-500"
+                  onClick={(e) => handleDelete(e, program.id)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
             </div>
             <p className="text-sm text-gray-600 line-clamp-2">
               {getFileDescription(program.content)}
@@ -141,7 +160,7 @@ export function ProgramSelector({ programs, isLoading, onProgramSelect, onShowUp
                 </span>
               </div>
               <Badge variant="secondary" className="text-xs">
-                Python
+                {program.projectId !== null ? "Project" : "Python"}
               </Badge>
             </div>
             
@@ -157,7 +176,8 @@ export function ProgramSelector({ programs, isLoading, onProgramSelect, onShowUp
             </Button>
           </CardContent>
         </Card>
-      ))}
+        );
+      })}
     </div>
   );
 }
\ No newline at end of file
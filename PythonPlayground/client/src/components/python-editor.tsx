@@ -0,0 +1,127 @@
+import { useEffect, useRef } from "react";
+import { basicSetup } from "codemirror";
+import { EditorView, keymap, placeholder as placeholderText } from "@codemirror/view";
+import { EditorState, type Text } from "@codemirror/state";
+import { indentWithTab } from "@codemirror/commands";
+import { indentUnit } from "@codemirror/language";
+import { python } from "@codemirror/lang-python";
+import { oneDark } from "@codemirror/theme-one-dark";
+import { lintGutter, setDiagnostics, type Diagnostic as EditorDiagnostic } from "@codemirror/lint";
+import { cn } from "@/lib/utils";
+import type { Diagnostic } from "@shared/schema";
+
+interface PythonEditorProps {
+  value: string;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+  placeholder?: string;
+  // Shown as underlines and gutter markers, and moved along with edits
+  diagnostics?: Diagnostic[];
+  // Selects and scrolls to the line; a new object shows it again
+  revealLine?: { line: number } | null;
+  className?: string;
+}
+
+const editorTheme = EditorView.theme({
+  "&": { height: "100%", fontSize: "0.875rem" },
+  ".cm-scroller": { fontFamily: "'JetBrains Mono', monospace", lineHeight: "1.5" },
+});
+
+// Turns lines and columns into document offsets, kept inside the document in
+// case it changed since the check
+function toEditorDiagnostic(doc: Text, diagnostic: Diagnostic): EditorDiagnostic {
+  const line = doc.line(Math.min(Math.max(diagnostic.line, 1), doc.lines));
+  const from = Math.min(line.from + diagnostic.column - 1, line.to);
+  let to = line.to;
+  if (diagnostic.endLine !== null && diagnostic.endColumn !== null && diagnostic.endLine <= doc.lines) {
+    const endLine = doc.line(diagnostic.endLine);
+    to = Math.min(endLine.from + diagnostic.endColumn - 1, endLine.to);
+  }
+
+  return {
+    from,
+    to: Math.max(from, to),
+    severity: diagnostic.severity,
+    message: diagnostic.message,
+    source: diagnostic.source,
+  };
+}
+
+// CodeMirror with Python highlighting, line numbers, bracket matching,
+// auto-indent, search and replace (Ctrl+F) and multiple cursors (Ctrl+click
+// or Ctrl+D). Read-only editors keep everything but editing.
+export function PythonEditor({ value, onChange, readOnly = false, placeholder = "", diagnostics, revealLine, className }: PythonEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  // The listener is set up once, so it reads the latest callback from here
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  // Set while content from the value prop is put in, which is not an edit
+  const settingValueRef = useRef(false);
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          basicSetup,
+          python(),
+          indentUnit.of("    "),
+          keymap.of([indentWithTab]),
+          oneDark,
+          editorTheme,
+          placeholderText(placeholder),
+          readOnly ? [] : lintGutter(),
+          EditorState.readOnly.of(readOnly),
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged && !settingValueRef.current) {
+              onChangeRef.current?.(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [readOnly, placeholder]);
+
+  // Takes over content set from outside, e.g. when another file is opened
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && view.state.doc.toString() !== value) {
+      settingValueRef.current = true;
+      try {
+        view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+      } finally {
+        settingValueRef.current = false;
+      }
+    }
+  }, [value]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view) {
+      const editorDiagnostics = (diagnostics ?? []).map((diagnostic) => toEditorDiagnostic(view.state.doc, diagnostic));
+      view.dispatch(setDiagnostics(view.state, editorDiagnostics));
+    }
+  }, [diagnostics, readOnly]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && revealLine) {
+      const line = view.state.doc.line(Math.min(Math.max(revealLine.line, 1), view.state.doc.lines));
+      view.dispatch({
+        selection: { anchor: line.from, head: line.to },
+        effects: EditorView.scrollIntoView(line.from, { y: "center" }),
+      });
+      view.focus();
+    }
+  }, [revealLine]);
+
+  return <div ref={containerRef} className={cn("overflow-hidden", className)} />;
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal, Plus, Pencil, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatArguments, splitArguments } from "@/lib/command-line";
+import type { RunConfig, InsertRunConfig, Interpreter } from "@shared/schema";
+
+const DEFAULT_INTERPRETER = "python3";
+
+interface RunConfigPanelProps {
+  fileId: number;
+  // Only those who manage the program can add, change or delete configurations
+  canEdit: boolean;
+}
+
+// Named ways of running the program (arguments, variables, input, timeout,
+// interpreter) that can then be picked when starting it
+export function RunConfigPanel({ fileId, canEdit }: RunConfigPanelProps) {
+  // undefined: dialog closed, null: creating a new configuration
+  const [editing, setEditing] = useState<RunConfig | null | undefined>(undefined);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: runConfigs = [] } = useQuery<RunConfig[]>({
+    queryKey: [`/api/files/${fileId}/run-configs`],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/run-configs/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${fileId}/run-configs`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete run configuration",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <SlidersHorizontal className="mr-2 h-5 w-5 text-blue-600" />
+            Run Configurations
+          </div>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {runConfigs.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No saved configurations. The program runs without arguments or input.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {runConfigs.map((runConfig) => (
+              <div key={runConfig.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900">{runConfig.name}</div>
+                  <code className="text-xs text-gray-500 truncate block">
+                    {[
+                      runConfig.interpreter ?? DEFAULT_INTERPRETER,
+                      formatArguments(runConfig.args),
+                      runConfig.stdin !== null ? "< stdin" : "",
+                      runConfig.timeoutMs !== null ? `(timeout ${runConfig.timeoutMs / 1000}s)` : "",
+                    ].filter(Boolean).join(" ")}
+                  </code>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(runConfig)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(runConfig.id)}
+                      disabled={deleteMutation.isPending}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Keyed so the form starts from the configuration being edited */}
+      <RunConfigDialog
+        key={editing === undefined ? "closed" : editing?.id ?? "new"}
+        fileId={fileId}
+        runConfig={editing}
+        onClose={() => setEditing(undefined)}
+      />
+    </Card>
+  );
+}
+
+interface RunConfigDialogProps {
+  fileId: number;
+  runConfig: RunConfig | null | undefined;
+  onClose: () => void;
+}
+
+interface RunConfigForm {
+  name: string;
+  args: string;
+  env: string;
+  stdin: string;
+  timeoutSeconds: string;
+  interpreter: string;
+}
+
+const toForm = (runConfig: RunConfig | null | undefined): RunConfigForm => ({
+  name: runConfig?.name ?? "",
+  args: formatArguments(runConfig?.args ?? []),
+  env: Object.entries(runConfig?.env ?? {}).map(([name, value]) => `${name}=${value}`).join("\n"),
+  stdin: runConfig?.stdin ?? "",
+  timeoutSeconds: runConfig?.timeoutMs != null ? String(runConfig.timeoutMs / 1000) : "",
+  interpreter: runConfig?.interpreter ?? DEFAULT_INTERPRETER,
+});
+
+// Turns the form into the request body, or throws with a message for the user
+const fromForm = (form: RunConfigForm): InsertRunConfig => {
+  const env: Record<string, string> = {};
+  for (const line of form.env.split("\n").map((line) => line.trim()).filter(Boolean)) {
+    const separator = line.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Expected NAME=value, got "${line}"`);
+    }
+    env[line.slice(0, separator)] = line.slice(separator + 1);
+  }
+
+  return {
+    name: form.name.trim(),
+    args: splitArguments(form.args),
+    env,
+    stdin: form.stdin === "" ? null : form.stdin,
+    timeoutMs: form.timeoutSeconds.trim() === "" ? null : Math.round(Number(form.timeoutSeconds) * 1000),
+    interpreter: form.interpreter === DEFAULT_INTERPRETER ? null : form.interpreter,
+  };
+};
+
+function RunConfigDialog({ fileId, runConfig, onClose }: RunConfigDialogProps) {
+  const [form, setForm] = useState<RunConfigForm>(() => toForm(runConfig));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: interpreters = [{ name: DEFAULT_INTERPRETER, version: null }] } = useQuery<Interpreter[]>({
+    queryKey: ["/api/interpreters"],
+    enabled: runConfig !== undefined,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<RunConfig> => {
+      const data = fromForm(form);
+      const response = runConfig
+        ? await apiRequest("PATCH", `/api/run-configs/${runConfig.id}`, data)
+        : await apiRequest("POST", `/api/files/${fileId}/run-configs`, data);
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${fileId}/run-configs`] });
+      onClose();
+      toast({
+        title: "Run configuration saved",
+        description: `"${saved.name}" can now be picked when running the program.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save run configuration",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={runConfig !== undefined} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{runConfig ? "Edit Run Configuration" : "New Run Configuration"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="run-config-name">Name</Label>
+            <Input
+              id="run-config-name"
+              placeholder="e.g. sample-input"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="run-config-args">Arguments</Label>
+            <Input
+              id="run-config-args"
+              className="font-mono"
+              placeholder="--mode fast"
+              value={form.args}
+              onChange={(e) => setForm({ ...form, args: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="run-config-env">Environment variables (one NAME=value per line)</Label>
+            <Textarea
+              id="run-config-env"
+              className="font-mono"
+              rows={3}
+              value={form.env}
+              onChange={(e) => setForm({ ...form, env: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="run-config-stdin">Input (leave empty to type it while the program runs)</Label>
+            <Textarea
+              id="run-config-stdin"
+              className="font-mono"
+              rows={4}
+              value={form.stdin}
+              onChange={(e) => setForm({ ...form, stdin: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="run-config-timeout">Timeout (seconds)</Label>
+              <Input
+                id="run-config-timeout"
+                type="number"
+                min={1}
+                placeholder="Default"
+                value={form.timeoutSeconds}
+                onChange={(e) => setForm({ ...form, timeoutSeconds: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Interpreter</Label>
+              <Select value={form.interpreter} onValueChange={(interpreter) => setForm({ ...form, interpreter })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {interpreters.map((interpreter) => (
+                    <SelectItem key={interpreter.name} value={interpreter.name}>
+                      {interpreter.name}
+                      {interpreter.version && <span className="ml-2 text-xs text-gray-500">{interpreter.version}</span>}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useMemo, useRef } from "react";
+import { AnsiScreen, escapeControlCharacters, type TextStyle } from "@/lib/ansi";
+import { cn } from "@/lib/utils";
+import type { RunChunk } from "@/hooks/use-program-run";
+
+type Stream = RunChunk["stream"];
+
+interface TerminalOutputProps {
+  // Either the chunks of a (running) program, or finished output of one stream
+  chunks?: RunChunk[];
+  text?: string;
+  stream?: Stream;
+  // Shows the text exactly as printed, with control characters made visible
+  raw?: boolean;
+  streamClassNames?: Partial<Record<Stream, string>>;
+  className?: string;
+}
+
+const toCss = (style: TextStyle): React.CSSProperties => {
+  return {
+    color: style.inverse ? style.bg ?? "#000000" : style.fg,
+    backgroundColor: style.inverse ? style.fg ?? "currentColor" : style.bg,
+    fontWeight: style.bold ? "bold" : undefined,
+    opacity: style.dim ? 0.7 : undefined,
+    fontStyle: style.italic ? "italic" : undefined,
+    textDecoration: style.underline ? "underline" : undefined,
+  };
+};
+
+// Renders program output the way a terminal would: colors, carriage-return
+// progress bars, clear-screen and cursor movement are interpreted.
+export function TerminalOutput({ chunks, text, stream = "stdout", raw = false, streamClassNames = {}, className }: TerminalOutputProps) {
+  const textChunks = useMemo<RunChunk[]>(
+    () => (text !== undefined ? [{ stream, data: text }] : []),
+    [text, stream],
+  );
+  const source = chunks ?? textChunks;
+
+  // Chunks only ever get appended while a program runs, so the screen is
+  // kept between renders and fed just the new ones
+  const screenRef = useRef<{ screen: AnsiScreen<Stream>; source: RunChunk[]; written: number } | null>(null);
+
+  const lines = useMemo(() => {
+    if (raw) return null;
+
+    let state = screenRef.current;
+    const isContinuation = state
+      && state.written <= source.length
+      && (state.written === 0 || state.source[state.written - 1] === source[state.written - 1]);
+    if (!state || !isContinuation) {
+      state = { screen: new AnsiScreen<Stream>("stdout"), source, written: 0 };
+    }
+
+    for (const chunk of source.slice(state.written)) {
+      state.screen.write(chunk.data, chunk.stream);
+    }
+    screenRef.current = { ...state, source, written: source.length };
+    return state.screen.spans();
+  }, [source, raw]);
+
+  return (
+    <pre className={cn("whitespace-pre-wrap", className)}>
+      {lines
+        ? lines.map((spans, lineIndex) => (
+            <span key={lineIndex}>
+              {spans.map((span, spanIndex) => (
+                <span key={spanIndex} className={streamClassNames[span.tag]} style={toCss(span.style)}>
+                  {span.text}
+                </span>
+              ))}
+              {lineIndex < lines.length - 1 && "\n"}
+            </span>
+          ))
+        : source.map((chunk, index) => (
+            <span key={index} className={streamClassNames[chunk.stream]}>
+              {escapeControlCharacters(chunk.data)}
+            </span>
+          ))}
+    </pre>
+  );
+}
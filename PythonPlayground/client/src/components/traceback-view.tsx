@@ -0,0 +1,60 @@
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronRight } from "lucide-react";
+import type { Traceback, TracebackFrame } from "@shared/schema";
+
+interface TracebackViewProps {
+  traceback: Traceback;
+  // Frames in this file link to their line through onShowLine
+  fileId?: number;
+  onShowLine?: (line: number) => void;
+}
+
+// The exception a run ended with and the calls that led to it, most recent
+// last. Frames in the program's own files start expanded; the interpreter's
+// library frames start collapsed.
+export function TracebackView({ traceback, fileId, onShowLine }: TracebackViewProps) {
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-2">
+      <p className="text-sm font-mono text-red-800 break-words">
+        <span className="font-semibold">{traceback.exceptionType}</span>
+        {traceback.message && `: ${traceback.message}`}
+      </p>
+      <div className="space-y-1">
+        {traceback.frames.map((frame, index) => (
+          <TracebackFrameRow
+            key={index}
+            frame={frame}
+            onShowLine={onShowLine && frame.fileId !== null && frame.fileId === fileId ? () => onShowLine(frame.line) : undefined}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TracebackFrameRow({ frame, onShowLine }: { frame: TracebackFrame; onShowLine?: () => void }) {
+  const location = `${frame.file}, line ${frame.line}`;
+
+  return (
+    <Collapsible defaultOpen={frame.fileId !== null}>
+      <div className="flex items-center text-xs font-mono">
+        <CollapsibleTrigger className="group flex items-center text-gray-500 hover:text-gray-700" disabled={frame.code === null}>
+          <ChevronRight className="h-3 w-3 mr-1 transition-transform group-data-[state=open]:rotate-90" />
+        </CollapsibleTrigger>
+        {onShowLine ? (
+          <button onClick={onShowLine} className="text-blue-700 hover:underline" title="Show this line in the code">
+            {location}
+          </button>
+        ) : (
+          <span className={frame.fileId !== null ? "text-gray-900" : "text-gray-500"}>{location}</span>
+        )}
+        {frame.function && <span className="ml-1 text-gray-500">in {frame.function}</span>}
+      </div>
+      {frame.code !== null && (
+        <CollapsibleContent>
+          <pre className="ml-4 mt-1 text-xs font-mono text-gray-800 whitespace-pre-wrap">{frame.code}</pre>
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
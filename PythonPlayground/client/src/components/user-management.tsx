@@ -0,0 +1,451 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UserPlus, Upload, KeyRound, Trash2, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { PublicUser, CreateUserData, UpdateUser, ImportUsersResult } from "@shared/schema";
+
+const ROLES = ["admin", "teacher", "user"] as const;
+
+export function UserManagement() {
+  const [showCreate, setShowCreate] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [resetUser, setResetUser] = useState<PublicUser | null>(null);
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateUser }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: showError("Failed to update user"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      // The account is also taken out of its groups
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+      toast({
+        title: "User deleted",
+        description: "The account has been removed.",
+      });
+    },
+    onError: showError("Failed to delete user"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Users className="mr-2 h-5 w-5 text-blue-600" />
+            Users
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import CSV
+            </Button>
+            <Button onClick={() => setShowCreate(true)} className="bg-blue-600 text-white hover:bg-blue-700">
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add User
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse bg-gray-200 h-10 rounded" />
+            ))}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Login Enabled</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => {
+                const isSelf = user.id === currentUser?.id;
+                return (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">
+                      {user.username}
+                      {isSelf && <Badge variant="secondary" className="ml-2">You</Badge>}
+                      {user.mustChangePassword && (
+                        <Badge variant="outline" className="ml-2 text-orange-600 border-orange-300">
+                          Must change password
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        disabled={isSelf}
+                        onValueChange={(role) => updateMutation.mutate({ id: user.id, data: { role: role as UpdateUser["role"] } })}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={!user.disabled}
+                        disabled={isSelf}
+                        onCheckedChange={(enabled) => updateMutation.mutate({ id: user.id, data: { disabled: !enabled } })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {new Date(user.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setResetUser(user)}
+                        title="Reset password"
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isSelf}
+                        onClick={() => deleteMutation.mutate(user.id)}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Delete user"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CreateUserDialog open={showCreate} onOpenChange={setShowCreate} />
+      <ImportUsersDialog open={showImport} onOpenChange={setShowImport} />
+      <ResetPasswordDialog user={resetUser} onClose={() => setResetUser(null)} />
+    </Card>
+  );
+}
+
+interface DialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function CreateUserDialog({ open, onOpenChange }: DialogProps) {
+  const [form, setForm] = useState<CreateUserData>({
+    username: "",
+    password: "",
+    role: "user",
+    mustChangePassword: true,
+  });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateUserData): Promise<PublicUser> => {
+      const response = await apiRequest("POST", "/api/users", data);
+      return response.json();
+    },
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setForm({ username: "", password: "", role: "user", mustChangePassword: true });
+      onOpenChange(false);
+      toast({
+        title: "User created",
+        description: `${user.username} can now sign in.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add User</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="new-username">Username</Label>
+            <Input
+              id="new-username"
+              value={form.username}
+              onChange={(e) => setForm({ ...form, username: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              placeholder="At least 8 characters"
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as CreateUserData["role"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{role}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="new-must-change"
+              checked={form.mustChangePassword}
+              onCheckedChange={(checked) => setForm({ ...form, mustChangePassword: checked === true })}
+            />
+            <Label htmlFor="new-must-change">Require a new password on first login</Label>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(form)}
+              disabled={!form.username || form.password.length < 8 || createMutation.isPending}
+            >
+              {createMutation.isPending ? "Creating..." : "Create User"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ResetPasswordDialogProps {
+  user: PublicUser | null;
+  onClose: () => void;
+}
+
+function ResetPasswordDialog({ user, onClose }: ResetPasswordDialogProps) {
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const resetMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/users/${id}/reset-password`, {
+        password,
+        mustChangePassword: true,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Password reset",
+        description: `${user?.username} has to choose a new password at the next login.`,
+      });
+      setPassword("");
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reset Password for {user?.username}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reset-password">Temporary Password</Label>
+            <Input
+              id="reset-password"
+              type="password"
+              placeholder="At least 8 characters"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => user && resetMutation.mutate(user.id)}
+              disabled={password.length < 8 || resetMutation.isPending}
+            >
+              {resetMutation.isPending ? "Saving..." : "Reset Password"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ImportUsersDialog({ open, onOpenChange }: DialogProps) {
+  const [csv, setCsv] = useState("");
+  const [result, setResult] = useState<ImportUsersResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<ImportUsersResult> => {
+      const response = await apiRequest("POST", "/api/users/import", { csv });
+      return response.json();
+    },
+    onSuccess: (importResult) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setResult(importResult);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setCsv("");
+      setResult(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleFileSelect = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (file) {
+      setCsv(await file.text());
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Users from CSV</DialogTitle>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Created {result.created.length} account{result.created.length !== 1 ? "s" : ""}.
+              Generated passwords are shown only once; hand them out before closing this dialog.
+            </p>
+            {result.created.length > 0 && (
+              <div className="max-h-48 overflow-y-auto bg-gray-50 rounded p-3 font-mono text-xs space-y-1">
+                {result.created.map((user) => (
+                  <div key={user.username}>
+                    {user.username} ({user.role}){user.password && `: ${user.password}`}
+                  </div>
+                ))}
+              </div>
+            )}
+            {result.errors.length > 0 && (
+              <div className="max-h-32 overflow-y-auto bg-red-50 border border-red-200 rounded p-3 text-xs text-red-700 space-y-1">
+                {result.errors.map((error) => (
+                  <div key={error.line}>Line {error.line}: {error.message}</div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              One account per line with the columns <code>username,password,role</code>.
+              Leave the password empty to generate one. Imported users must change their password on first login.
+            </p>
+            <Input type="file" accept=".csv,text/csv" onChange={(e) => handleFileSelect(e.target.files)} />
+            <Textarea
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+              className="font-mono text-xs h-40"
+              placeholder={"username,password,role\nanna,,user\nben,,user"}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => importMutation.mutate()} disabled={!csv.trim() || importMutation.isPending}>
+                {importMutation.isPending ? "Importing..." : "Import"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,104 +1,160 @@
 import { useState, useEffect, useRef } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { Terminal as XTerm } from "@xterm/xterm";
+import { FitAddon } from "@xterm/addon-fit";
+import "@xterm/xterm/css/xterm.css";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Terminal, Play, Square, Clock, CheckCircle, XCircle } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
-import type { PythonFile, Execution } from "@shared/schema";
+import { Terminal, Square, FileText, X, KeyRound } from "lucide-react";
+import { useProgramRun } from "@/hooks/use-program-run";
+import { PythonEditor } from "@/components/python-editor";
+import { escapeControlCharacters } from "@/lib/ansi";
+import { describeRunState } from "@/lib/utils";
+import { describeExecutionEnd } from "@shared/execution";
+import { parseRunCommand, CommandLineError, type RunCommand } from "@/lib/command-line";
+import type { ProgramFile, RunConfig } from "@shared/schema";
 
 interface UserTerminalProps {
   onLogout: () => void;
 }
 
-interface ExecutionResult {
-  execution: Execution;
-  output: string;
-  error: string;
-  executionTime: number;
-  status: string;
-}
+const PROMPT = "$ ";
+
+const WELCOME_LINES = [
+  "PyLauncher Terminal - Welcome!",
+  "Type commands to interact with Python programs:",
+  "- 'list' to see available programs",
+  "- 'run <program_name>' to execute a program",
+  "- 'help' for more commands",
+  "",
+];
 
 export function UserTerminal({ onLogout }: UserTerminalProps) {
-  const [selectedProgram, setSelectedProgram] = useState<PythonFile | null>(null);
-  const [terminalHistory, setTerminalHistory] = useState<string[]>([
-    "PyLauncher Terminal - Welcome!",
-    "Type commands to interact with Python programs:",
-    "- 'list' to see available programs",
-    "- 'run <program_name>' to execute a program",
-    "- 'help' for more commands",
-    ""
-  ]);
-  const [currentInput, setCurrentInput] = useState("");
-  const terminalRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
-  const { toast } = useToast();
-
-  const { data: programs = [], refetch: refetchPrograms } = useQuery<PythonFile[]>({
+  const [rawOutput, setRawOutput] = useState(false);
+  // The program whose code `show` displays below the terminal
+  const [shownProgram, setShownProgram] = useState<ProgramFile | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<XTerm | null>(null);
+  // The line being typed at the prompt, and earlier commands for the arrow keys
+  const lineRef = useRef("");
+  const commandHistoryRef = useRef<string[]>([]);
+  const historyIndexRef = useRef(0);
+  // Set as soon as a run starts, before React re-renders with run.isRunning
+  const runningRef = useRef(false);
+  // What has been typed to the running program since its last Enter, so a
+  // line of just "kill" can end it
+  const typedLineRef = useRef("");
+
+  const queryClient = useQueryClient();
+
+  const { data: programs = [] } = useQuery<ProgramFile[]>({
     queryKey: ["/api/files"],
   });
 
-  const executeMutation = useMutation({
-    mutationFn: async (fileId: number): Promise<ExecutionResult> => {
-      const response = await apiRequest("POST", `/api/execute/${fileId}`);
-      return response.json();
+  const addToTerminal = (text: string) => {
+    terminalRef.current?.write(`${text.replace(/\n/g, "\r\n")}\r\n`);
+  };
+
+  const showPrompt = () => {
+    lineRef.current = "";
+    terminalRef.current?.write(PROMPT);
+  };
+
+  const run = useProgramRun({
+    // The queue position is rewritten in place until the program starts
+    onQueued: (position) => {
+      terminalRef.current?.write(`\r\x1b[2K${describeRunState(position)}, waiting for a free worker...`);
     },
-    onSuccess: (result) => {
-      addToTerminal(`\n=== Execution Results ===`);
-      addToTerminal(`Status: ${result.status}`);
+    onStarted: () => {
+      terminalRef.current?.write("\r\x1b[2K");
+    },
+    onOutput: (chunk) => {
+      // The pseudo-terminal already ends lines with \r\n
+      terminalRef.current?.write(rawOutput ? escapeControlCharacters(chunk.data).replace(/\n/g, "\r\n") : chunk.data);
+    },
+    onExit: (result) => {
+      runningRef.current = false;
+      addToTerminal(`\r\n=== Execution Results ===`);
+      addToTerminal(`Status: ${result.status} (${describeExecutionEnd(result.execution)})`);
       addToTerminal(`Time: ${formatExecutionTime(result.executionTime)}`);
       
-      if (result.output) {
-        addToTerminal(`\nOutput:`);
-        addToTerminal(result.output);
-      }
-      
-      if (result.error) {
-        addToTerminal(`\nErrors:`);
-        addToTerminal(result.error);
-      }
-      
       if (!result.output && !result.error) {
         addToTerminal("No output generated");
       }
       
       addToTerminal("");
+      showPrompt();
     },
-    onError: () => {
-      addToTerminal("Error: Failed to execute program");
+    onError: (message) => {
+      runningRef.current = false;
+      addToTerminal(`\r\nError: ${message || "Failed to execute program"}`);
       addToTerminal("");
+      showPrompt();
     },
   });
 
-  const addToTerminal = (text: string) => {
-    setTerminalHistory(prev => [...prev, text]);
-  };
-
   const formatExecutionTime = (ms: number) => {
     if (ms < 1000) return `${ms}ms`;
     return `${(ms / 1000).toFixed(3)}s`;
   };
 
+  // Starts the program on the terminal, first looking up the run
+  // configuration named with --profile
+  const startProgram = async (program: ProgramFile, runCommand: RunCommand, terminal: XTerm) => {
+    let runConfigId: number | undefined;
+    if (runCommand.profile !== undefined) {
+      const runConfigs = await queryClient
+        .fetchQuery<RunConfig[]>({ queryKey: [`/api/files/${program.id}/run-configs`] })
+        .catch(() => []);
+      const runConfig = runConfigs.find((candidate) => candidate.name === runCommand.profile);
+      if (!runConfig) {
+        runningRef.current = false;
+        addToTerminal(`Error: Run configuration '${runCommand.profile}' not found`);
+        if (runConfigs.length > 0) {
+          addToTerminal(`Available: ${runConfigs.map((candidate) => candidate.name).join(", ")}`);
+        }
+        addToTerminal("");
+        showPrompt();
+        return;
+      }
+      runConfigId = runConfig.id;
+    }
+
+    run.start(
+      program.id,
+      { cols: terminal.cols, rows: terminal.rows },
+      { args: runCommand.args, stdinFile: runCommand.stdinFile, runConfigId },
+    );
+  };
+
   const handleCommand = (input: string) => {
     const trimmedInput = input.trim();
-    addToTerminal(`> ${trimmedInput}`);
 
     if (!trimmedInput) {
-      addToTerminal("");
+      showPrompt();
       return;
     }
 
-    const [command, ...args] = trimmedInput.toLowerCase().split(" ");
+    commandHistoryRef.current.push(trimmedInput);
+    historyIndexRef.current = commandHistoryRef.current.length;
+
+    const [commandName, ...args] = trimmedInput.split(/\s+/);
+    const command = commandName.toLowerCase();
 
     switch (command) {
       case "help":
         addToTerminal("Available commands:");
         addToTerminal("  list                 - Show all available programs");
-        addToTerminal("  run <program_name>   - Execute a Python program");
-        addToTerminal("  show <program_name>  - Display program details");
+        addToTerminal("  run <program_name> [--profile <name>] [args...] [< input_file]");
+        addToTerminal("                       - Execute a Python program, optionally with a saved configuration");
+        addToTerminal("  show <program_name>  - Display program details and code");
+        addToTerminal("  kill                 - End the running program; type it while the program runs");
         addToTerminal("  clear                - Clear terminal");
         addToTerminal("  logout               - Sign out");
+        addToTerminal("While a program runs, keys go straight to it: Ctrl+C interrupts it, Ctrl+D ends its input.");
+        addToTerminal("'kill' on a line of its own or Ctrl+Shift+X end it, also when it catches Ctrl+C.");
         addToTerminal("");
         break;
 
@@ -108,33 +164,42 @@ export function UserTerminal({ onLogout }: UserTerminalProps) {
         } else {
           addToTerminal("Available programs:");
           programs.forEach((program, index) => {
-            addToTerminal(`  ${index + 1}. ${program.name}`);
+            addToTerminal(`  ${index + 1}. ${program.name}${program.content === null ? " (run only)" : ""}`);
           });
         }
         addToTerminal("");
         break;
 
-      case "run":
-        if (args.length === 0) {
-          addToTerminal("Error: Please specify a program name");
-          addToTerminal("Usage: run <program_name>");
+      case "run": {
+        let runCommand: RunCommand;
+        try {
+          runCommand = parseRunCommand(trimmedInput.slice(commandName.length));
+        } catch (error) {
+          addToTerminal(`Error: ${error instanceof CommandLineError ? error.message : "Invalid command"}`);
+          addToTerminal("Usage: run <program_name> [--profile <name>] [args...] [< input_file]");
+          addToTerminal("");
+          break;
+        }
+
+        const programName = runCommand.program;
+        const program = programs.find(p => 
+          p.name.toLowerCase() === programName.toLowerCase() ||
+          p.name.toLowerCase() === `${programName.toLowerCase()}.py`
+        );
+        
+        if (program && terminalRef.current) {
+          addToTerminal(`Executing ${program.name}${runCommand.profile !== undefined ? ` with '${runCommand.profile}'` : ""}... (type 'kill' or press Ctrl+Shift+X to end it)`);
+          runningRef.current = true;
+          typedLineRef.current = "";
+          startProgram(program, runCommand, terminalRef.current);
+          return;
         } else {
-          const programName = args.join(" ");
-          const program = programs.find(p => 
-            p.name.toLowerCase() === programName.toLowerCase() ||
-            p.name.toLowerCase() === `${programName.toLowerCase()}.py`
-          );
-          
-          if (program) {
-            addToTerminal(`Executing ${program.name}...`);
-            executeMutation.mutate(program.id);
-          } else {
-            addToTerminal(`Error: Program '${programName}' not found`);
-            addToTerminal("Use 'list' to see available programs");
-          }
+          addToTerminal(`Error: Program '${programName}' not found`);
+          addToTerminal("Use 'list' to see available programs");
         }
         addToTerminal("");
         break;
+      }
 
       case "show":
         if (args.length === 0) {
@@ -151,11 +216,11 @@ export function UserTerminal({ onLogout }: UserTerminalProps) {
             addToTerminal(`Program: ${program.name}`);
             addToTerminal(`Size: ${Math.round(program.size / 1024 * 100) / 100} KB`);
             addToTerminal(`Modified: ${new Date(program.updatedAt).toLocaleString()}`);
-            addToTerminal(`\nCode preview:`);
-            const lines = program.content.split('\n').slice(0, 10);
-            lines.forEach(line => addToTerminal(`  ${line}`));
-            if (program.content.split('\n').length > 10) {
-              addToTerminal("  ... (truncated)");
+            if (program.content === null) {
+              addToTerminal("Code: hidden, this program may only be run");
+            } else {
+              addToTerminal(`Lines: ${program.content.split('\n').length} (code shown below the terminal)`);
+              setShownProgram(program);
             }
           } else {
             addToTerminal(`Error: Program '${programName}' not found`);
@@ -164,17 +229,18 @@ export function UserTerminal({ onLogout }: UserTerminalProps) {
         addToTerminal("");
         break;
 
+      case "kill":
+        addToTerminal("No program is running");
+        addToTerminal("");
+        break;
+
       case "clear":
-        setTerminalHistory([
-          "PyLauncher Terminal - Welcome!",
-          "Type 'help' for available commands",
-          ""
-        ]);
+        terminalRef.current?.clear();
         break;
 
       case "logout":
         onLogout();
-        break;
+        return;
 
       default:
         addToTerminal(`Unknown command: ${command}`);
@@ -182,25 +248,157 @@ export function UserTerminal({ onLogout }: UserTerminalProps) {
         addToTerminal("");
         break;
     }
+
+    showPrompt();
+  };
+
+  // Replaces the line at the prompt, e.g. when browsing the command history
+  const replaceLine = (line: string) => {
+    terminalRef.current?.write(`\r\x1b[K${PROMPT}${line}`);
+    lineRef.current = line;
+  };
+
+  // Follows a key sent to the running program; true when it entered a line of just "kill"
+  const followTypedKey = (key: string) => {
+    switch (key) {
+      case "\r":
+        if (typedLineRef.current.trim().toLowerCase() === "kill") {
+          typedLineRef.current = "";
+          return true;
+        }
+        typedLineRef.current = "";
+        return false;
+      case "\x7f":
+        typedLineRef.current = typedLineRef.current.slice(0, -1);
+        return false;
+      case "\x03":
+      case "\x04":
+      case "\x15":
+        typedLineRef.current = "";
+        return false;
+    }
+    if (!/^[\x00-\x1f\x7f]/.test(key)) {
+      typedLineRef.current += key;
+    }
+    return false;
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" && !executeMutation.isPending) {
-      handleCommand(currentInput);
-      setCurrentInput("");
+  const handleData = (data: string) => {
+    if (runningRef.current) {
+      // While a program runs every key goes to its pseudo-terminal, except
+      // the Enter of a "kill" line, which ends the program instead
+      const keys = data.match(/\x1b\[[0-9;]*[A-Za-z~]|[\s\S]/g) ?? [];
+      if (keys.some(followTypedKey)) {
+        terminalRef.current?.write("\r\n");
+        killProgram();
+        return;
+      }
+      run.sendData(data);
+      return;
+    }
+
+    const history = commandHistoryRef.current;
+    switch (data) {
+      case "\r":
+        terminalRef.current?.write("\r\n");
+        handleCommand(lineRef.current);
+        return;
+      case "\x7f":
+        if (lineRef.current.length > 0) {
+          lineRef.current = lineRef.current.slice(0, -1);
+          terminalRef.current?.write("\b \b");
+        }
+        return;
+      case "\x03":
+        terminalRef.current?.write("^C\r\n");
+        showPrompt();
+        return;
+      case "\x1b[A":
+        if (historyIndexRef.current > 0) {
+          historyIndexRef.current--;
+          replaceLine(history[historyIndexRef.current]);
+        }
+        return;
+      case "\x1b[B":
+        if (historyIndexRef.current < history.length) {
+          historyIndexRef.current++;
+          replaceLine(history[historyIndexRef.current] ?? "");
+        }
+        return;
+    }
+
+    // Typed or pasted text; other control sequences are ignored at the prompt
+    const printable = data.replace(/\x1b\[[0-9;]*[A-Za-z~]|[\x00-\x1f\x7f]/g, "");
+    if (printable) {
+      lineRef.current += printable;
+      terminalRef.current?.write(printable);
     }
   };
 
-  useEffect(() => {
-    if (terminalRef.current) {
-      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
+  // Ends the running program for good, where Ctrl+C only asks it to stop
+  const killProgram = () => {
+    if (run.canStop) {
+      run.stop();
     }
-  }, [terminalHistory]);
+  };
+
+  // xterm keeps the handler it was given, so route input through a ref
+  const handleDataRef = useRef(handleData);
+  handleDataRef.current = handleData;
+
+  const killProgramRef = useRef(killProgram);
+  killProgramRef.current = killProgram;
+
+  const resizeRef = useRef(run.resize);
+  resizeRef.current = run.resize;
 
   useEffect(() => {
-    if (inputRef.current) {
-      inputRef.current.focus();
-    }
+    if (!containerRef.current) return;
+
+    const terminal = new XTerm({
+      cursorBlink: true,
+      fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+      fontSize: 14,
+      theme: { background: "#000000", foreground: "#4ade80", cursor: "#4ade80" },
+    });
+    const fit = new FitAddon();
+    terminal.loadAddon(fit);
+    terminal.open(containerRef.current);
+    fit.fit();
+    terminalRef.current = terminal;
+
+    WELCOME_LINES.forEach(line => terminal.write(`${line}\r\n`));
+    terminal.write(PROMPT);
+
+    // Ctrl+Shift+X never reaches the program, so it works for programs that catch Ctrl+C
+    terminal.attachCustomKeyEventHandler((event) => {
+      if (!(runningRef.current && event.ctrlKey && event.shiftKey && event.code === "KeyX")) {
+        return true;
+      }
+      if (event.type === "keydown") {
+        event.preventDefault();
+        killProgramRef.current();
+      }
+      return false;
+    });
+    const dataListener = terminal.onData(data => handleDataRef.current(data));
+    // Pass the window size through to a running program
+    const resizeListener = terminal.onResize(({ cols, rows }) => {
+      if (runningRef.current) {
+        resizeRef.current({ cols, rows });
+      }
+    });
+    const observer = new ResizeObserver(() => fit.fit());
+    observer.observe(containerRef.current);
+    terminal.focus();
+
+    return () => {
+      observer.disconnect();
+      dataListener.dispose();
+      resizeListener.dispose();
+      terminal.dispose();
+      terminalRef.current = null;
+    };
   }, []);
 
   return (
@@ -219,6 +417,20 @@ export function UserTerminal({ onLogout }: UserTerminalProps) {
             <Badge variant="secondary" className="bg-green-900 text-green-100">
               {programs.length} programs available
             </Badge>
+            <Button
+              onClick={() => setRawOutput(!rawOutput)}
+              variant="outline"
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+              title="Show control characters instead of interpreting them"
+            >
+              {rawOutput ? "Rendered Output" : "Raw Output"}
+            </Button>
+            <Button asChild variant="outline" className="border-gray-600 text-gray-300 hover:bg-gray-700" title="Personal access tokens for scripts and CI">
+              <Link href="/tokens">
+                <KeyRound className="mr-2 h-4 w-4" />
+                API Tokens
+              </Link>
+            </Button>
             <Button 
               onClick={onLogout}
               variant="outline"
@@ -233,49 +445,57 @@ export function UserTerminal({ onLogout }: UserTerminalProps) {
       <div className="p-6">
         <Card className="bg-black border-gray-700">
           <CardHeader>
-            <CardTitle className="text-green-400 flex items-center">
-              <Terminal className="mr-2 h-5 w-5" />
-              Terminal Interface
+            <CardTitle className="text-green-400 flex items-center justify-between">
+              <div className="flex items-center">
+                <Terminal className="mr-2 h-5 w-5" />
+                Terminal Interface
+              </div>
+              {run.isRunning && (
+                <Button
+                  onClick={() => run.stop()}
+                  disabled={!run.canStop}
+                  variant="destructive"
+                  size="sm"
+                >
+                  <Square className="mr-2 h-4 w-4" />
+                  Stop
+                </Button>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {/* Terminal Output */}
-            <div 
-              ref={terminalRef}
-              className="bg-black border border-gray-700 rounded p-4 h-96 overflow-y-auto mb-4 font-mono text-sm"
-            >
-              {terminalHistory.map((line, index) => (
-                <div key={index} className="whitespace-pre-wrap">
-                  {line}
-                </div>
-              ))}
-              {executeMutation.isPending && (
-                <div className="text-yellow-400">
-                  Executing program...
-                </div>
-              )}
-            </div>
-
-            {/* Terminal Input */}
-            <div className="flex items-center space-x-2">
-              <span className="text-green-400">$</span>
-              <input
-                ref={inputRef}
-                type="text"
-                value={currentInput}
-                onChange={(e) => setCurrentInput(e.target.value)}
-                onKeyPress={handleKeyPress}
-                className="flex-1 bg-transparent text-green-400 outline-none font-mono"
-                placeholder="Type a command..."
-                disabled={executeMutation.isPending}
-              />
-              {executeMutation.isPending && (
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-400"></div>
-              )}
+            {/* Terminal */}
+            <div className="bg-black border border-gray-700 rounded p-2 h-96">
+              <div ref={containerRef} className="h-full w-full" />
             </div>
           </CardContent>
         </Card>
 
+        {shownProgram && shownProgram.content !== null && (
+          <Card className="bg-black border-gray-700 mt-6">
+            <CardHeader>
+              <CardTitle className="text-green-400 flex items-center justify-between">
+                <div className="flex items-center">
+                  <FileText className="mr-2 h-5 w-5" />
+                  {shownProgram.name}
+                </div>
+                <Button
+                  onClick={() => setShownProgram(null)}
+                  variant="ghost"
+                  size="sm"
+                  className="text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+                  title="Close"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PythonEditor value={shownProgram.content} readOnly className="h-96 rounded border border-gray-700" />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Actions */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
           <Card className="bg-gray-800 border-gray-700">
@@ -306,8 +526,8 @@ export function UserTerminal({ onLogout }: UserTerminalProps) {
             <CardContent className="p-4">
               <h3 className="font-semibold text-white mb-2">Status</h3>
               <div className="flex items-center space-x-2">
-                <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                <span className="text-sm text-gray-400">Terminal Ready</span>
+                <div className={`w-2 h-2 rounded-full ${run.isRunning ? "bg-orange-400 animate-pulse" : "bg-green-400"}`}></div>
+                <span className="text-sm text-gray-400">{run.isRunning ? `Program ${describeRunState(run.queuePosition).toLowerCase()}` : "Terminal Ready"}</span>
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { HardDrive, Download, RotateCcw, FileText } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatBytes } from "@/lib/utils";
+import type { WorkspaceListing } from "@shared/schema";
+
+interface WorkspacePanelProps {
+  fileId: number;
+  disabled?: boolean;
+}
+
+// Files the program saved while running for the signed-in user, e.g. highscores
+export function WorkspacePanel({ fileId, disabled }: WorkspacePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: workspace } = useQuery<WorkspaceListing>({
+    queryKey: [`/api/files/${fileId}/workspace`],
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/files/${fileId}/workspace`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${fileId}/workspace`] });
+      toast({
+        title: "Workspace reset",
+        description: "All saved files have been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const files = workspace?.files ?? [];
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <HardDrive className="mr-2 h-5 w-5 text-blue-600" />
+            My Files
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => resetMutation.mutate()}
+            disabled={disabled || files.length === 0 || resetMutation.isPending}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {workspace && (
+          <div className="mb-4 space-y-1">
+            <Progress value={Math.min(100, (workspace.usage / workspace.quota) * 100)} />
+            <p className="text-xs text-gray-500">
+              {formatBytes(workspace.usage)} of {formatBytes(workspace.quota)} used
+            </p>
+          </div>
+        )}
+
+        {files.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Files the program saves, like highscores or names, are kept here between runs.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {files.map((file) => (
+              <div key={file.path} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                <div className="flex items-center space-x-2">
+                  <FileText className="h-4 w-4 text-gray-500" />
+                  <div>
+                    <p className="text-sm font-mono">{file.path}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatBytes(file.size)} · {new Date(file.modifiedAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" asChild title="Download">
+                  <a href={`/api/files/${fileId}/workspace/download?path=${encodeURIComponent(file.path)}`} download>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
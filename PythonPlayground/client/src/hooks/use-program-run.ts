@@ -0,0 +1,184 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { ExecutionResult, RunClientMessage, RunServerMessage, TerminalSize } from "@shared/protocol";
+import type { RunInput } from "@shared/schema";
+
+export interface RunChunk {
+  stream: "stdout" | "stderr" | "stdin";
+  data: string;
+}
+
+interface UseProgramRunOptions {
+  // Called while the program waits in the server's queue, and once it starts
+  onQueued?: (position: number) => void;
+  onStarted?: () => void;
+  // Called for every piece of output as it arrives, e.g. to feed a terminal emulator
+  onOutput?: (chunk: RunChunk) => void;
+  onExit?: (result: ExecutionResult, chunks: RunChunk[]) => void;
+  onError?: (message: string) => void;
+}
+
+// Runs a program over the /api/run WebSocket so its output is shown while it
+// runs and typed input can be sent to it.
+export function useProgramRun(options: UseProgramRunOptions = {}) {
+  const [chunks, setChunks] = useState<RunChunk[]>([]);
+  const [result, setResult] = useState<ExecutionResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runId, setRunId] = useState<string | null>(null);
+  // Place in the server's run queue while the program waits for a worker
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const chunksRef = useRef<RunChunk[]>([]);
+  const optionsRef = useRef(options);
+  const queryClient = useQueryClient();
+
+  optionsRef.current = options;
+
+  const appendChunk = (chunk: RunChunk) => {
+    chunksRef.current = [...chunksRef.current, chunk];
+    setChunks(chunksRef.current);
+  };
+
+  const send = (message: RunClientMessage) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  // Closes the current socket without reporting it as a lost connection
+  const closeSocket = () => {
+    const socket = socketRef.current;
+    socketRef.current = null;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+  };
+
+  // Passing a terminal size runs the program on a pseudo-terminal, which
+  // echoes input itself and merges stderr into stdout. Arguments, variables
+  // and stdin given as input are recorded with the run.
+  const start = useCallback((fileId: number, terminal?: TerminalSize, input?: RunInput) => {
+    closeSocket();
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}/api/run`);
+    let finished = false;
+
+    socketRef.current = socket;
+    chunksRef.current = [];
+    setChunks([]);
+    setResult(null);
+    setRunId(null);
+    setQueuePosition(null);
+    setIsRunning(true);
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: "start", fileId, terminal, input } satisfies RunClientMessage));
+    };
+
+    socket.onmessage = (event) => {
+      const message: RunServerMessage = JSON.parse(event.data);
+
+      switch (message.type) {
+        case "queued":
+          setRunId(message.runId);
+          setQueuePosition(message.position);
+          optionsRef.current.onQueued?.(message.position);
+          break;
+
+        case "started":
+          setRunId(message.runId);
+          setQueuePosition(null);
+          optionsRef.current.onStarted?.();
+          break;
+
+        case "stdout":
+        case "stderr": {
+          const chunk: RunChunk = { stream: message.type, data: message.data };
+          appendChunk(chunk);
+          optionsRef.current.onOutput?.(chunk);
+          break;
+        }
+
+        case "exit":
+          finished = true;
+          setResult(message.result);
+          queryClient.invalidateQueries({ queryKey: ["/api/files", fileId, "executions"] });
+          // The run may have saved files in the user's workspace
+          queryClient.invalidateQueries({ queryKey: [`/api/files/${fileId}/workspace`] });
+          optionsRef.current.onExit?.(message.result, chunksRef.current);
+          break;
+
+        case "error":
+          finished = true;
+          optionsRef.current.onError?.(message.message);
+          break;
+      }
+    };
+
+    socket.onclose = () => {
+      if (socketRef.current === socket) {
+        socketRef.current = null;
+        setIsRunning(false);
+        setQueuePosition(null);
+      }
+      if (!finished) {
+        optionsRef.current.onError?.("Connection to the execution server was lost");
+      }
+    };
+  }, [queryClient]);
+
+  // Sends a line of input to the running program, echoing it like a terminal would
+  const sendInput = useCallback((text: string) => {
+    appendChunk({ stream: "stdin", data: `${text}\n` });
+    send({ type: "stdin", data: `${text}\n` });
+  }, []);
+
+  // Sends keystrokes as they are, for programs running on a pseudo-terminal
+  const sendData = useCallback((data: string) => {
+    send({ type: "stdin", data });
+  }, []);
+
+  const sendEof = useCallback(() => {
+    send({ type: "eof" });
+  }, []);
+
+  const resize = useCallback((size: TerminalSize) => {
+    send({ type: "resize", ...size });
+  }, []);
+
+  // Kills the running program, or takes it out of the queue; the socket then
+  // reports how it ended
+  const stop = useCallback(async () => {
+    if (!runId) return;
+    try {
+      await apiRequest("DELETE", `/api/executions/${runId}`);
+    } catch (error) {
+      optionsRef.current.onError?.("Failed to stop the program");
+    }
+  }, [runId]);
+
+  useEffect(() => {
+    return closeSocket;
+  }, []);
+
+  return {
+    chunks,
+    output: chunks.filter(chunk => chunk.stream === "stdout").map(chunk => chunk.data).join(""),
+    error: chunks.filter(chunk => chunk.stream === "stderr").map(chunk => chunk.data).join(""),
+    transcript: chunks.map(chunk => chunk.data).join(""),
+    result,
+    isRunning,
+    queuePosition,
+    canStop: isRunning && runId !== null,
+    start,
+    stop,
+    sendInput,
+    sendData,
+    sendEof,
+    resize,
+  };
+}
@@ -1,58 +1,68 @@
-import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import type { LoginData } from "@shared/schema";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import type { LoginData, SetupData, ChangePasswordData } from "@shared/schema";
 
 interface AuthUser {
   id: number;
   username: string;
   role: string;
+  mustChangePassword: boolean;
+}
+
+interface AuthResponse {
+  user: AuthUser;
 }
 
 export function useAuth() {
-  const [user, setUser] = useState<AuthUser | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const queryClient = useQueryClient();
 
-  // Check authentication status on mount
-  useEffect(() => {
-    const checkAuth = async () => {
-      try {
-        const response = await fetch("/api/me", {
-          credentials: "include",
-        });
-        if (response.ok) {
-          const data = await response.json();
-          setUser(data.user);
-        }
-      } catch (error) {
-        // User not authenticated
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // Shared through the query cache so every component sees logins and logouts
+  const { data, isLoading } = useQuery<AuthResponse | null>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
 
-    checkAuth();
-  }, []);
+  const user = data?.user ?? null;
+
+  const handleAuthenticated = (data: AuthResponse) => {
+    queryClient.setQueryData(["/api/me"], data);
+    queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+  };
 
   const loginMutation = useMutation({
-    mutationFn: async (credentials: LoginData): Promise<{ user: AuthUser }> => {
+    mutationFn: async (credentials: LoginData): Promise<AuthResponse> => {
       const response = await apiRequest("POST", "/api/login", credentials);
       return response.json();
     },
+    onSuccess: handleAuthenticated,
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async (data: SetupData): Promise<AuthResponse> => {
+      const response = await apiRequest("POST", "/api/setup", data);
+      return response.json();
+    },
     onSuccess: (data) => {
-      setUser(data.user);
-      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/setup-status"] });
+      handleAuthenticated(data);
     },
   });
 
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: ChangePasswordData): Promise<AuthResponse> => {
+      const response = await apiRequest("POST", "/api/change-password", data);
+      return response.json();
+    },
+    onSuccess: handleAuthenticated,
+  });
+
   const logoutMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("POST", "/api/logout");
     },
     onSuccess: () => {
-      setUser(null);
       queryClient.clear();
+      queryClient.setQueryData(["/api/me"], null);
     },
   });
 
@@ -61,10 +71,17 @@ export function useAuth() {
     isLoading,
     isAuthenticated: !!user,
     isAdmin: user?.role === "admin",
+    isTeacher: user?.role === "teacher",
     login: loginMutation.mutate,
     logout: logoutMutation.mutate,
+    setup: setupMutation.mutate,
+    changePassword: changePasswordMutation.mutate,
     loginError: loginMutation.error,
+    setupError: setupMutation.error,
+    changePasswordError: changePasswordMutation.error,
     isLoggingIn: loginMutation.isPending,
     isLoggingOut: logoutMutation.isPending,
+    isSettingUp: setupMutation.isPending,
+    isChangingPassword: changePasswordMutation.isPending,
   };
-}
\ No newline at end of file
+}
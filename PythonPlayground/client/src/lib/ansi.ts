@@ -0,0 +1,319 @@
+// Interprets the ANSI escape sequences programs print (SGR colors, carriage
+// returns, clear-screen and basic cursor movement) into styled lines.
+
+export interface TextStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+export interface StyledSpan<T> {
+  text: string;
+  style: TextStyle;
+  tag: T;
+}
+
+interface Cell<T> {
+  char: string;
+  style: TextStyle;
+  tag: T;
+}
+
+const BASIC_COLORS = [
+  "#000000", "#cd3131", "#0dbc79", "#e5e510", "#2472c8", "#bc3fbc", "#11a8cd", "#e5e5e5",
+  "#666666", "#f14c4c", "#23d18b", "#f5f543", "#3b8eea", "#d670d6", "#29b8db", "#ffffff",
+];
+
+// Colors of the xterm 256-color palette: 16 basic colors, a 6x6x6 cube and a gray ramp
+function paletteColor(index: number): string | undefined {
+  if (index < 0 || index > 255) return undefined;
+  if (index < 16) return BASIC_COLORS[index];
+  if (index < 232) {
+    const value = index - 16;
+    const level = (n: number) => (n === 0 ? 0 : 55 + n * 40);
+    return rgb(level(Math.floor(value / 36)), level(Math.floor(value / 6) % 6), level(value % 6));
+  }
+  const gray = 8 + (index - 232) * 10;
+  return rgb(gray, gray, gray);
+}
+
+function rgb(r: number, g: number, b: number): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+// Applies the parameters of a "select graphic rendition" (ESC [ ... m) sequence
+function applySgr(style: TextStyle, params: (number | undefined)[]): TextStyle {
+  const next = { ...style };
+
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i] ?? 0;
+
+    if (code === 0) {
+      for (const key of Object.keys(next) as (keyof TextStyle)[]) delete next[key];
+    } else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 7) next.inverse = true;
+    else if (code === 22) { next.bold = false; next.dim = false; }
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code === 27) next.inverse = false;
+    else if (code >= 30 && code <= 37) next.fg = BASIC_COLORS[code - 30];
+    else if (code >= 90 && code <= 97) next.fg = BASIC_COLORS[code - 90 + 8];
+    else if (code >= 40 && code <= 47) next.bg = BASIC_COLORS[code - 40];
+    else if (code >= 100 && code <= 107) next.bg = BASIC_COLORS[code - 100 + 8];
+    else if (code === 39) delete next.fg;
+    else if (code === 49) delete next.bg;
+    else if (code === 38 || code === 48) {
+      // Extended colors: 38;5;n (palette) or 38;2;r;g;b (true color)
+      let color: string | undefined;
+      if (params[i + 1] === 5) {
+        color = paletteColor(params[i + 2] ?? 0);
+        i += 2;
+      } else if (params[i + 1] === 2) {
+        color = rgb(params[i + 2] ?? 0, params[i + 3] ?? 0, params[i + 4] ?? 0);
+        i += 4;
+      }
+      if (color) {
+        if (code === 38) next.fg = color;
+        else next.bg = color;
+      }
+    }
+  }
+
+  return next;
+}
+
+const sameStyle = (a: TextStyle, b: TextStyle) =>
+  a.fg === b.fg && a.bg === b.bg && !!a.bold === !!b.bold && !!a.dim === !!b.dim &&
+  !!a.italic === !!b.italic && !!a.underline === !!b.underline && !!a.inverse === !!b.inverse;
+
+// A screen without a fixed size: lines grow as they are written and the
+// cursor can move anywhere inside the text written since the last clear.
+// Every written character carries a tag, e.g. the stream it came from.
+export class AnsiScreen<T> {
+  private lines: Cell<T>[][] = [[]];
+  private row = 0;
+  private col = 0;
+  private savedCursor = { row: 0, col: 0 };
+  private style: TextStyle = {};
+  private pending = "";
+
+  constructor(private defaultTag: T) {}
+
+  write(data: string, tag: T = this.defaultTag) {
+    const text = this.pending + data;
+    this.pending = "";
+
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+
+      if (char === "\x1b") {
+        const consumed = this.parseEscape(text, i);
+        if (consumed === 0) {
+          // Incomplete sequence, wait for the rest of it
+          this.pending = text.slice(i);
+          return;
+        }
+        i += consumed;
+        continue;
+      }
+
+      if (char === "\n") {
+        this.row++;
+        this.col = 0;
+        this.ensureRow();
+      } else if (char === "\r") {
+        this.col = 0;
+      } else if (char === "\b") {
+        this.col = Math.max(0, this.col - 1);
+      } else if (char === "\t") {
+        const target = (Math.floor(this.col / 8) + 1) * 8;
+        while (this.col < target) this.put(" ", tag);
+      } else if (char >= " " && char !== "\x7f") {
+        this.put(char, tag);
+      }
+      i++;
+    }
+  }
+
+  // Returns the lines as runs of equally styled text
+  spans(): StyledSpan<T>[][] {
+    return this.lines.map((line) => {
+      const spans: StyledSpan<T>[] = [];
+      for (const cell of line) {
+        const last = spans[spans.length - 1];
+        if (last && last.tag === cell.tag && sameStyle(last.style, cell.style)) {
+          last.text += cell.char;
+        } else {
+          spans.push({ text: cell.char, style: cell.style, tag: cell.tag });
+        }
+      }
+      return spans;
+    });
+  }
+
+  private put(char: string, tag: T) {
+    this.ensureRow();
+    const line = this.lines[this.row];
+    while (line.length < this.col) {
+      line.push({ char: " ", style: {}, tag });
+    }
+    line[this.col] = { char, style: this.style, tag };
+    this.col++;
+  }
+
+  private ensureRow() {
+    while (this.lines.length <= this.row) {
+      this.lines.push([]);
+    }
+  }
+
+  private clear() {
+    this.lines = [[]];
+    this.row = 0;
+    this.col = 0;
+  }
+
+  // Handles the escape sequence starting at text[start] and returns its
+  // length, or 0 when the sequence is not complete yet
+  private parseEscape(text: string, start: number): number {
+    const next = text[start + 1];
+    if (next === undefined) return 0;
+
+    if (next === "[") {
+      // Control sequence: ESC [ parameters final-byte
+      let end = start + 2;
+      while (end < text.length && !/[\x40-\x7e]/.test(text[end])) end++;
+      if (end >= text.length) return 0;
+
+      const rawParams = text.slice(start + 2, end);
+      const isPrivate = rawParams.startsWith("?");
+      // Omitted parameters are left undefined so each sequence can apply its default
+      const params = (isPrivate ? rawParams.slice(1) : rawParams)
+        .split(";")
+        .map((param) => (param === "" ? undefined : parseInt(param, 10) || 0));
+      if (!isPrivate) {
+        this.handleControlSequence(text[end], params);
+      }
+      return end - start + 1;
+    }
+
+    if (next === "]") {
+      // Operating system command (e.g. setting the window title), ended by BEL or ESC \
+      const bell = text.indexOf("\x07", start + 2);
+      const st = text.indexOf("\x1b\\", start + 2);
+      const ends = [bell === -1 ? -1 : bell + 1, st === -1 ? -1 : st + 2].filter((index) => index !== -1);
+      return ends.length > 0 ? Math.min(...ends) - start : 0;
+    }
+
+    if (next === "c") {
+      this.clear();
+      this.style = {};
+    } else if (next === "7") {
+      this.savedCursor = { row: this.row, col: this.col };
+    } else if (next === "8") {
+      this.row = this.savedCursor.row;
+      this.col = this.savedCursor.col;
+      this.ensureRow();
+    } else if (next === "(" || next === ")") {
+      // Character set selection takes one more byte
+      return text[start + 2] === undefined ? 0 : 3;
+    }
+    return 2;
+  }
+
+  private handleControlSequence(final: string, params: (number | undefined)[]) {
+    const count = Math.max(1, params[0] ?? 1);
+
+    switch (final) {
+      case "m":
+        this.style = applySgr(this.style, params);
+        break;
+      case "A":
+        this.row = Math.max(0, this.row - count);
+        break;
+      case "B":
+        this.row += count;
+        this.ensureRow();
+        break;
+      case "C":
+        this.col += count;
+        break;
+      case "D":
+        this.col = Math.max(0, this.col - count);
+        break;
+      case "E":
+        this.row += count;
+        this.col = 0;
+        this.ensureRow();
+        break;
+      case "F":
+        this.row = Math.max(0, this.row - count);
+        this.col = 0;
+        break;
+      case "G":
+        this.col = count - 1;
+        break;
+      case "H":
+      case "f":
+        this.row = Math.max(1, params[0] ?? 1) - 1;
+        this.col = Math.max(1, params[1] ?? 1) - 1;
+        this.ensureRow();
+        break;
+      case "J": {
+        const mode = params[0] ?? 0;
+        if (mode === 2 || mode === 3) {
+          this.lines = [[]];
+          this.ensureRow();
+        } else if (mode === 0) {
+          this.lines[this.row].splice(this.col);
+          this.lines.splice(this.row + 1);
+        } else if (mode === 1) {
+          this.lines.splice(0, this.row, ...Array.from({ length: this.row }, () => []));
+          this.blankLineUntil(this.col);
+        }
+        break;
+      }
+      case "K": {
+        const mode = params[0] ?? 0;
+        const line = this.lines[this.row];
+        if (mode === 0) line.splice(this.col);
+        else if (mode === 1) this.blankLineUntil(this.col);
+        else if (mode === 2) line.length = 0;
+        break;
+      }
+      case "s":
+        this.savedCursor = { row: this.row, col: this.col };
+        break;
+      case "u":
+        this.row = this.savedCursor.row;
+        this.col = this.savedCursor.col;
+        this.ensureRow();
+        break;
+    }
+  }
+
+  private blankLineUntil(col: number) {
+    const line = this.lines[this.row];
+    for (let i = 0; i <= col && i < line.length; i++) {
+      line[i] = { ...line[i], char: " ", style: {} };
+    }
+  }
+}
+
+// Makes control characters visible, for debugging what a program printed
+export function escapeControlCharacters(text: string): string {
+  return text.replace(/[\x00-\x08\x0b-\x1f\x7f]/g, (char) => {
+    if (char === "\x1b") return "\\x1b";
+    if (char === "\r") return "\\r";
+    if (char === "\b") return "\\b";
+    return `\\x${char.charCodeAt(0).toString(16).padStart(2, "0")}`;
+  });
+}
@@ -0,0 +1,114 @@
+// Splits terminal commands into words the way a shell would, for the
+// arguments and input redirect of `run` and the arguments of saved run
+// configurations.
+
+export class CommandLineError extends Error {}
+
+export interface RunCommand {
+  program: string;
+  args: string[];
+  // File in the program's workspace to read stdin from ("< file")
+  stdinFile?: string;
+  // Saved run configuration to start from ("--profile name")
+  profile?: string;
+}
+
+// A word, or a "<" redirect operator that was not quoted
+type Token = { word: string } | { redirect: true };
+
+// Splits on whitespace, honouring single quotes, double quotes and backslash
+// escapes; an unquoted "<" is an operator even without spaces around it
+function tokenize(line: string): Token[] {
+  const tokens: Token[] = [];
+  let word: string | null = null;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\\" && quote === '"' && (line[i + 1] === '"' || line[i + 1] === "\\")) {
+        word += line[++i];
+      } else {
+        word += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      word ??= "";
+    } else if (char === "\\" && i + 1 < line.length) {
+      word = (word ?? "") + line[++i];
+    } else if (/\s/.test(char) || char === "<") {
+      if (word !== null) tokens.push({ word });
+      word = null;
+      if (char === "<") tokens.push({ redirect: true });
+    } else {
+      word = (word ?? "") + char;
+    }
+  }
+
+  if (quote) {
+    throw new CommandLineError("Unterminated quote");
+  }
+  if (word !== null) tokens.push({ word });
+  return tokens;
+}
+
+// Splits a line of arguments; redirects are not allowed here
+export function splitArguments(line: string): string[] {
+  return tokenize(line).map((token) => {
+    if (!("word" in token)) {
+      throw new CommandLineError("Input redirects are not allowed in arguments");
+    }
+    return token.word;
+  });
+}
+
+// The inverse of splitArguments, quoting arguments where needed
+export function formatArguments(args: string[]): string {
+  return args
+    .map((arg) => (arg !== "" && /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`))
+    .join(" ");
+}
+
+// Parses the part after `run`, e.g. `calc.py --mode fast < input.txt`. A
+// `--profile <name>` right after the program picks a saved run configuration.
+export function parseRunCommand(line: string): RunCommand {
+  const tokens = tokenize(line);
+  const words: string[] = [];
+  let stdinFile: string | undefined;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if ("word" in token) {
+      words.push(token.word);
+      continue;
+    }
+
+    const target = tokens[i + 1];
+    if (!target || !("word" in target)) {
+      throw new CommandLineError("Expected a file name after '<'");
+    }
+    stdinFile = target.word.replace(/^\.\//, "");
+    i++;
+  }
+
+  if (words.length === 0) {
+    throw new CommandLineError("Please specify a program name");
+  }
+
+  const [program, ...args] = words;
+  let profile: string | undefined;
+  if (args[0] === "--profile") {
+    if (args.length < 2) {
+      throw new CommandLineError("Expected a configuration name after --profile");
+    }
+    profile = args[1];
+    args.splice(0, 2);
+  } else if (args[0]?.startsWith("--profile=")) {
+    profile = args.shift()!.slice("--profile=".length);
+  }
+
+  return { program, args, stdinFile, profile };
+}
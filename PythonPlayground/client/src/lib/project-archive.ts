@@ -0,0 +1,71 @@
+import { unzipSync } from "fflate";
+import { guessEntryPoint, isIgnoredPath } from "@shared/project-paths";
+import type { ProjectFileInput } from "@shared/schema";
+
+export interface ProjectDraft {
+  name: string;
+  entryPoint: string;
+  files: (ProjectFileInput & { size: number })[];
+}
+
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true });
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+// Text files are sent as-is so they can be edited later; anything that is not
+// valid UTF-8 (images, pickles, ...) is sent base64-encoded
+function toProjectFile(path: string, bytes: Uint8Array): ProjectDraft["files"][number] {
+  try {
+    return { path, content: utf8Decoder.decode(bytes), encoding: "utf8", size: bytes.length };
+  } catch (error) {
+    return { path, content: toBase64(bytes), encoding: "base64", size: bytes.length };
+  }
+}
+
+// Builds a project from archive or folder entries. A single top-level folder
+// shared by every entry is stripped and used as the project name.
+function toProjectDraft(entries: { path: string; bytes: Uint8Array }[], fallbackName: string): ProjectDraft {
+  const kept = entries.filter((entry) => !isIgnoredPath(entry.path));
+
+  const roots = new Set(kept.map((entry) => entry.path.split("/")[0]));
+  const [root] = Array.from(roots);
+  const hasCommonRoot = roots.size === 1 && kept.every((entry) => entry.path.includes("/"));
+
+  const files = kept.map((entry) =>
+    toProjectFile(hasCommonRoot ? entry.path.slice(root.length + 1) : entry.path, entry.bytes),
+  );
+
+  return {
+    name: hasCommonRoot ? root : fallbackName,
+    entryPoint: guessEntryPoint(files.map((file) => file.path)),
+    files,
+  };
+}
+
+export async function readZipProject(zip: File): Promise<ProjectDraft> {
+  const entries = unzipSync(new Uint8Array(await zip.arrayBuffer()));
+  return toProjectDraft(
+    Object.entries(entries)
+      .filter(([path]) => !path.endsWith("/"))
+      .map(([path, bytes]) => ({ path, bytes })),
+    zip.name.replace(/\.zip$/i, ""),
+  );
+}
+
+// Reads the files picked through a directory input, using their paths
+// relative to the chosen folder
+export async function readFolderProject(files: File[]): Promise<ProjectDraft> {
+  const entries = await Promise.all(
+    files.map(async (file) => ({
+      path: file.webkitRelativePath || file.name,
+      bytes: new Uint8Array(await file.arrayBuffer()),
+    })),
+  );
+  return toProjectDraft(entries, "Project");
+}
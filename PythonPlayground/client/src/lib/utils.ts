@@ -41,3 +41,8 @@ export function escapeHtml(text: string): string {
   div.textContent = text;
   return div.innerHTML;
 }
+
+// What a run in progress is doing: waiting in the server's queue or running
+export function describeRunState(queuePosition: number | null): string {
+  return queuePosition !== null ? `Queued (#${queuePosition})` : "Running";
+}
@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { CreateApiToken, CreatedApiToken, PublicApiToken, TokenScope } from "@shared/schema";
+
+const scopeDescriptions: Record<TokenScope, string> = {
+  "files:read": "List programs and projects, read their code and run history",
+  "files:write": "Upload, change and delete programs",
+  execute: "Run programs and stop runs",
+  admin: "Manage users and groups",
+};
+
+// Days until a new token expires; "never" keeps it until it is revoked
+const EXPIRY_OPTIONS = ["7", "30", "90", "365", "never"] as const;
+
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleDateString() : "—");
+
+// Personal access tokens let scripts and CI call the API with an
+// "Authorization: Bearer" header instead of signing in
+export default function ApiTokens() {
+  const [showCreate, setShowCreate] = useState(false);
+  // The token just created, shown until the page is left or it is dismissed
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: apiTokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({
+        title: "Token revoked",
+        description: "Scripts using the token can no longer sign in with it.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyToken = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    toast({ title: "Token copied" });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200 px-6 py-4">
+        <div className="max-w-5xl mx-auto flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <KeyRound className="text-blue-600 mr-3 h-7 w-7" />
+            API Tokens
+          </h1>
+          <Button asChild variant="outline" className="border-gray-300">
+            <Link href="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+        {created && (
+          <Card className="border-green-300 bg-green-50">
+            <CardContent className="pt-6 space-y-3">
+              <p className="text-sm text-green-900">
+                Copy the token for <span className="font-semibold">{created.apiToken.name}</span> now. It will not be shown again.
+              </p>
+              <div className="flex items-center space-x-2">
+                <Input readOnly value={created.token} className="font-mono bg-white" onFocus={(e) => e.target.select()} />
+                <Button variant="outline" onClick={() => copyToken(created.token)}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+              <p className="text-xs text-gray-600">
+                Send it with every request, e.g.{" "}
+                <code>curl -H "Authorization: Bearer {created.apiToken.prefix}…" {window.location.origin}/api/files</code>
+              </p>
+              <div className="flex justify-end">
+                <Button variant="ghost" size="sm" onClick={() => setCreated(null)}>
+                  Done
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Your Tokens</span>
+              <Button onClick={() => setShowCreate(true)} className="bg-blue-600 text-white hover:bg-blue-700">
+                <Plus className="mr-2 h-4 w-4" />
+                New Token
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="animate-pulse bg-gray-200 h-10 rounded" />
+            ) : apiTokens.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No tokens yet. Create one to upload or run programs from scripts, the shell or CI.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Token</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {apiTokens.map((apiToken) => {
+                    const expired = apiToken.expiresAt !== null && new Date(apiToken.expiresAt) <= new Date();
+                    return (
+                      <TableRow key={apiToken.id}>
+                        <TableCell className="font-medium">{apiToken.name}</TableCell>
+                        <TableCell className="font-mono text-xs text-gray-600">{apiToken.prefix}…</TableCell>
+                        <TableCell className="space-x-1">
+                          {apiToken.scopes.map((scope) => (
+                            <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{formatDate(apiToken.createdAt)}</TableCell>
+                        <TableCell className="text-sm text-gray-600">{formatDate(apiToken.lastUsedAt)}</TableCell>
+                        <TableCell className={expired ? "text-sm text-red-600" : "text-sm text-gray-600"}>
+                          {apiToken.expiresAt === null ? "Never" : expired ? "Expired" : formatDate(apiToken.expiresAt)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeMutation.mutate(apiToken.id)}
+                            disabled={revokeMutation.isPending}
+                            className="text-gray-400 hover:text-red-500"
+                            title="Revoke"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <CreateTokenDialog
+        open={showCreate}
+        onOpenChange={setShowCreate}
+        onCreated={(token) => {
+          setShowCreate(false);
+          setCreated(token);
+        }}
+      />
+    </div>
+  );
+}
+
+interface CreateTokenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (token: CreatedApiToken) => void;
+}
+
+function CreateTokenDialog({ open, onOpenChange, onCreated }: CreateTokenDialogProps) {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Set<TokenScope>>(new Set<TokenScope>(["files:read", "execute"]));
+  const [expiry, setExpiry] = useState<(typeof EXPIRY_OPTIONS)[number]>("90");
+  const { toast } = useToast();
+  const { isAdmin, isTeacher } = useAuth();
+  const queryClient = useQueryClient();
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<CreatedApiToken> => {
+      const data: CreateApiToken = {
+        name,
+        scopes: Array.from(scopes),
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      };
+      const response = await apiRequest("POST", "/api/tokens", data);
+      return response.json();
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      setName("");
+      onCreated(token);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (scope: TokenScope, checked: boolean) => {
+    const next = new Set(scopes);
+    if (checked) {
+      next.add(scope);
+    } else {
+      next.delete(scope);
+    }
+    setScopes(next);
+  };
+
+  // The admin scope is only of use to admins and teachers
+  const availableScopes = (Object.keys(scopeDescriptions) as TokenScope[]).filter((scope) => isAdmin || isTeacher || scope !== "admin");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New API Token</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="token-name">Name</Label>
+            <Input
+              id="token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. CI upload"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {availableScopes.map((scope) => (
+              <label key={scope} className="flex items-start space-x-2 text-sm">
+                <Checkbox
+                  checked={scopes.has(scope)}
+                  onCheckedChange={(checked) => toggle(scope, checked === true)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <code className="font-medium">{scope}</code>
+                  <span className="block text-xs text-gray-500">{scopeDescriptions[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={(value) => setExpiry(value as typeof expiry)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option === "never" ? "Never" : `In ${option} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || scopes.size === 0 || createMutation.isPending}
+            >
+              {createMutation.isPending ? "Creating..." : "Create Token"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
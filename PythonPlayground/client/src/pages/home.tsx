@@ -5,18 +5,18 @@ import { ProgramRunner } from "@/components/program-runner";
 import { Button } from "@/components/ui/button";
 import { Code, Upload, ArrowLeft } from "lucide-react";
 import { FileUpload } from "@/components/file-upload";
-import type { PythonFile } from "@shared/schema";
+import type { ProgramFile } from "@shared/schema";
 
 export default function Home() {
-  const [selectedProgram, setSelectedProgram] = useState<PythonFile | null>(null);
+  const [selectedProgram, setSelectedProgram] = useState<ProgramFile | null>(null);
   const [showUpload, setShowUpload] = useState(false);
   const [showRunner, setShowRunner] = useState(false);
 
-  const { data: programs = [], isLoading } = useQuery<PythonFile[]>({
+  const { data: programs = [], isLoading } = useQuery<ProgramFile[]>({
     queryKey: ["/api/files"],
   });
 
-  const handleProgramSelect = (program: PythonFile) => {
+  const handleProgramSelect = (program: ProgramFile) => {
     setSelectedProgram(program);
     setShowRunner(true);
   };
@@ -26,7 +26,7 @@ export default function Home() {
     setSelectedProgram(null);
   };
 
-  const handleFileUploaded = (file: PythonFile) => {
+  const handleFileUploaded = (file: ProgramFile) => {
     setShowUpload(false);
     // Optionally auto-select the uploaded file
     setSelectedProgram(file);
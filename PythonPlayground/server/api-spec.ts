@@ -0,0 +1,452 @@
+import { z } from "zod";
+import {
+  changePasswordSchema,
+  checkFileSchema,
+  checkSourceSchema,
+  createApiTokenSchema,
+  createUserSchema,
+  groupMembersSchema,
+  importUsersSchema,
+  insertGroupSchema,
+  insertProjectSchema,
+  insertPythonFileSchema,
+  insertRunConfigSchema,
+  loginSchema,
+  resetPasswordSchema,
+  revisionDiffQuerySchema,
+  runInputSchema,
+  setupSchema,
+  updateExecutionSettingsSchema,
+  updateProgramPermissionsSchema,
+  updateProjectSchema,
+  updatePythonFileSchema,
+  updateRunConfigSchema,
+  updateUserSchema,
+} from "@shared/schema";
+import {
+  checkResultSchema,
+  createdApiTokenSchema,
+  createdProjectSchema,
+  currentUserSchema,
+  executionLimitsSchema,
+  executionResultSchema,
+  executionSchema,
+  executionSettingsSchema,
+  fileRevisionSchema,
+  fileRevisionSummarySchema,
+  groupDetailsSchema,
+  importUsersResultSchema,
+  interpreterSchema,
+  messageSchema,
+  programFileSchema,
+  programPermissionsSchema,
+  projectDetailsSchema,
+  projectSchema,
+  publicApiTokenSchema,
+  publicUserSchema,
+  revisionDiffSchema,
+  runConfigSchema,
+  runStatusSchema,
+  sessionUserSchema,
+  setupStatusSchema,
+  tracebackSchema,
+  workspaceListingSchema,
+  type Expect,
+  type Same,
+} from "@shared/responses";
+import { buildOpenApiDocument, type ApiRoute } from "./openapi";
+import type { SessionUser } from "./auth";
+
+type _SessionUserCheck = Expect<Same<z.infer<typeof sessionUserSchema>, SessionUser>>;
+
+// Named in the document and referred to wherever they are used
+const apiSchemas: Record<string, z.ZodTypeAny> = {
+  Message: messageSchema,
+  SessionUser: sessionUserSchema,
+  CurrentUser: currentUserSchema,
+  SetupStatus: setupStatusSchema,
+  User: publicUserSchema,
+  ImportUsersResult: importUsersResultSchema,
+  ApiToken: publicApiTokenSchema,
+  CreatedApiToken: createdApiTokenSchema,
+  Program: programFileSchema,
+  ExecutionSettings: executionSettingsSchema,
+  ExecutionLimits: executionLimitsSchema,
+  RevisionSummary: fileRevisionSummarySchema,
+  Revision: fileRevisionSchema,
+  RevisionDiff: revisionDiffSchema,
+  CheckResult: checkResultSchema,
+  ProgramPermissions: programPermissionsSchema,
+  Group: groupDetailsSchema,
+  Project: projectSchema,
+  ProjectDetails: projectDetailsSchema,
+  CreatedProject: createdProjectSchema,
+  RunConfig: runConfigSchema,
+  Interpreter: interpreterSchema,
+  Traceback: tracebackSchema,
+  Execution: executionSchema,
+  ExecutionResult: executionResultSchema,
+  RunStatus: runStatusSchema,
+  WorkspaceListing: workspaceListingSchema,
+  Login: loginSchema,
+  Setup: setupSchema,
+  ChangePassword: changePasswordSchema,
+  CreateApiToken: createApiTokenSchema,
+  CreateUser: createUserSchema,
+  UpdateUser: updateUserSchema,
+  ResetPassword: resetPasswordSchema,
+  ImportUsers: importUsersSchema,
+  CreateProgram: insertPythonFileSchema,
+  UpdateProgram: updatePythonFileSchema,
+  UpdateExecutionSettings: updateExecutionSettingsSchema,
+  CheckSource: checkSourceSchema,
+  CheckFile: checkFileSchema,
+  UpdateProgramPermissions: updateProgramPermissionsSchema,
+  CreateGroup: insertGroupSchema,
+  GroupMembers: groupMembersSchema,
+  CreateProject: insertProjectSchema,
+  UpdateProject: updateProjectSchema,
+  RunInput: runInputSchema,
+  CreateRunConfig: insertRunConfigSchema,
+  UpdateRunConfig: updateRunConfigSchema,
+};
+
+// Every route of routes.ts, in the order it registers them. Keep the two in
+// step: openapi.test.ts fails on routes missing here and checks the real
+// responses against the document.
+export const apiRoutes: ApiRoute[] = [
+  {
+    method: "get", path: "/api/openapi.json", tag: "Docs", auth: "none",
+    summary: "This OpenAPI document",
+    responses: { 200: z.record(z.unknown()) },
+  },
+  {
+    method: "get", path: "/api/docs", tag: "Docs", auth: "none",
+    summary: "Interactive documentation of the API",
+    responses: { 200: { contentType: "text/html" } },
+  },
+  {
+    method: "post", path: "/api/login", tag: "Authentication", auth: "none",
+    summary: "Sign in with a password",
+    description: "Starts a session; its cookie authenticates the requests that follow.",
+    body: loginSchema,
+    responses: { 200: currentUserSchema },
+    errors: [401],
+  },
+  {
+    method: "post", path: "/api/logout", tag: "Authentication", auth: "none",
+    summary: "Sign out",
+    responses: { 200: messageSchema },
+    errors: [400],
+  },
+  {
+    method: "get", path: "/api/me", tag: "Authentication", auth: "session",
+    summary: "The signed-in user",
+    responses: { 200: currentUserSchema },
+  },
+  {
+    method: "post", path: "/api/change-password", tag: "Authentication", auth: "session",
+    summary: "Change the signed-in user's password",
+    body: changePasswordSchema,
+    responses: { 200: currentUserSchema },
+  },
+  {
+    method: "get", path: "/api/setup-status", tag: "Authentication", auth: "none",
+    summary: "Whether the first admin account still has to be created",
+    responses: { 200: setupStatusSchema },
+  },
+  {
+    method: "post", path: "/api/setup", tag: "Authentication", auth: "none",
+    summary: "Create the first admin account",
+    description: "Only allowed while there are no users at all.",
+    body: setupSchema,
+    responses: { 201: currentUserSchema },
+    errors: [409],
+  },
+  {
+    method: "get", path: "/api/tokens", tag: "Tokens", auth: "user",
+    summary: "The signed-in user's personal access tokens",
+    responses: { 200: z.array(publicApiTokenSchema) },
+  },
+  {
+    method: "post", path: "/api/tokens", tag: "Tokens", auth: "user",
+    summary: "Create a personal access token",
+    description: "The token itself is only returned here. Only admins and teachers can give tokens the `admin` scope.",
+    body: createApiTokenSchema,
+    responses: { 201: createdApiTokenSchema },
+  },
+  {
+    method: "delete", path: "/api/tokens/:id", tag: "Tokens", auth: "user",
+    summary: "Revoke a personal access token",
+    responses: { 204: null },
+  },
+  {
+    method: "get", path: "/api/users", tag: "Users", auth: "teacher",
+    summary: "List users",
+    responses: { 200: z.array(publicUserSchema) },
+  },
+  {
+    method: "post", path: "/api/users", tag: "Users", auth: "admin",
+    summary: "Create a user",
+    body: createUserSchema,
+    responses: { 201: publicUserSchema },
+    errors: [409],
+  },
+  {
+    method: "post", path: "/api/users/import", tag: "Users", auth: "admin",
+    summary: "Create users from CSV",
+    description: "Takes `username,password,role` lines; generated passwords are only returned here.",
+    body: importUsersSchema,
+    responses: { 200: importUsersResultSchema, 201: importUsersResultSchema },
+  },
+  {
+    method: "patch", path: "/api/users/:id", tag: "Users", auth: "admin",
+    summary: "Rename, change the role of, or disable a user",
+    body: updateUserSchema,
+    responses: { 200: publicUserSchema },
+    errors: [409],
+  },
+  {
+    method: "post", path: "/api/users/:id/reset-password", tag: "Users", auth: "admin",
+    summary: "Set a user's password",
+    body: resetPasswordSchema,
+    responses: { 200: publicUserSchema },
+  },
+  {
+    method: "delete", path: "/api/users/:id", tag: "Users", auth: "admin",
+    summary: "Delete a user",
+    responses: { 204: null },
+    errors: [400],
+  },
+  {
+    method: "get", path: "/api/files", tag: "Programs", auth: "user",
+    summary: "The programs the signed-in user may see",
+    description: "Standalone programs and project entry points, newest first.",
+    responses: { 200: z.array(programFileSchema) },
+  },
+  {
+    method: "get", path: "/api/files/:id", tag: "Programs", auth: "user", access: "run",
+    summary: "A program",
+    responses: { 200: programFileSchema },
+  },
+  {
+    method: "post", path: "/api/files", tag: "Programs", auth: "teacher",
+    summary: "Upload a program",
+    description: "Teachers add programs to one of the groups they own.",
+    body: insertPythonFileSchema,
+    responses: { 201: programFileSchema },
+  },
+  {
+    method: "put", path: "/api/files/:id", tag: "Programs", auth: "user", access: "edit",
+    summary: "Change a program's code",
+    description: "Saves a new revision.",
+    body: updatePythonFileSchema,
+    responses: { 200: programFileSchema },
+  },
+  {
+    method: "get", path: "/api/files/:id/execution-settings", tag: "Programs", auth: "user", access: "run",
+    summary: "The limits runs of a program are held to",
+    responses: { 200: executionSettingsSchema },
+  },
+  {
+    method: "patch", path: "/api/files/:id/execution-settings", tag: "Programs", auth: "user", access: "manage",
+    summary: "Change a program's limits",
+    body: updateExecutionSettingsSchema,
+    responses: { 200: programFileSchema },
+  },
+  {
+    method: "get", path: "/api/files/:id/revisions", tag: "Revisions", auth: "user", access: "edit",
+    summary: "Saved versions of a program's code, newest first",
+    responses: { 200: z.array(fileRevisionSummarySchema) },
+  },
+  {
+    method: "get", path: "/api/files/:id/revisions/diff", tag: "Revisions", auth: "user", access: "edit",
+    summary: "Line diff between two revisions",
+    description: "`to` defaults to the latest revision.",
+    query: revisionDiffQuerySchema,
+    responses: { 200: revisionDiffSchema },
+  },
+  {
+    method: "get", path: "/api/files/:id/revisions/:revision", tag: "Revisions", auth: "user", access: "edit",
+    summary: "A revision with its code",
+    responses: { 200: fileRevisionSchema },
+  },
+  {
+    method: "post", path: "/api/files/:id/revisions/:revision/restore", tag: "Revisions", auth: "user", access: "edit",
+    summary: "Save an old revision's code again as the latest",
+    responses: { 200: programFileSchema },
+  },
+  {
+    method: "post", path: "/api/files/:id/check", tag: "Programs", auth: "user", access: "edit",
+    summary: "Check a program for syntax errors and pyflakes warnings",
+    description: "Checks the saved code, or the code sent.",
+    body: checkFileSchema,
+    responses: { 200: checkResultSchema },
+  },
+  {
+    method: "post", path: "/api/check", tag: "Programs", auth: "teacher",
+    summary: "Check code that is not saved yet",
+    body: checkSourceSchema,
+    responses: { 200: checkResultSchema },
+  },
+  {
+    method: "delete", path: "/api/files/:id", tag: "Programs", auth: "user", access: "manage",
+    summary: "Delete a program",
+    description: "Deleting a project's entry point deletes the whole project.",
+    responses: { 204: null },
+  },
+  {
+    method: "get", path: "/api/files/:id/permissions", tag: "Permissions", auth: "user", access: "manage",
+    summary: "Who may see, run and edit a program",
+    responses: { 200: programPermissionsSchema },
+  },
+  {
+    method: "put", path: "/api/files/:id/permissions", tag: "Permissions", auth: "user", access: "manage",
+    summary: "Replace a program's permissions",
+    description: "Teachers can only name their groups and the users in them.",
+    body: updateProgramPermissionsSchema,
+    responses: { 200: programPermissionsSchema },
+  },
+  {
+    method: "get", path: "/api/groups", tag: "Groups", auth: "teacher",
+    summary: "Groups of users",
+    description: "Teachers see the groups they own.",
+    responses: { 200: z.array(groupDetailsSchema) },
+  },
+  {
+    method: "post", path: "/api/groups", tag: "Groups", auth: "admin",
+    summary: "Create a group",
+    body: insertGroupSchema,
+    responses: { 201: groupDetailsSchema },
+    errors: [409],
+  },
+  {
+    method: "put", path: "/api/groups/:id/members", tag: "Groups", auth: "teacher",
+    summary: "Replace a group's members",
+    description: "For admins and the group's owners; only admins may change the owners.",
+    body: groupMembersSchema,
+    responses: { 200: groupDetailsSchema },
+  },
+  {
+    method: "delete", path: "/api/groups/:id", tag: "Groups", auth: "admin",
+    summary: "Delete a group",
+    responses: { 204: null },
+  },
+  {
+    method: "get", path: "/api/projects", tag: "Projects", auth: "user",
+    summary: "The projects the signed-in user may see",
+    responses: { 200: z.array(projectSchema) },
+  },
+  {
+    method: "get", path: "/api/projects/:id", tag: "Projects", auth: "user",
+    summary: "A project with its file list",
+    responses: { 200: projectDetailsSchema },
+  },
+  {
+    method: "post", path: "/api/projects", tag: "Projects", auth: "teacher",
+    summary: "Upload a multi-file project",
+    description: "Files that are not valid UTF-8 are sent base64-encoded.",
+    body: insertProjectSchema,
+    responses: { 201: createdProjectSchema },
+  },
+  {
+    method: "patch", path: "/api/projects/:id", tag: "Projects", auth: "teacher",
+    summary: "Rename a project or change its entry point",
+    description: "For admins and the owners of the project's group.",
+    body: updateProjectSchema,
+    responses: { 200: projectDetailsSchema },
+  },
+  {
+    method: "delete", path: "/api/projects/:id", tag: "Projects", auth: "teacher",
+    summary: "Delete a project and all of its files",
+    description: "For admins and the owners of the project's group.",
+    responses: { 204: null },
+  },
+  {
+    method: "get", path: "/api/files/:id/run-configs", tag: "Run configurations", auth: "user", access: "run",
+    summary: "Saved run configurations of a program",
+    responses: { 200: z.array(runConfigSchema) },
+  },
+  {
+    method: "get", path: "/api/interpreter", tag: "Runs", auth: "user",
+    summary: "The interpreter programs run with by default, with its version",
+    responses: { 200: interpreterSchema },
+  },
+  {
+    method: "get", path: "/api/interpreters", tag: "Run configurations", auth: "teacher",
+    summary: "Interpreters run configurations may use",
+    responses: { 200: z.array(interpreterSchema) },
+  },
+  {
+    method: "post", path: "/api/files/:id/run-configs", tag: "Run configurations", auth: "user", access: "manage",
+    summary: "Save a run configuration on a program",
+    body: insertRunConfigSchema,
+    responses: { 201: runConfigSchema },
+  },
+  {
+    method: "patch", path: "/api/run-configs/:id", tag: "Run configurations", auth: "teacher",
+    summary: "Change a run configuration",
+    description: "For admins and the owners of its program's group.",
+    body: updateRunConfigSchema,
+    responses: { 200: runConfigSchema },
+  },
+  {
+    method: "delete", path: "/api/run-configs/:id", tag: "Run configurations", auth: "teacher",
+    summary: "Delete a run configuration",
+    description: "For admins and the owners of its program's group.",
+    responses: { 204: null },
+  },
+  {
+    method: "post", path: "/api/execute/:id", tag: "Runs", auth: "user", access: "run",
+    summary: "Run a program and wait for it to finish",
+    description: "Input comes from `stdin` or `stdinFile`; otherwise the program reads end-of-file.",
+    body: runInputSchema,
+    responses: { 200: executionResultSchema },
+    errors: [409, 503, 507],
+  },
+  {
+    method: "get", path: "/api/execution-limits", tag: "Runs", auth: "user",
+    summary: "Limits every run is subject to",
+    responses: { 200: executionLimitsSchema },
+  },
+  {
+    method: "get", path: "/api/executions/:runId", tag: "Runs", auth: "user",
+    summary: "Where a queued or running execution stands",
+    description: "For the user who started it and admins.",
+    responses: { 200: runStatusSchema },
+  },
+  {
+    method: "delete", path: "/api/executions/:runId", tag: "Runs", auth: "user",
+    summary: "Stop a queued or running execution",
+    description: "For the user who started it and admins.",
+    responses: { 204: null },
+  },
+  {
+    method: "get", path: "/api/files/:id/executions", tag: "Runs", auth: "user", access: "run",
+    summary: "Run history of a program, newest first: every user's runs for those who manage it, otherwise the caller's own",
+    responses: { 200: z.array(executionSchema) },
+  },
+  {
+    method: "get", path: "/api/files/:id/workspace", tag: "Workspaces", auth: "user", access: "run",
+    summary: "Files the signed-in user's runs of a program have saved",
+    responses: { 200: workspaceListingSchema },
+  },
+  {
+    method: "get", path: "/api/files/:id/workspace/download", tag: "Workspaces", auth: "user", access: "run",
+    summary: "Download a file from the signed-in user's workspace",
+    query: z.object({ path: z.string().describe("Path inside the workspace") }),
+    responses: { 200: { contentType: "application/octet-stream" } },
+  },
+  {
+    method: "delete", path: "/api/files/:id/workspace", tag: "Workspaces", auth: "user", access: "run",
+    summary: "Remove everything the signed-in user's runs of a program have saved",
+    responses: { 204: null },
+  },
+  {
+    method: "get", path: "/api/download-project", tag: "Export", auth: "admin",
+    summary: "Download PyLauncher's own source as a ZIP archive",
+    responses: { 200: { contentType: "application/zip" } },
+  },
+];
+
+export const openApiDocument = buildOpenApiDocument(apiRoutes, apiSchemas);
@@ -0,0 +1,234 @@
+import type { IncomingMessage } from "http";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import { hashToken } from "./tokens";
+import { hasAccess } from "@shared/access";
+import type { User, ProgramAccess, TokenScope } from "@shared/schema";
+
+export type SessionUser = ReturnType<typeof toSessionUser>;
+
+// The part of a user kept in the session and sent to the client
+export const toSessionUser = (user: User) => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  mustChangePassword: user.mustChangePassword,
+});
+
+// Reloads the signed-in user so role changes, password resets and disabled
+// accounts take effect on the next request instead of the next login
+export async function loadSessionUser(req: Request): Promise<SessionUser | null> {
+  const sessionUser = (req.session as any)?.user as SessionUser | undefined;
+  if (!sessionUser) {
+    return null;
+  }
+
+  const user = await storage.getUser(sessionUser.id);
+  if (!user || user.disabled) {
+    delete (req.session as any).user;
+    return null;
+  }
+
+  (req.session as any).user = toSessionUser(user);
+  return (req.session as any).user;
+}
+
+// A personal access token that is unknown, expired or lacks a scope
+export class TokenAuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403) {
+    super(message);
+  }
+}
+
+// The token of an "Authorization: Bearer" header, if the request has one
+export function getBearerToken(req: IncomingMessage): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+  return match ? match[1] : null;
+}
+
+// Requests with a bearer token do not use cookie sessions, so scripts do not
+// leave a stored session behind on every call
+export const sessionUnlessToken = (sessionMiddleware: RequestHandler): RequestHandler => (req, res, next) =>
+  getBearerToken(req) !== null ? next() : sessionMiddleware(req, res, next);
+
+// Tokens can never be used to manage tokens or change the password
+const tokenlessPaths = ["/api/tokens", "/api/change-password"];
+
+// The scope a token needs for a request: starting and stopping runs needs
+// "execute", admin routes and the user and group routes teachers share
+// "admin", reading "files:read" and any other change "files:write". null when
+// tokens cannot be used for it at all. The OpenAPI document is built from it too.
+export function scopeFor(req: Pick<Request, "method" | "path">, admin: boolean): TokenScope | null {
+  if (tokenlessPaths.some((path) => req.path === path || req.path.startsWith(`${path}/`))) {
+    return null;
+  }
+  if (admin || /^\/api\/(users|groups)(\/|$)/.test(req.path)) {
+    return "admin";
+  }
+  if (req.path.startsWith("/api/execute/") || (req.method === "DELETE" && req.path.startsWith("/api/executions/"))) {
+    return "execute";
+  }
+  return req.method === "GET" || req.method === "HEAD" ? "files:read" : "files:write";
+}
+
+// The owner of a personal access token, if the token may be used with `scope`
+export async function loadTokenUser(token: string, scope: TokenScope | null): Promise<SessionUser> {
+  const apiToken = await storage.getApiTokenByHash(hashToken(token));
+  const user = apiToken && await storage.getUser(apiToken.userId);
+  if (!apiToken || !user || user.disabled || (apiToken.expiresAt !== null && apiToken.expiresAt <= new Date())) {
+    throw new TokenAuthError("Invalid or expired token", 401);
+  }
+  if (scope === null) {
+    throw new TokenAuthError("Personal access tokens cannot be used for this request", 403);
+  }
+  if (!apiToken.scopes.includes(scope)) {
+    throw new TokenAuthError(`This token does not have the "${scope}" scope`, 403);
+  }
+
+  await storage.touchApiToken(apiToken.id);
+  return toSessionUser(user);
+}
+
+// The user a request is made as: the owner of its bearer token when it has
+// one, otherwise the signed-in user. Token requests get a session of their own
+// that is never stored, so routes read the user from the session either way.
+export async function loadRequestUser(req: Request, admin = false): Promise<SessionUser | null> {
+  const token = getBearerToken(req);
+  if (token === null) {
+    return loadSessionUser(req);
+  }
+
+  const user = await loadTokenUser(token, scopeFor(req, admin));
+  (req as any).session = { user };
+  return user;
+}
+
+// Token problems are answered here; anything else goes to the error handler
+function handleAuthError(error: unknown, res: Response, next: NextFunction) {
+  if (error instanceof TokenAuthError) {
+    res.status(error.status).json({ message: error.message });
+  } else {
+    next(error);
+  }
+}
+
+// Authentication middleware. Each accepts a cookie session or a personal
+// access token with the scope the request needs.
+export const requireSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await loadRequestUser(req))) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    next();
+  } catch (error) {
+    handleAuthError(error, res, next);
+  }
+};
+
+export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await loadRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (user.mustChangePassword) {
+      return res.status(403).json({ message: "Password change required" });
+    }
+    next();
+  } catch (error) {
+    handleAuthError(error, res, next);
+  }
+};
+
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await loadRequestUser(req, true);
+    if (!user || user.role !== "admin") {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    if (user.mustChangePassword) {
+      return res.status(403).json({ message: "Password change required" });
+    }
+    next();
+  } catch (error) {
+    handleAuthError(error, res, next);
+  }
+};
+
+// Admins and teachers; what teachers may then do is limited to the groups
+// they own by requireGroupOwner and requireProgramAccess("manage")
+export const requireTeacher = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await loadRequestUser(req);
+    if (!user || (user.role !== "admin" && user.role !== "teacher")) {
+      return res.status(403).json({ message: "Teacher or admin access required" });
+    }
+    if (user.mustChangePassword) {
+      return res.status(403).json({ message: "Password change required" });
+    }
+    next();
+  } catch (error) {
+    handleAuthError(error, res, next);
+  }
+};
+
+// For routes about the group in the :id parameter: admins, and teachers who
+// own it. The group is left in res.locals.
+export const requireGroupOwner = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await loadRequestUser(req);
+    if (!user || (user.role !== "admin" && user.role !== "teacher")) {
+      return res.status(403).json({ message: "Teacher or admin access required" });
+    }
+    if (user.mustChangePassword) {
+      return res.status(403).json({ message: "Password change required" });
+    }
+
+    const group = await storage.getGroup(parseInt(req.params.id));
+    if (!group || (user.role !== "admin" && !group.ownerIds.includes(user.id))) {
+      return res.status(404).json({ message: "Group not found" });
+    }
+
+    res.locals.group = group;
+    next();
+  } catch (error) {
+    handleAuthError(error, res, next);
+  }
+};
+
+const accessVerbs: Record<ProgramAccess, string> = {
+  run: "run",
+  view: "view the code of",
+  edit: "edit",
+  manage: "manage",
+};
+
+// For routes about the program in the :id parameter. Lets the request through
+// when the signed-in user may do `needed` with it, leaving the file and their
+// access in res.locals. Programs hidden from the user are reported as missing.
+export const requireProgramAccess = (needed: ProgramAccess) => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await loadRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (user.mustChangePassword) {
+      return res.status(403).json({ message: "Password change required" });
+    }
+
+    const file = await storage.getPythonFile(parseInt(req.params.id));
+    const access = file ? await storage.getProgramAccess(file, user) : null;
+    if (!file || !access) {
+      return res.status(404).json({ message: "File not found" });
+    }
+    if (!hasAccess(access, needed)) {
+      return res.status(403).json({ message: `Not allowed to ${accessVerbs[needed]} this program` });
+    }
+
+    res.locals.file = file;
+    res.locals.access = access;
+    next();
+  } catch (error) {
+    handleAuthError(error, res, next);
+  }
+};
@@ -0,0 +1,123 @@
+// Server settings read from the environment at startup
+
+import { randomBytes } from "crypto";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export type StorageDriver = "memory" | "database";
+export type SameSite = "lax" | "strict" | "none";
+export type SandboxMode = "auto" | "bubblewrap" | "rlimits";
+
+function readStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? "database" : "memory");
+  if (driver !== "memory" && driver !== "database") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "database"`);
+  }
+  return driver;
+}
+
+function readSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set, using a random secret; sessions will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
+function readSameSite(): SameSite {
+  const sameSite = process.env.SESSION_COOKIE_SAME_SITE ?? "lax";
+  if (sameSite !== "lax" && sameSite !== "strict" && sameSite !== "none") {
+    throw new Error(`Unknown SESSION_COOKIE_SAME_SITE "${sameSite}", expected "lax", "strict" or "none"`);
+  }
+  return sameSite;
+}
+
+function readSandboxMode(): SandboxMode {
+  const mode = process.env.SANDBOX ?? "auto";
+  if (mode !== "auto" && mode !== "bubblewrap" && mode !== "rlimits") {
+    throw new Error(`Unknown SANDBOX "${mode}", expected "auto", "bubblewrap" or "rlimits"`);
+  }
+  return mode;
+}
+
+const storageDriver = readStorageDriver();
+
+export const config = {
+  // Where users, programs and executions are kept. Defaults to the database
+  // whenever one is provisioned; the in-memory store is meant for tests.
+  storageDriver,
+  databaseUrl: process.env.DATABASE_URL,
+  // Seeds the admin/admin123 and user/user123 accounts and shows them on the login screen
+  demoMode: process.env.DEMO_MODE === "true",
+  // Created on first start when no users exist yet; must change its password on first login
+  bootstrapAdmin: process.env.ADMIN_USERNAME && process.env.ADMIN_PASSWORD
+    ? { username: process.env.ADMIN_USERNAME, password: process.env.ADMIN_PASSWORD }
+    : null,
+  workspace: {
+    // Each user gets a persistent working directory per program below this
+    // directory, so files written by programs survive between runs
+    dir: process.env.WORKSPACE_DIR ?? path.join(__dirname, "..", "workspaces"),
+    quotaBytes: Number(process.env.WORKSPACE_QUOTA_BYTES ?? 10 * 1024 * 1024), // 10MB
+  },
+  execution: {
+    // Defaults for programs that do not have their own settings
+    timeoutMs: Number(process.env.EXECUTION_TIMEOUT_MS ?? 30 * 1000), // 30 seconds
+    allowInteractive: process.env.EXECUTION_ALLOW_INTERACTIVE !== "false",
+  },
+  sandbox: {
+    // "auto" isolates runs with bubblewrap (no network, only the working
+    // directory writable) when it works on this host, and otherwise only
+    // applies the resource limits below
+    mode: readSandboxMode(),
+    cpuSeconds: Number(process.env.SANDBOX_CPU_SECONDS ?? 10),
+    memoryBytes: Number(process.env.SANDBOX_MEMORY_MB ?? 512) * 1024 * 1024,
+    maxProcesses: Number(process.env.SANDBOX_MAX_PROCESSES ?? 32),
+    maxOpenFiles: Number(process.env.SANDBOX_MAX_OPEN_FILES ?? 64),
+    maxOutputBytes: Number(process.env.SANDBOX_MAX_OUTPUT_BYTES ?? 1024 * 1024), // 1MB
+    // Interpreters saved run configurations may choose instead of python3
+    interpreters: (process.env.SANDBOX_INTERPRETERS ?? "python3")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    // Environment variables a run may set, by name or with a trailing * as a
+    // prefix; anything else is refused
+    envAllowList: (process.env.SANDBOX_ENV_ALLOWLIST ?? "TZ,PYTHONHASHSEED,PYTHONIOENCODING,DEBUG,APP_*")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+  },
+  queue: {
+    // Runs wait in a queue until one of the workers is free and neither the
+    // user nor the program already has as many runs going as allowed
+    workers: Number(process.env.QUEUE_WORKERS ?? 4),
+    maxPerUser: Number(process.env.QUEUE_MAX_PER_USER ?? 2),
+    maxPerProgram: Number(process.env.QUEUE_MAX_PER_PROGRAM ?? 10),
+  },
+  session: {
+    // Sessions live in the "sessions" table unless told otherwise, so a
+    // restart does not log everybody out
+    store: (process.env.SESSION_STORE ?? storageDriver) as StorageDriver,
+    secret: readSessionSecret(),
+    cookie: {
+      // Set to true in production with HTTPS
+      secure: process.env.SESSION_COOKIE_SECURE === "true",
+      sameSite: readSameSite(),
+      maxAge: Number(process.env.SESSION_MAX_AGE_MS ?? 24 * 60 * 60 * 1000), // 24 hours
+    },
+  },
+};
+
+if (config.session.store !== "memory" && config.session.store !== "database") {
+  throw new Error(`Unknown SESSION_STORE "${config.session.store}", expected "memory" or "database"`);
+}
+
+if ((config.storageDriver === "database" || config.session.store === "database") && !config.databaseUrl) {
+  throw new Error(
+    "DATABASE_URL must be set. Did you forget to provision a database?",
+  );
+}
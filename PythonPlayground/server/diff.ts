@@ -0,0 +1,69 @@
+import type { DiffLine } from "@shared/schema";
+
+// Above this many line pairs (after trimming the common start and end) the
+// changed part is shown as removed and added wholesale rather than aligned
+const MAX_ALIGNED_CELLS = 4_000_000;
+
+const splitLines = (text: string) => (text === "" ? [] : text.replace(/\n$/, "").split("\n"));
+
+// Line diff of two versions of a file, aligned along their longest common
+// subsequence of lines
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const lines: DiffLine[] = [];
+  const equal = (oldIndex: number, newIndex: number) =>
+    lines.push({ type: "equal", text: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  const removed = (oldIndex: number) =>
+    lines.push({ type: "removed", text: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: null });
+  const added = (newIndex: number) =>
+    lines.push({ type: "added", text: newLines[newIndex], oldLine: null, newLine: newIndex + 1 });
+
+  for (let i = 0; i < start; i++) equal(i, i);
+
+  const rows = oldEnd - start;
+  const columns = newEnd - start;
+  if (rows * columns > MAX_ALIGNED_CELLS) {
+    for (let i = start; i < oldEnd; i++) removed(i);
+    for (let j = start; j < newEnd; j++) added(j);
+  } else {
+    // common[i][j]: length of the longest common subsequence of the changed
+    // old lines from i and the changed new lines from j
+    const width = columns + 1;
+    const common = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        common[i * width + j] = oldLines[start + i] === newLines[start + j]
+          ? common[(i + 1) * width + j + 1] + 1
+          : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && oldLines[start + i] === newLines[start + j]) {
+        equal(start + i++, start + j++);
+      } else if (i < rows && (j === columns || common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+        removed(start + i++);
+      } else {
+        added(start + j++);
+      }
+    }
+  }
+
+  for (let i = oldEnd, j = newEnd; i < oldLines.length; i++, j++) equal(i, j);
+  return lines;
+}
@@ -0,0 +1,91 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { PythonFile } from "@shared/schema";
+
+// The config is read on import, so the sandbox falls back to resource limits
+// as it does without bubblewrap, and runs get a workspace directory of their own
+const workspaceDir = mkdtempSync(path.join(os.tmpdir(), "executor-test-"));
+process.env.WORKSPACE_DIR = workspaceDir;
+process.env.SANDBOX = "rlimits";
+
+let executor: typeof import("./executor");
+let storage: typeof import("./storage").storage;
+
+// Whether the process still runs; a zombie has ended and only waits to be reaped
+async function isRunning(pid: number): Promise<boolean> {
+  try {
+    const stat = await fs.readFile(`/proc/${pid}/stat`, "utf8");
+    return stat.slice(stat.lastIndexOf(")") + 2)[0] !== "Z";
+  } catch (error) {
+    return false;
+  }
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 5000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await condition()) return true;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return condition();
+}
+
+describe("runPythonFile", () => {
+  before(async () => {
+    executor = await import("./executor");
+    ({ storage } = await import("./storage"));
+  });
+
+  after(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  // A program that survives the hangup its terminal gets when the run is
+  // stopped, so only being killed ends it
+  async function stubbornProgram(timeoutMs?: number): Promise<PythonFile> {
+    const file = await storage.createPythonFile({
+      name: "stubborn.py",
+      content: [
+        "import os, signal, time",
+        "signal.signal(signal.SIGHUP, signal.SIG_IGN)",
+        "signal.signal(signal.SIGTERM, signal.SIG_IGN)",
+        "print('pid', os.getpid(), flush=True)",
+        "while True:",
+        "    time.sleep(1)",
+        "",
+      ].join("\n"),
+      size: 0,
+    });
+    return timeoutMs ? (await storage.updateExecutionSettings(file.id, { timeoutMs }))! : file;
+  }
+
+  async function startOnTerminal(file: PythonFile) {
+    let output = "";
+    const run = await executor.runPythonFile(file, {
+      terminal: { cols: 80, rows: 24 },
+      onStdout: (data) => { output += data; },
+    });
+    const started = await waitFor(() => /pid (\d+)/.test(output));
+    assert.ok(started, `the program did not start: ${output}`);
+    return { run, pid: Number(/pid (\d+)/.exec(output)![1]) };
+  }
+
+  it("ends a program on a terminal when the run is cancelled", { timeout: 15000 }, async () => {
+    const { run, pid } = await startOnTerminal(await stubbornProgram());
+    run.cancel();
+    const result = await run.result;
+    assert.equal(result.status, "cancelled");
+    assert.ok(await waitFor(async () => !await isRunning(pid)), `program ${pid} is still running`);
+  });
+
+  it("ends a program on a terminal when the run times out", { timeout: 15000 }, async () => {
+    const { run, pid } = await startOnTerminal(await stubbornProgram(1000));
+    const result = await run.result;
+    assert.equal(result.status, "timeout");
+    assert.ok(await waitFor(async () => !await isRunning(pid)), `program ${pid} is still running`);
+  });
+});
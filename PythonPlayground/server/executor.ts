@@ -0,0 +1,428 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import type { Readable, Writable } from "stream";
+import { randomUUID } from "crypto";
+import path from "path";
+import fs from "fs/promises";
+import { fileURLToPath } from "url";
+import { storage } from "./storage";
+import { config } from "./config";
+import { getWorkspaceDir, getWorkspaceUsage, openInside, writeInside, removeInside, WorkspaceQuotaError } from "./workspace";
+import { PTY_BRIDGE_SOURCE } from "./pty-bridge";
+import { parseTraceback } from "./traceback";
+import { sandboxCommand, sandboxEnv, detectLimitBreach, describeLimit, isAllowedEnvName, parseResourceUsage } from "./sandbox";
+import type { PythonFile, ExecutionLimit, ExecutionSettings, RunInput, RunConfig } from "@shared/schema";
+import type { ExecutionResult, TerminalSize } from "@shared/protocol";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const tempDir = path.join(__dirname, "..", "temp");
+
+const QUOTA_CHECK_INTERVAL_MS = 1000;
+const MAX_STDIN_BYTES = 1024 * 1024; // 1MB
+
+export interface RunOptions {
+  // Set by the run queue so a run keeps its id from queued to running
+  runId?: string;
+  userId?: number;
+  input?: RunInput;
+  // Runs the program on a pseudo-terminal of this size; its output then
+  // arrives through onStdout only
+  terminal?: TerminalSize;
+  onStdout?: (data: string) => void;
+  onStderr?: (data: string) => void;
+}
+
+export interface RunHandle {
+  runId: string;
+  write: (data: string) => void;
+  end: () => void;
+  resize: (size: TerminalSize) => void;
+  cancel: () => void;
+  result: Promise<ExecutionResult>;
+}
+
+export interface ActiveExecution {
+  runId: string;
+  fileId: number;
+  userId?: number;
+  startedAt: Date;
+  cancel: () => void;
+}
+
+export class RunInputError extends Error {}
+
+// Refuses environment variables that are not on the allow-list, before the
+// run is queued
+export function checkRunInput(input: RunInput = {}) {
+  const refused = Object.keys(input.env ?? {}).filter((name) => !isAllowedEnvName(name));
+  if (refused.length > 0) {
+    throw new RunInputError(`Environment variables not allowed: ${refused.join(", ")}`);
+  }
+}
+
+// Reads what the program gets on stdin: the given text, or a file from the
+// working directory
+async function readStdin(input: RunInput, workDir: string): Promise<string | undefined> {
+  if (input.stdinFile === undefined) {
+    return input.stdin;
+  }
+
+  const handle = await openInside(workDir, input.stdinFile);
+  if (!handle) {
+    throw new RunInputError(`${input.stdinFile}: No such file`);
+  }
+  try {
+    if ((await handle.stat()).size > MAX_STDIN_BYTES) {
+      throw new RunInputError(`${input.stdinFile}: Input files are limited to ${MAX_STDIN_BYTES / 1024 / 1024} MB`);
+    }
+    return await handle.readFile("utf8");
+  } finally {
+    await handle.close();
+  }
+}
+
+// The program's own settings where an admin set them, the server's defaults otherwise
+export function getExecutionSettings(file: PythonFile): ExecutionSettings {
+  return {
+    timeoutMs: file.timeoutMs ?? config.execution.timeoutMs,
+    memoryBytes: file.memoryMb !== null ? file.memoryMb * 1024 * 1024 : config.sandbox.memoryBytes,
+    maxOutputBytes: file.maxOutputBytes ?? config.sandbox.maxOutputBytes,
+    allowInteractive: file.allowInteractive ?? config.execution.allowInteractive,
+  };
+}
+
+// Loads the saved configuration the run asked for, which must belong to the
+// program and use an interpreter that is still allowed
+async function loadRunConfig(file: PythonFile, runConfigId: number | undefined): Promise<RunConfig | null> {
+  if (runConfigId === undefined) {
+    return null;
+  }
+
+  const runConfig = await storage.getRunConfig(runConfigId);
+  if (!runConfig || runConfig.fileId !== file.id) {
+    throw new RunInputError("Run configuration not found");
+  }
+  if (runConfig.interpreter !== null && !config.sandbox.interpreters.includes(runConfig.interpreter)) {
+    throw new RunInputError(`Interpreter not allowed: ${runConfig.interpreter}`);
+  }
+  return runConfig;
+}
+
+// Runs that have been spawned and not yet recorded, keyed by run id
+const activeExecutions = new Map<string, ActiveExecution>();
+
+export function getActiveExecution(runId: string): ActiveExecution | undefined {
+  return activeExecutions.get(runId);
+}
+
+// Writes the file, or the Python files of the project it belongs to, into a
+// directory of their own for the run, which the program can read but not
+// change, so the code never lands in a workspace where users who may only run
+// the program could download it. Data files go into the working directory,
+// only when missing, so changes a program made to them in a persistent
+// workspace are kept. Returns the path of the script to execute along with the
+// ids of the Python files by their path in the source directory.
+async function prepareWorkingDirectory(file: PythonFile, sourceDir: string, workDir: string): Promise<{ scriptPath: string; sources: Map<string, number> }> {
+  if (file.projectId === null) {
+    const name = path.basename(file.name);
+    // Workspaces of earlier runs still hold copies of the sources
+    await removeInside(workDir, name);
+    return { scriptPath: await writeInside(sourceDir, name, file.content, 0o444), sources: new Map([[name, file.id]]) };
+  }
+
+  const [sources, dataFiles] = await Promise.all([
+    storage.getProjectPythonFiles(file.projectId),
+    storage.getProjectDataFiles(file.projectId),
+  ]);
+
+  for (const source of sources) {
+    await removeInside(workDir, source.name);
+    await writeInside(sourceDir, source.name, source.content, 0o444);
+  }
+  for (const dataFile of dataFiles) {
+    await writeInside(
+      workDir,
+      dataFile.path,
+      dataFile.encoding === "base64" ? Buffer.from(dataFile.content, "base64") : dataFile.content,
+    );
+  }
+
+  return {
+    scriptPath: path.resolve(sourceDir, file.name),
+    sources: new Map(sources.map((source) => [source.name, source.id])),
+  };
+}
+
+// Spawns a Python process for the file and streams its output through the
+// options' handlers. The returned handle forwards input to the process' stdin
+// and resolves once the run has been recorded in the execution history.
+export async function runPythonFile(file: PythonFile, options: RunOptions = {}): Promise<RunHandle> {
+  const startTime = Date.now();
+  const runId = options.runId ?? randomUUID();
+  const input = options.input ?? {};
+  checkRunInput(input);
+
+  // A saved configuration's arguments come first; its variables and input
+  // apply unless the run brings its own
+  const runConfig = await loadRunConfig(file, input.runConfigId);
+  const args = [...(runConfig?.args ?? []), ...(input.args ?? [])];
+  const env = { ...runConfig?.env, ...input.env };
+  const settings = getExecutionSettings(file);
+  const timeoutMs = runConfig?.timeoutMs ?? settings.timeoutMs;
+  const interpreter = runConfig?.interpreter ?? "python3";
+
+  // Signed-in users run inside their persistent workspace for the program.
+  // Anonymous runs get a throwaway working directory. Either way the sources
+  // live in the run's own directory, which is removed afterwards.
+  const persistent = options.userId !== undefined;
+  const runDir = path.join(tempDir, runId);
+  const sourceDir = path.join(runDir, "program");
+  const workDir = persistent ? getWorkspaceDir(options.userId!, file) : path.join(runDir, "work");
+  await fs.mkdir(sourceDir, { recursive: true });
+  await fs.mkdir(workDir, { recursive: true });
+
+  let command: string[];
+  let stdin: string | undefined;
+  let sources: Map<string, number>;
+  try {
+    let scriptPath: string;
+    ({ scriptPath, sources } = await prepareWorkingDirectory(file, sourceDir, workDir));
+    // No file may grow past what is left of the quota; several files adding
+    // up are caught by the periodic check below
+    let fileSizeBytes = config.workspace.quotaBytes;
+    if (persistent) {
+      fileSizeBytes -= await getWorkspaceUsage(workDir);
+      if (fileSizeBytes <= 0) {
+        throw new WorkspaceQuotaError();
+      }
+    }
+    stdin = await readStdin(input, workDir) ?? runConfig?.stdin ?? undefined;
+    // Programs that must not wait for the keyboard see end-of-file right away
+    if (stdin === undefined && !settings.allowInteractive) {
+      stdin = "";
+    }
+    // Execute Python code unbuffered so output arrives as it is printed
+    command = await sandboxCommand([interpreter, "-u", scriptPath, ...args], workDir, {
+      sourceDir,
+      terminal: !!options.terminal,
+      memoryBytes: settings.memoryBytes,
+      fileSizeBytes,
+    });
+  } catch (error) {
+    await fs.rm(runDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  if (options.terminal) {
+    command = [
+      "python3", "-c", PTY_BRIDGE_SOURCE,
+      // Given input goes straight to the program instead of the terminal
+      ...(stdin !== undefined ? ["--pipe-stdin"] : []),
+      String(options.terminal.cols), String(options.terminal.rows),
+      ...command,
+    ];
+  }
+
+  const python = spawn(command[0], command.slice(1), {
+    cwd: workDir,
+    env: sandboxEnv(workDir, env),
+    // Own process group, so cancelling also stops programs it launched
+    detached: true,
+    // fd 3 carries resize requests to the terminal bridge, fd 4 brings back
+    // what the program used
+    stdio: ["pipe", "pipe", "pipe", options.terminal ? "pipe" : "ignore", "pipe"],
+  }) as ChildProcessWithoutNullStreams;
+  const terminalControl = python.stdio[3] as Writable | null;
+  terminalControl?.on("error", () => {});
+
+  let usageReport = "";
+  const usageStream = python.stdio[4] as Readable;
+  usageStream.setEncoding("utf8");
+  usageStream.on("data", (data: string) => {
+    usageReport += data;
+  });
+
+  let cancelled = false;
+  let timedOut = false;
+  // Set when the executor itself stops a run for going over a limit
+  let limitExceeded: ExecutionLimit | null = null;
+
+  const killProcessTree = () => {
+    try {
+      process.kill(-python.pid!, "SIGKILL");
+    } catch (error) {
+      python.kill("SIGKILL");
+    }
+  };
+
+  const isRunning = () => python.exitCode === null && python.signalCode === null;
+
+  const cancel = () => {
+    if (cancelled || timedOut || limitExceeded || !isRunning()) return;
+    cancelled = true;
+    killProcessTree();
+  };
+
+  const stopForLimit = (limit: ExecutionLimit) => {
+    if (cancelled || timedOut || limitExceeded || !isRunning()) return;
+    limitExceeded = limit;
+    killProcessTree();
+  };
+
+  const timeout = setTimeout(() => {
+    if (cancelled || limitExceeded || !isRunning()) return;
+    timedOut = true;
+    killProcessTree();
+  }, timeoutMs);
+
+  // Programs cannot be limited while writing, so the workspace is measured
+  // periodically and the run is stopped once it grows past the quota
+  const quotaCheck = persistent ? setInterval(async () => {
+    try {
+      if (await getWorkspaceUsage(workDir) > config.workspace.quotaBytes) {
+        stopForLimit("workspace");
+      }
+    } catch (error) {
+      // The workspace was reset or is unreadable; the next check tries again
+    }
+  }, QUOTA_CHECK_INTERVAL_MS) : undefined;
+
+  activeExecutions.set(runId, {
+    runId,
+    fileId: file.id,
+    userId: options.userId,
+    startedAt: new Date(startTime),
+    cancel,
+  });
+
+  let stdout = "";
+  let stderr = "";
+  let outputBytes = 0;
+
+  // Output past the limit is dropped and the run is stopped
+  const acceptOutput = (data: string) => {
+    if (limitExceeded === "output") return false;
+    outputBytes += Buffer.byteLength(data);
+    if (outputBytes > settings.maxOutputBytes) {
+      stopForLimit("output");
+      return false;
+    }
+    return true;
+  };
+
+  python.stdout.setEncoding("utf8");
+  python.stderr.setEncoding("utf8");
+
+  python.stdout.on("data", (data: string) => {
+    if (!acceptOutput(data)) return;
+    stdout += data;
+    options.onStdout?.(data);
+  });
+
+  python.stderr.on("data", (data: string) => {
+    if (!acceptOutput(data)) return;
+    stderr += data;
+    options.onStderr?.(data);
+  });
+
+  // Writing to a process that already exited raises EPIPE, which is harmless here
+  python.stdin.on("error", () => {});
+  if (stdin !== undefined) {
+    python.stdin.end(stdin);
+  }
+
+  const result = new Promise<ExecutionResult>((resolve, reject) => {
+    let settled = false;
+
+    const finish = async (status: string, error: string, exitCode: number | null, signal: string | null, limit: ExecutionLimit | null = null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      clearInterval(quotaCheck);
+      activeExecutions.delete(runId);
+
+      const executionTime = Date.now() - startTime;
+
+      try {
+        // Clean up the run's own directory
+        await fs.rm(runDir, { recursive: true, force: true });
+      } catch (cleanupError) {
+        // Directory cleanup failed, but continue
+      }
+
+      try {
+        const execution = await storage.createExecution({
+          fileId: file.id,
+          userId: options.userId ?? null,
+          output: stdout || null,
+          error: error || null,
+          executionTime,
+          status,
+          exitCode,
+          signal,
+          timedOut,
+          limitExceeded: limit,
+          args,
+          env,
+          stdin: stdin ?? null,
+          runConfigId: runConfig?.id ?? null,
+          revision: file.revision,
+          // On a pseudo-terminal the traceback arrives on stdout
+          traceback: status === "error" ? parseTraceback(error || stdout, sourceDir, sources) : null,
+        });
+
+        resolve({ execution, output: stdout, error, executionTime, status });
+      } catch (storageError) {
+        reject(storageError);
+      }
+    };
+
+    const finishForLimit = (limit: ExecutionLimit, code: number | null, signal: string | null) => {
+      const error = [stderr.trimEnd(), describeLimit(limit, settings)].filter(Boolean).join("\n");
+      finish("limit_exceeded", error, code, signal, limit);
+    };
+
+    python.on("close", (code, signal) => {
+      if (timedOut) {
+        finish("timeout", stderr, code, signal);
+      } else if (cancelled) {
+        finish("cancelled", stderr, code, signal);
+      } else if (limitExceeded) {
+        finishForLimit(limitExceeded, code, signal);
+      } else if (code === 0) {
+        finish("success", stderr, code, signal);
+      } else {
+        // On a pseudo-terminal error messages arrive on stdout
+        const breach = detectLimitBreach(signal, stderr || stdout, parseResourceUsage(usageReport), settings.memoryBytes);
+        if (breach) {
+          // In a workspace the file size limit is what was left of the quota
+          finishForLimit(breach === "file_size" && persistent ? "workspace" : breach, code, signal);
+        } else {
+          finish("error", stderr, code, signal);
+        }
+      }
+    });
+
+    python.on("error", (error) => {
+      finish("error", error.message, null, null);
+    });
+  });
+
+  return {
+    runId,
+    write: (data) => {
+      if (python.stdin.writable) {
+        python.stdin.write(data);
+      }
+    },
+    end: () => {
+      python.stdin.end();
+    },
+    resize: ({ cols, rows }) => {
+      if (terminalControl?.writable) {
+        terminalControl.write(`resize ${cols} ${rows}\n`);
+      }
+    },
+    cancel,
+    result,
+  };
+}
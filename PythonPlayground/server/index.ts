@@ -1,9 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage, bootstrapUsers } from "./storage";
 
 const app = express();
-app.use(express.json());
+// Projects are uploaded as JSON with their files inlined, so allow larger bodies
+app.use(express.json({ limit: "25mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +39,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await bootstrapUsers(storage);
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
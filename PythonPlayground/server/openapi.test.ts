@@ -0,0 +1,246 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import express, { type Express } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdtempSync } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import Ajv2020, { type ValidateFunction } from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+
+type Operation = {
+  responses: Record<string, { content?: Record<string, unknown> }>;
+};
+type OpenApiDocument = { paths: Record<string, Record<string, Operation>> };
+
+// The config is read on import, so runs get a workspace directory of their own
+// before the routes are loaded
+const workspaceDir = mkdtempSync(path.join(os.tmpdir(), "openapi-test-"));
+process.env.WORKSPACE_DIR = workspaceDir;
+
+let document: OpenApiDocument;
+// "get /api/files/{id}" for every operation the document describes
+let documentedOperations: string[];
+
+// The same for every route the app registers
+function registeredOperations(app: Express): string[] {
+  const layers: { route?: { path: string; methods: Record<string, boolean> } }[] = app._router.stack;
+  return layers.flatMap(({ route }) =>
+    route ? Object.keys(route.methods).map((method) => `${method} ${route.path.replace(/:(\w+)/g, "{$1}")}`) : []);
+}
+
+function findTemplate(method: string, pathname: string): string | undefined {
+  return Object.keys(document.paths).find((template) =>
+    document.paths[template][method] && new RegExp(`^${template.replace(/\{\w+\}/g, "[^/]+")}$`).test(pathname));
+}
+
+// Checks responses against the JSON Schemas of the document itself, so what
+// is tested is what clients read
+const ajv = new Ajv2020({ strict: false, allErrors: true });
+addFormats(ajv);
+
+const validators = new Map<string, ValidateFunction>();
+
+function validatorFor(template: string, method: string, status: number): ValidateFunction {
+  const pointer = ["paths", template, method, "responses", String(status), "content", "application/json", "schema"]
+    .map((part) => part.replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("/");
+  let validate = validators.get(pointer);
+  if (!validate) {
+    validate = ajv.compile({ $ref: `openapi.json#/${pointer}` });
+    validators.set(pointer, validate);
+  }
+  return validate;
+}
+
+describe("OpenAPI document", () => {
+  let app: Express;
+  let server: Server;
+  let baseUrl: string;
+  let cookie = "";
+  const exercised = new Set<string>();
+
+  before(async () => {
+    const { registerRoutes } = await import("./routes");
+    const { openApiDocument } = await import("./api-spec");
+    document = openApiDocument as unknown as OpenApiDocument;
+    documentedOperations = Object.entries(document.paths).flatMap(([template, operations]) =>
+      Object.keys(operations).map((method) => `${method} ${template}`));
+    ajv.addSchema({ ...openApiDocument, $id: "openapi.json" });
+
+    app = express();
+    app.use(express.json({ limit: "25mb" }));
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  // Calls a route the way a client would and checks that the document
+  // describes the status and the body it answered with
+  async function call(method: string, pathname: string, body?: unknown, expectedStatus?: number): Promise<any> {
+    const response = await fetch(baseUrl + pathname, {
+      method: method.toUpperCase(),
+      headers: { cookie, ...(body !== undefined ? { "Content-Type": "application/json" } : {}) },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = response.headers.getSetCookie()[0];
+    if (setCookie) {
+      cookie = setCookie.split(";")[0];
+    }
+
+    const url = new URL(pathname, baseUrl);
+    const where = `${method.toUpperCase()} ${pathname} answered ${response.status}`;
+    const template = findTemplate(method, url.pathname);
+    assert.ok(template, `${method.toUpperCase()} ${url.pathname} is not in the document`);
+    exercised.add(`${method} ${template}`);
+    if (expectedStatus !== undefined) {
+      assert.equal(response.status, expectedStatus, `${where}: ${await response.clone().text()}`);
+    }
+
+    const documented = document.paths[template][method].responses[response.status];
+    assert.ok(documented, `${where}, which the document does not list`);
+
+    const contentType = response.headers.get("content-type") ?? "";
+    const [documentedType] = Object.keys(documented.content ?? {});
+    if (documentedType === undefined) {
+      assert.equal(await response.text(), "", `${where} with a body the document does not describe`);
+      return undefined;
+    }
+    assert.ok(contentType.startsWith(documentedType), `${where} with ${contentType} instead of ${documentedType}`);
+    if (documentedType !== "application/json") {
+      return response.arrayBuffer();
+    }
+
+    const json = await response.json();
+    const validate = validatorFor(template, method, response.status);
+    assert.ok(validate(json), `${where} with a body that does not match the document: ${ajv.errorsText(validate.errors)}`);
+    return json;
+  }
+
+  it("describes every route the app registers, and no others", () => {
+    const registered = registeredOperations(app);
+    assert.deepEqual(registered.filter((operation) => !documentedOperations.includes(operation)), [], "routes missing from api-spec.ts");
+    assert.deepEqual(documentedOperations.filter((operation) => !registered.includes(operation)), [], "routes in api-spec.ts that do not exist");
+  });
+
+  it("answers every operation as documented", async () => {
+    // Documentation and first-time setup
+    await call("get", "/api/openapi.json", undefined, 200);
+    await call("get", "/api/docs", undefined, 200);
+    await call("get", "/api/setup-status", undefined, 200);
+    await call("get", "/api/me", undefined, 401);
+    await call("post", "/api/setup", { username: "admin", password: "password123" }, 201);
+    await call("post", "/api/setup", { username: "again", password: "password123" }, 409);
+    await call("post", "/api/logout", undefined, 200);
+    await call("post", "/api/login", { username: "admin", password: "wrong-password" }, 401);
+    await call("post", "/api/login", { username: "admin" }, 400);
+    await call("post", "/api/login", { username: "admin", password: "password123" }, 200);
+    await call("get", "/api/me", undefined, 200);
+    await call("post", "/api/change-password", { currentPassword: "password123", newPassword: "password456" }, 200);
+
+    // Personal access tokens
+    const created = await call("post", "/api/tokens", { name: "ci", scopes: ["files:read"] }, 201);
+    await call("get", "/api/tokens", undefined, 200);
+    await call("delete", `/api/tokens/${created.apiToken.id}`, undefined, 204);
+    await call("delete", `/api/tokens/${created.apiToken.id}`, undefined, 404);
+
+    // Users
+    const user = await call("post", "/api/users", { username: "bob", password: "password123" }, 201);
+    await call("post", "/api/users/import", { csv: "carol,password123,teacher\nbroken" }, 201);
+    await call("get", "/api/users", undefined, 200);
+    await call("patch", `/api/users/${user.id}`, { role: "teacher" }, 200);
+    await call("post", `/api/users/${user.id}/reset-password`, { password: "password789" }, 200);
+
+    // Groups
+    const group = await call("post", "/api/groups", { name: "class" }, 201);
+    await call("put", `/api/groups/${group.id}/members`, { userIds: [user.id] }, 200);
+    await call("get", "/api/groups", undefined, 200);
+
+    // Programs, their revisions, checks and permissions
+    const file = await call("post", "/api/files", { name: "hello.py", content: "print('hello')\n", size: 15 }, 201);
+    await call("get", "/api/files", undefined, 200);
+    await call("get", `/api/files/${file.id}`, undefined, 200);
+    await call("get", "/api/files/9999", undefined, 404);
+    await call("put", `/api/files/${file.id}`, { name: "hello.py", content: "import sys\nprint(sys.argv[1:])\nopen('out.txt', 'w').write('saved')\n", size: 64 }, 200);
+    await call("get", `/api/files/${file.id}/execution-settings`, undefined, 200);
+    await call("patch", `/api/files/${file.id}/execution-settings`, { timeoutMs: 10000 }, 200);
+    await call("patch", `/api/files/${file.id}/execution-settings`, { timeoutMs: 1 }, 400);
+    await call("get", `/api/files/${file.id}/revisions`, undefined, 200);
+    await call("get", `/api/files/${file.id}/revisions/diff?from=1`, undefined, 200);
+    await call("get", `/api/files/${file.id}/revisions/1`, undefined, 200);
+    await call("post", `/api/files/${file.id}/revisions/1/restore`, undefined, 200);
+    await call("post", `/api/files/${file.id}/revisions/2/restore`, undefined, 200);
+    await call("post", `/api/files/${file.id}/check`, { content: "x = (" }, 200);
+    await call("post", "/api/check", { content: "import os\n" }, 200);
+    await call("get", `/api/files/${file.id}/permissions`, undefined, 200);
+    await call("put", `/api/files/${file.id}/permissions`, { defaultAccess: "run", entries: [{ groupId: group.id, access: "view" }] }, 200);
+
+    // Projects
+    const project = await call("post", "/api/projects", {
+      name: "game",
+      entryPoint: "main.py",
+      files: [
+        { path: "main.py", content: "from lib import value\nprint(value)\n" },
+        { path: "lib.py", content: "value = 42\n" },
+        { path: "data.txt", content: "level 1\n" },
+      ],
+    }, 201);
+    await call("get", "/api/projects", undefined, 200);
+    await call("get", `/api/projects/${project.project.id}`, undefined, 200);
+    await call("patch", `/api/projects/${project.project.id}`, { name: "renamed" }, 200);
+
+    // Running programs
+    const runConfig = await call("post", `/api/files/${file.id}/run-configs`, { name: "fast", args: ["--fast"] }, 201);
+    await call("get", `/api/files/${file.id}/run-configs`, undefined, 200);
+    await call("patch", `/api/run-configs/${runConfig.id}`, { stdin: "input" }, 200);
+    await call("get", "/api/interpreter", undefined, 200);
+    await call("get", "/api/interpreters", undefined, 200);
+    await call("get", "/api/execution-limits", undefined, 200);
+    await call("post", `/api/execute/${file.id}`, { runConfigId: runConfig.id, args: ["extra"] }, 200);
+    await call("post", `/api/execute/${project.entryFile.id}`, {}, 200);
+    await call("post", `/api/execute/${file.id}`, { env: { SESSION_SECRET: "x" } }, 400);
+    await call("get", `/api/files/${file.id}/executions`, undefined, 200);
+    await call("get", "/api/executions/no-such-run", undefined, 404);
+    await call("delete", "/api/executions/no-such-run", undefined, 404);
+
+    // The workspace the runs left behind
+    await call("get", `/api/files/${file.id}/workspace`, undefined, 200);
+    await call("get", `/api/files/${file.id}/workspace/download?path=out.txt`, undefined, 200);
+    await call("get", `/api/files/${file.id}/workspace/download?path=missing.txt`, undefined, 404);
+    await call("delete", `/api/files/${file.id}/workspace`, undefined, 204);
+    await call("get", "/api/download-project", undefined, 200);
+
+    // Cleaning up
+    await call("delete", `/api/run-configs/${runConfig.id}`, undefined, 204);
+    await call("delete", `/api/projects/${project.project.id}`, undefined, 204);
+    await call("delete", `/api/files/${file.id}`, undefined, 204);
+    await call("delete", `/api/groups/${group.id}`, undefined, 204);
+    await call("delete", `/api/users/${user.id}`, undefined, 204);
+    await call("post", "/api/logout", undefined, 200);
+    await call("get", "/api/files", undefined, 401);
+
+    assert.deepEqual(documentedOperations.filter((operation) => !exercised.has(operation)), [], "operations this test does not call");
+  });
+
+  it("refuses personal access tokens without the scope a route needs", async () => {
+    cookie = "";
+    await call("post", "/api/login", { username: "admin", password: "password456" }, 200);
+    const { token } = await call("post", "/api/tokens", { name: "read only", scopes: ["files:read"] }, 201);
+    cookie = "";
+
+    const withToken = (method: string, pathname: string) =>
+      fetch(baseUrl + pathname, { method, headers: { Authorization: `Bearer ${token}` } });
+    assert.equal((await withToken("GET", "/api/files")).status, 200);
+    const refused = await withToken("GET", "/api/users");
+    assert.equal(refused.status, 403);
+    const validate = validatorFor("/api/users", "get", 403);
+    assert.ok(validate(await refused.json()), ajv.errorsText(validate.errors));
+  });
+});
@@ -0,0 +1,291 @@
+import { z } from "zod";
+import type { ProgramAccess } from "@shared/schema";
+import { messageSchema } from "@shared/responses";
+import { scopeFor } from "./auth";
+
+// Who may call a route, after the middleware in front of it: requireSession,
+// requireAuth, requireTeacher or requireAdmin
+export type RouteAuth = "none" | "session" | "user" | "teacher" | "admin";
+
+// A response that is not JSON, e.g. a download
+export interface FileResponse {
+  contentType: string;
+}
+
+// One route of routes.ts as the OpenAPI document describes it
+export interface ApiRoute {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  path: string; // as registered with Express, e.g. "/api/files/:id"
+  tag: string;
+  summary: string;
+  description?: string;
+  auth: RouteAuth;
+  access?: ProgramAccess; // what requireProgramAccess asks of the program in :id
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  responses: Record<number, z.ZodTypeAny | FileResponse | null>; // null has no body
+  errors?: number[]; // besides the ones every route of its kind can answer with
+}
+
+type JsonSchema = Record<string, unknown>;
+
+const errorDescriptions: Record<number, string> = {
+  400: "The request is invalid",
+  401: "Not signed in, or the personal access token is invalid or expired",
+  403: "Not allowed, the token lacks the scope, or the password has to be changed first",
+  404: "Not found, or hidden from the signed-in user",
+  409: "Conflicts with the current state",
+  500: "The server failed",
+  503: "Programs cannot be run on this server",
+  507: "The user's workspace is full",
+};
+
+const successDescriptions: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No content",
+};
+
+const accessDescriptions: Record<ProgramAccess, string> = {
+  run: "Users who may run the program",
+  view: "Users who may view the program's code",
+  edit: "Users who may edit the program",
+  manage: "Admins and the owners of the program's group",
+};
+
+const authDescriptions: Record<RouteAuth, string> = {
+  none: "No sign-in needed",
+  session: "Any signed-in user, also before a required password change",
+  user: "Any signed-in user",
+  teacher: "Admins and teachers",
+  admin: "Admins only",
+};
+
+// The error statuses a route can answer with, each with a message
+export function errorStatuses(route: ApiRoute): number[] {
+  const statuses = new Set([...(route.errors ?? []), 500]);
+  if (route.body || route.query) {
+    statuses.add(400);
+  }
+  if (route.auth !== "none") {
+    statuses.add(401).add(403);
+  }
+  if (route.path.includes(":")) {
+    statuses.add(404);
+  }
+  return Array.from(statuses).sort((a, b) => a - b);
+}
+
+// The token scope a route needs, from the same rules the middleware applies
+const scopeOf = (route: ApiRoute) =>
+  route.auth === "none" ? null : scopeFor({ method: route.method.toUpperCase(), path: route.path }, route.auth === "admin");
+
+const isFileResponse = (response: z.ZodTypeAny | FileResponse | null): response is FileResponse =>
+  response !== null && !(response instanceof z.ZodType);
+
+// Converts a Zod schema to JSON Schema as OpenAPI 3.1 uses it. Schemas listed
+// in `refs` are referred to by name, except at the root of their own entry.
+export function toJsonSchema(schema: z.ZodTypeAny, refs: Map<z.ZodTypeAny, string>, root = false): JsonSchema {
+  const name = refs.get(schema);
+  if (name && !root) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+  const converted = convert(schema, refs);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+}
+
+function convert(schema: z.ZodTypeAny, refs: Map<z.ZodTypeAny, string>): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value, refs)])),
+      ...(required.length > 0 ? { required } : {}),
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") result.minLength = check.value;
+      if (check.kind === "max") result.maxLength = check.value;
+      if (check.kind === "regex") result.pattern = check.regex.source;
+      if (check.kind === "datetime") result.format = "date-time";
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") result.type = "integer";
+      if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: "string", format: "date-time" };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodNull) {
+    return { type: "null" };
+  }
+  if (schema instanceof z.ZodArray) {
+    return {
+      type: "array",
+      items: toJsonSchema(schema.element, refs),
+      ...(schema._def.minLength ? { minItems: schema._def.minLength.value } : {}),
+      ...(schema._def.maxLength ? { maxItems: schema._def.maxLength.value } : {}),
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    const keys = toJsonSchema(schema.keySchema, refs);
+    return {
+      type: "object",
+      additionalProperties: toJsonSchema(schema.valueSchema, refs),
+      ...(keys.pattern ? { propertyNames: { pattern: keys.pattern } } : {}),
+    };
+  }
+  if (schema instanceof z.ZodNullable) {
+    const inner = toJsonSchema(schema.unwrap(), refs);
+    return typeof inner.type === "string" && !inner.enum
+      ? { ...inner, type: [inner.type, "null"] }
+      : { anyOf: [inner, { type: "null" }] };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema.unwrap(), refs);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault(), refs), default: schema._def.defaultValue() };
+  }
+  // Refinements are checked by the server only; the shape is the inner schema's
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType(), refs);
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return {
+      oneOf: schema.options.map((option: z.ZodTypeAny) => toJsonSchema(option, refs)),
+      discriminator: { propertyName: schema.discriminator },
+    };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: schema.options.map((option: z.ZodTypeAny) => toJsonSchema(option, refs)) };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [toJsonSchema(schema._def.left, refs), toJsonSchema(schema._def.right, refs)] };
+  }
+  // z.any(), z.unknown() and anything else accept every value
+  return {};
+}
+
+function toOperation(route: ApiRoute, refs: Map<z.ZodTypeAny, string>): JsonSchema {
+  const scope = scopeOf(route);
+  const who = route.access ? accessDescriptions[route.access] : authDescriptions[route.auth];
+  const tokens = route.auth === "none"
+    ? null
+    : scope ? `Personal access tokens need the \`${scope}\` scope.` : "Personal access tokens cannot be used.";
+
+  const parameters = [
+    ...Array.from(route.path.matchAll(/:(\w+)/g), ([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: name === "runId" ? "string" : "integer" },
+    })),
+    ...Object.entries<z.ZodTypeAny>(route.query?.shape ?? {}).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: !schema.isOptional(),
+      schema: toJsonSchema(schema, refs),
+    })),
+  ];
+
+  const responses: Record<string, JsonSchema> = {};
+  for (const [status, response] of Object.entries(route.responses)) {
+    const description = successDescriptions[Number(status)] ?? "OK";
+    responses[status] = response === null
+      ? { description }
+      : isFileResponse(response)
+        ? { description, content: { [response.contentType]: { schema: { type: "string", format: "binary" } } } }
+        : { description, content: { "application/json": { schema: toJsonSchema(response, refs) } } };
+  }
+  for (const status of errorStatuses(route)) {
+    responses[status] = {
+      description: errorDescriptions[status] ?? "Error",
+      content: { "application/json": { schema: toJsonSchema(messageSchema, refs) } },
+    };
+  }
+
+  return {
+    tags: [route.tag],
+    summary: route.summary,
+    description: [route.description, `${who}.`, tokens].filter(Boolean).join(" "),
+    security: route.auth === "none" ? [] : [{ cookieAuth: [] }, ...(scope ? [{ bearerAuth: [scope] }] : [])],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    // Bodies that may be left out entirely, e.g. run input, are optional
+    ...(route.body ? {
+      requestBody: {
+        required: !route.body.safeParse({}).success,
+        content: { "application/json": { schema: toJsonSchema(route.body, refs) } },
+      },
+    } : {}),
+    responses,
+  };
+}
+
+// The OpenAPI 3.1 document of the given routes; `schemas` are listed under
+// components and referred to by name wherever they are used
+export function buildOpenApiDocument(routes: ApiRoute[], schemas: Record<string, z.ZodTypeAny>) {
+  const refs = new Map(Object.entries(schemas).map(([name, schema]) => [schema, name]));
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of routes) {
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [route.method]: toOperation(route, refs) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "PyLauncher API",
+      version: "1.0.0",
+      description: "Upload, manage and run Python programs. Requests are made with the session cookie of "
+        + "`POST /api/login` or a personal access token sent as `Authorization: Bearer <token>`. Programs can "
+        + "also be run interactively over the `/api/run` WebSocket, which this document does not describe.",
+    },
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(schemas).map(([name, schema]) => [name, toJsonSchema(schema, refs, true)])),
+      securitySchemes: {
+        cookieAuth: { type: "apiKey", in: "cookie", name: "connect.sid" },
+        bearerAuth: { type: "http", scheme: "bearer", description: "A personal access token from the API Tokens page" },
+      },
+    },
+  };
+}
+
+// Swagger UI for the document, loaded from a CDN
+export const docsPage = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>PyLauncher API</title>
+    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5.17.14/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5.17.14/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: "/api/openapi.json", dom_id: "#swagger-ui", withCredentials: true });
+    </script>
+  </body>
+</html>
+`;
@@ -0,0 +1,101 @@
+// A small Python program that runs a command on a pseudo-terminal and relays
+// it over plain pipes, so programs see a real terminal (isatty, getpass,
+// curses, Ctrl+C) without a native Node addon. It is passed to `python3 -c`,
+// which keeps it working when the server is bundled.
+//
+// Usage: python3 -c PTY_BRIDGE_SOURCE [--pipe-stdin] <cols> <rows> <command...>
+//   stdin   keystrokes for the terminal, or with --pipe-stdin the program's
+//           own stdin, like a shell's "< file" redirect
+//   stdout  everything the program writes to the terminal
+//   fd 3    control lines: "resize <cols> <rows>"
+//
+// The bridge exits with the program's exit code, or is killed by the same
+// signal, so the executor can record how the run ended.
+export const PTY_BRIDGE_SOURCE = String.raw`
+import ctypes, errno, fcntl, os, pty, select, signal, struct, sys, termios
+
+def set_size(fd, cols, rows):
+    fcntl.ioctl(fd, termios.TIOCSWINSZ, struct.pack("HHHH", rows, cols, 0, 0))
+
+args = sys.argv[1:]
+pipe_stdin = args[0] == "--pipe-stdin"
+if pipe_stdin:
+    args = args[1:]
+cols, rows = int(args[0]), int(args[1])
+command = args[2:]
+
+if pipe_stdin:
+    stdin_copy = os.dup(0)
+
+pid, master = pty.fork()
+if pid == 0:
+    # Die together with the bridge, e.g. when the executor kills it
+    try:
+        ctypes.CDLL(None).prctl(1, signal.SIGKILL)
+    except Exception:
+        pass
+    if pipe_stdin:
+        os.dup2(stdin_copy, 0)
+        os.close(stdin_copy)
+    os.execvp(command[0], command)
+
+if pipe_stdin:
+    os.close(stdin_copy)
+
+set_size(master, cols, rows)
+
+def forward(signum, frame):
+    try:
+        os.killpg(pid, signum)
+    except OSError:
+        pass
+
+for signum in (signal.SIGTERM, signal.SIGHUP, signal.SIGINT):
+    signal.signal(signum, forward)
+
+inputs = [master] if pipe_stdin else [master, 0]
+try:
+    os.fstat(3)
+    inputs.append(3)
+except OSError:
+    pass
+control = b""
+
+while master in inputs:
+    try:
+        ready, _, _ = select.select(inputs, [], [])
+    except InterruptedError:
+        continue
+    for fd in ready:
+        try:
+            data = os.read(fd, 65536)
+        except OSError as error:
+            if error.errno != errno.EIO:
+                raise
+            data = b""
+        if fd == master:
+            if not data:
+                inputs.remove(master)
+                break
+            os.write(1, data)
+        elif not data:
+            inputs.remove(fd)
+        elif fd == 0:
+            os.write(master, data)
+        else:
+            control += data
+            while b"\n" in control:
+                line, control = control.split(b"\n", 1)
+                parts = line.split()
+                if len(parts) == 3 and parts[0] == b"resize":
+                    # The kernel sends SIGWINCH to the program
+                    set_size(master, int(parts[1]), int(parts[2]))
+
+_, status = os.waitpid(pid, 0)
+if os.WIFSIGNALED(status):
+    signum = os.WTERMSIG(status)
+    if signum not in (signal.SIGKILL, signal.SIGSTOP):
+        signal.signal(signum, signal.SIG_DFL)
+    os.kill(os.getpid(), signum)
+sys.exit(os.WEXITSTATUS(status))
+`;
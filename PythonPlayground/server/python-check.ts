@@ -0,0 +1,92 @@
+import { spawn } from "child_process";
+import type { CheckResult } from "@shared/schema";
+
+const CHECK_TIMEOUT_MS = 10000;
+
+// Parses and compiles the source read from stdin without running it, then
+// runs pyflakes over it when that is installed. Prints a CheckResult as JSON.
+//
+// Usage: python3 -c CHECK_SOURCE <file-name>
+const CHECK_SOURCE = String.raw`
+import ast, json, sys
+
+filename = sys.argv[1]
+source = sys.stdin.buffer.read().decode("utf-8", "replace")
+diagnostics = []
+
+def syntax_error(error):
+    diagnostics.append({
+        "line": error.lineno or 1,
+        "column": error.offset or 1,
+        "endLine": getattr(error, "end_lineno", None),
+        "endColumn": getattr(error, "end_offset", None),
+        "severity": "error",
+        "message": error.msg,
+        "source": "syntax",
+    })
+
+try:
+    from pyflakes import checker
+except ImportError:
+    checker = None
+
+try:
+    tree = ast.parse(source, filename)
+    # Some errors, e.g. 'return' outside a function, only show up when compiling
+    compile(tree, filename, "exec", dont_inherit=True)
+except SyntaxError as error:
+    syntax_error(error)
+except ValueError as error:
+    diagnostics.append({"line": 1, "column": 1, "endLine": None, "endColumn": None, "severity": "error", "message": str(error), "source": "syntax"})
+else:
+    if checker:
+        for message in sorted(checker.Checker(tree, filename=filename).messages, key=lambda message: (message.lineno, message.col)):
+            diagnostics.append({
+                "line": message.lineno,
+                "column": message.col + 1,
+                "endLine": None,
+                "endColumn": None,
+                "severity": "warning",
+                "message": message.message % message.message_args,
+                "source": "pyflakes",
+            })
+
+json.dump({"diagnostics": diagnostics, "pyflakes": checker is not None}, sys.stdout)
+`;
+
+export class PythonCheckError extends Error {}
+
+// Syntax errors and, with pyflakes, likely mistakes such as undefined names
+// or unused imports. The code is only parsed, never run, so this needs no
+// sandbox.
+export function checkPythonSource(content: string, name: string): Promise<CheckResult> {
+  return new Promise((resolve, reject) => {
+    const python = spawn("python3", ["-c", CHECK_SOURCE, name], { stdio: ["pipe", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+
+    const timer = setTimeout(() => python.kill("SIGKILL"), CHECK_TIMEOUT_MS);
+    python.stdout.on("data", (data) => { stdout += data.toString(); });
+    python.stderr.on("data", (data) => { stderr += data.toString(); });
+
+    python.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new PythonCheckError(`Failed to start python3: ${error.message}`));
+    });
+    python.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        return reject(new PythonCheckError(signal ? "Checking the code took too long" : stderr.trim() || `python3 exited with code ${code}`));
+      }
+      try {
+        resolve(JSON.parse(stdout));
+      } catch (error) {
+        reject(new PythonCheckError("The checker returned invalid output"));
+      }
+    });
+
+    // EPIPE when python3 fails early is reported through "close"
+    python.stdin.on("error", () => {});
+    python.stdin.end(content);
+  });
+}
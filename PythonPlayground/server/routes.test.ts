@@ -0,0 +1,135 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdtempSync } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { Execution, Interpreter } from "@shared/schema";
+import type { ExecutionResult } from "@shared/protocol";
+
+// The config is read on import, so runs get a workspace directory of their own
+// before the routes are loaded
+const workspaceDir = mkdtempSync(path.join(os.tmpdir(), "routes-test-"));
+process.env.WORKSPACE_DIR = workspaceDir;
+
+let server: Server;
+let baseUrl: string;
+let admin: Client;
+let runner: Client;
+let viewer: Client;
+let runnerId: number;
+let viewerId: number;
+
+// A signed-in user's side of the API
+class Client {
+  private cookie = "";
+
+  async request(method: string, pathname: string, body?: unknown): Promise<{ status: number; json: any }> {
+    const response = await fetch(baseUrl + pathname, {
+      method,
+      headers: { cookie: this.cookie, ...(body !== undefined ? { "Content-Type": "application/json" } : {}) },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = response.headers.getSetCookie()[0];
+    if (setCookie) {
+      this.cookie = setCookie.split(";")[0];
+    }
+    const text = await response.text();
+    return { status: response.status, json: text ? JSON.parse(text) : undefined };
+  }
+
+  async expect(status: number, method: string, pathname: string, body?: unknown): Promise<any> {
+    const response = await this.request(method, pathname, body);
+    assert.equal(response.status, status, `${method} ${pathname}: ${JSON.stringify(response.json)}`);
+    return response.json;
+  }
+}
+
+async function signIn(username: string, password: string): Promise<Client> {
+  const client = new Client();
+  await client.expect(200, "POST", "/api/login", { username, password });
+  return client;
+}
+
+before(async () => {
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  admin = new Client();
+  await admin.expect(201, "POST", "/api/setup", { username: "admin", password: "password123" });
+  runnerId = (await admin.expect(201, "POST", "/api/users", { username: "runner", password: "password123", mustChangePassword: false })).id;
+  viewerId = (await admin.expect(201, "POST", "/api/users", { username: "viewer", password: "password123", mustChangePassword: false })).id;
+  runner = await signIn("runner", "password123");
+  viewer = await signIn("viewer", "password123");
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await fs.rm(workspaceDir, { recursive: true, force: true });
+});
+
+describe("run history", () => {
+  let fileId: number;
+
+  before(async () => {
+    const content = "def secret():\n    raise ValueError('boom')\n\nsecret()\n";
+    fileId = (await admin.expect(201, "POST", "/api/files", { name: "secret.py", content, size: content.length })).id;
+    await admin.expect(200, "PUT", `/api/files/${fileId}/permissions`, {
+      defaultAccess: "run",
+      entries: [{ userId: viewerId, access: "view" }],
+    });
+  });
+
+  const run = async (client: Client): Promise<ExecutionResult> => {
+    const result: ExecutionResult = await client.expect(200, "POST", `/api/execute/${fileId}`, {});
+    assert.equal(result.status, "error");
+    return result;
+  };
+  const history = (client: Client): Promise<Execution[]> => client.expect(200, "GET", `/api/files/${fileId}/executions`);
+  const quotedCode = (execution: Execution) => execution.traceback!.frames.map((frame) => frame.code);
+
+  it("shows users who may not manage a program only their own runs", async () => {
+    const runnerRun = await run(runner);
+    const viewerRun = await run(viewer);
+    const adminRun = await run(admin);
+
+    assert.deepEqual((await history(runner)).map((execution) => execution.id), [runnerRun.execution.id]);
+    assert.deepEqual((await history(viewer)).map((execution) => execution.id), [viewerRun.execution.id]);
+    assert.deepEqual(
+      (await history(admin)).map((execution) => execution.id),
+      [adminRun.execution.id, viewerRun.execution.id, runnerRun.execution.id],
+    );
+    assert.equal(runnerRun.execution.userId, runnerId);
+  });
+
+  it("leaves the quoted code out of tracebacks for users who may only run the program", async () => {
+    const runnerRun = await run(runner);
+    assert.deepEqual(quotedCode(runnerRun.execution), [null, null]);
+    assert.deepEqual(runnerRun.execution.traceback!.frames.map((frame) => frame.line), [4, 2]);
+    for (const execution of await history(runner)) {
+      assert.ok(quotedCode(execution).every((code) => code === null));
+    }
+
+    const viewerRun = await run(viewer);
+    assert.deepEqual(quotedCode(viewerRun.execution), ["secret()", "raise ValueError('boom')"]);
+    for (const execution of await history(admin)) {
+      assert.ok(quotedCode(execution).every((code) => code !== null));
+    }
+  });
+});
+
+describe("interpreters", () => {
+  it("tells every user the version programs run with, but only teachers the whole list", async () => {
+    const interpreter: Interpreter = await runner.expect(200, "GET", "/api/interpreter");
+    assert.equal(interpreter.name, "python3");
+    assert.match(interpreter.version ?? "", /^Python 3\./);
+    await runner.expect(403, "GET", "/api/interpreters");
+  });
+});
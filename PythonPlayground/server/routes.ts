@@ -1,51 +1,52 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertPythonFileSchema, updatePythonFileSchema, loginSchema } from "@shared/schema";
-import { spawn } from "child_process";
+import { insertPythonFileSchema, updatePythonFileSchema, updateExecutionSettingsSchema, revisionDiffQuerySchema, checkSourceSchema, checkFileSchema, updateProgramPermissionsSchema, insertGroupSchema, groupMembersSchema, loginSchema, setupSchema, changePasswordSchema, createUserSchema, updateUserSchema, resetPasswordSchema, importUsersSchema, insertProjectSchema, updateProjectSchema, runInputSchema, insertRunConfigSchema, updateRunConfigSchema, createApiTokenSchema, type User, type PublicUser, type ApiToken, type PublicApiToken, type CreatedApiToken, type Project, type ProjectDetails, type ExecutionLimits, type RevisionDiff, type Interpreter, type PythonFile, type ProgramAccess, type GroupDetails } from "@shared/schema";
 import path from "path";
 import fs from "fs/promises";
 import { fileURLToPath } from "url";
-import session from "express-session";
-import MemoryStore from "memorystore";
 import archiver from "archiver";
+import { getActiveExecution, getExecutionSettings, RunInputError, type RunHandle } from "./executor";
+import { enqueueRun, getQueueEntry, RunCancelledError, type QueuedRun } from "./run-queue";
+import { attachRunSocket } from "./run-socket";
+import { sessionMiddleware } from "./session";
+import { config } from "./config";
+import { verifyPassword } from "./passwords";
+import { generateToken, hashToken } from "./tokens";
+import { toSessionUser, sessionUnlessToken, requireSession, requireAuth, requireAdmin, requireTeacher, requireGroupOwner, requireProgramAccess, type SessionUser } from "./auth";
+import { importUsers } from "./user-import";
+import { getInterpreterVersion, SandboxUnavailableError } from "./sandbox";
+import { getWorkspaceDir, listWorkspaceFiles, resetWorkspace, openInside, WorkspacePathError, WorkspaceQuotaError } from "./workspace";
+import { diffLines } from "./diff";
+import { checkPythonSource } from "./python-check";
+import type { RunStatus } from "@shared/protocol";
+import { hasAccess, toProgramFile, toVisibleExecution } from "@shared/access";
+import { openApiDocument } from "./api-spec";
+import { docsPage } from "./openapi";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const MemStore = MemoryStore(session);
-
-// Session middleware
-const sessionMiddleware = session({
-  secret: "python-launcher-secret",
-  resave: false,
-  saveUninitialized: false,
-  store: new MemStore({
-    checkPeriod: 86400000 // prune expired entries every 24h
-  }),
-  cookie: {
-    secure: false, // Set to true in production with HTTPS
-    httpOnly: true,
-    maxAge: 24 * 60 * 60 * 1000 // 24 hours
-  }
-});
 
-// Authentication middleware
-const requireAuth = (req: any, res: any, next: any) => {
-  if (!(req.session as any).user) {
-    return res.status(401).json({ message: "Authentication required" });
-  }
-  next();
-};
+const toPublicUser = ({ password, ...user }: User): PublicUser => user;
 
-const requireAdmin = (req: any, res: any, next: any) => {
-  if (!(req.session as any).user || (req.session as any).user.role !== "admin") {
-    return res.status(403).json({ message: "Admin access required" });
-  }
-  next();
-};
+const toPublicApiToken = ({ tokenHash, ...apiToken }: ApiToken): PublicApiToken => apiToken;
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Add session middleware
-  app.use(sessionMiddleware);
+  // Secure cookies are only sent when Express knows the proxy in front of it terminated HTTPS
+  if (config.session.cookie.secure) {
+    app.set("trust proxy", 1);
+  }
+
+  // Add session middleware (requests with a personal access token go without)
+  app.use(sessionUnlessToken(sessionMiddleware));
+
+  // The OpenAPI document of these routes (see api-spec.ts) and its interactive docs page
+  app.get("/api/openapi.json", (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  app.get("/api/docs", (_req, res) => {
+    res.type("html").send(docsPage);
+  });
 
   // Auth routes
   app.post("/api/login", async (req, res) => {
@@ -54,8 +55,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = await storage.authenticateUser(username, password);
       
       if (user) {
-        (req.session as any).user = user;
-        res.json({ user: { id: user.id, username: user.username, role: user.role } });
+        (req.session as any).user = toSessionUser(user);
+        res.json({ user: toSessionUser(user) });
       } else {
         res.status(401).json({ message: "Invalid credentials" });
       }
@@ -65,6 +66,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post("/api/logout", (req, res) => {
+    if (!req.session) {
+      return res.status(400).json({ message: "Personal access tokens are revoked, not logged out" });
+    }
     req.session.destroy((err: any) => {
       if (err) {
         return res.status(500).json({ message: "Could not logout" });
@@ -73,195 +77,928 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  app.get("/api/me", requireAuth, (req: any, res) => {
+  app.get("/api/me", requireSession, (req: any, res) => {
     const user = (req.session as any).user;
-    res.json({ user: { id: user.id, username: user.username, role: user.role } });
+    res.json({ user });
+  });
+
+  app.post("/api/change-password", requireSession, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const sessionUser = (req.session as any).user;
+      const user = await storage.getUser(sessionUser.id);
+
+      if (!user || !(await verifyPassword(currentPassword, user.password))) {
+        return res.status(401).json({ message: "Current password is incorrect" });
+      }
+
+      const updatedUser = await storage.updateUserPassword(user.id, newPassword);
+      (req.session as any).user = toSessionUser(updatedUser!);
+      res.json({ user: toSessionUser(updatedUser!) });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid password data" });
+    }
+  });
+
+  // First-run setup: tells the client whether an admin account still has to be created
+  app.get("/api/setup-status", async (_req, res) => {
+    try {
+      const userCount = await storage.getUserCount();
+      res.json({ setupRequired: userCount === 0, demoMode: config.demoMode });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch setup status" });
+    }
+  });
+
+  // Creates the first admin account; only allowed while there are no users at all
+  app.post("/api/setup", async (req, res) => {
+    try {
+      const { username, password } = setupSchema.parse(req.body);
+
+      if (await storage.getUserCount() > 0) {
+        return res.status(409).json({ message: "Setup has already been completed" });
+      }
+
+      const user = await storage.createUser({ username, password, role: "admin" });
+      (req.session as any).user = toSessionUser(user);
+      res.status(201).json({ user: toSessionUser(user) });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid setup data" });
+    }
+  });
+
+  // The signed-in user's personal access tokens, without the tokens themselves.
+  // Tokens cannot be used to manage tokens (see auth.ts).
+  app.get("/api/tokens", requireAuth, async (req, res) => {
+    try {
+      const apiTokens = await storage.getApiTokens((req.session as any).user.id);
+      res.json(apiTokens.map(toPublicApiToken));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tokens" });
+    }
+  });
+
+  // Create a token; the token itself is only ever returned here
+  app.post("/api/tokens", requireAuth, async (req, res) => {
+    const parsed = createApiTokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid token data" });
+    }
+
+    try {
+      const user = (req.session as any).user;
+      if (parsed.data.scopes.includes("admin") && user.role !== "admin" && user.role !== "teacher") {
+        return res.status(400).json({ message: "Only admins and teachers can create tokens with the admin scope" });
+      }
+
+      const { token, prefix } = generateToken();
+      const { expiresInDays } = parsed.data;
+      const apiToken = await storage.createApiToken({
+        userId: user.id,
+        name: parsed.data.name,
+        tokenHash: hashToken(token),
+        prefix,
+        scopes: Array.from(new Set(parsed.data.scopes)),
+        expiresAt: expiresInDays !== null ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      const created: CreatedApiToken = { apiToken: toPublicApiToken(apiToken), token };
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create token" });
+    }
   });
 
-  // Get all Python files (requires authentication)
+  // Revoke one of the signed-in user's tokens
+  app.delete("/api/tokens/:id", requireAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteApiToken(parseInt(req.params.id), (req.session as any).user.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Token not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke token" });
+    }
+  });
+
+  // User management (admin only; teachers may list users to add them to their groups)
+  app.get("/api/users", requireTeacher, async (_req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const validatedData = createUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      const user = await storage.createUser(validatedData);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid user data" });
+    }
+  });
+
+  // Bulk-create accounts from CSV with "username,password,role" columns
+  app.post("/api/users/import", requireAdmin, async (req, res) => {
+    try {
+      const { csv } = importUsersSchema.parse(req.body);
+      const result = await importUsers(csv);
+      res.status(result.created.length > 0 ? 201 : 200).json(result);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid import data" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateUserSchema.parse(req.body);
+      const currentUser = (req.session as any).user;
+
+      // Admins must not lock themselves out
+      if (id === currentUser.id && (validatedData.disabled || (validatedData.role && validatedData.role !== "admin"))) {
+        return res.status(400).json({ message: "You cannot disable or demote your own account" });
+      }
+
+      if (validatedData.username) {
+        const existing = await storage.getUserByUsername(validatedData.username);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: "Username is already taken" });
+        }
+      }
+
+      const user = await storage.updateUser(id, validatedData);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid user data" });
+    }
+  });
+
+  app.post("/api/users/:id/reset-password", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { password, mustChangePassword } = resetPasswordSchema.parse(req.body);
+      const user = await storage.updateUserPassword(id, password, mustChangePassword);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid password data" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (id === (req.session as any).user.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+      const deleted = await storage.deleteUser(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // The Python files the signed-in user may see (requires authentication)
   app.get("/api/files", requireAuth, async (req, res) => {
     try {
-      const files = await storage.getAllPythonFiles();
+      const files = await storage.getAllPythonFiles((req.session as any).user);
       res.json(files);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch files" });
     }
   });
 
-  // Get a specific Python file
-  app.get("/api/files/:id", async (req, res) => {
+  // Get a specific Python file, without its code when the user may only run it
+  app.get("/api/files/:id", requireProgramAccess("run"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const file = await storage.getPythonFile(id);
-      if (!file) {
-        return res.status(404).json({ message: "File not found" });
-      }
-      res.json(file);
+      res.json(toProgramFile(res.locals.file, res.locals.access));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch file" });
     }
   });
 
-  // Create a new Python file (admin only)
-  app.post("/api/files", requireAdmin, async (req, res) => {
+  // Teachers add programs to one of the groups they own; admins may also add
+  // them to no group at all
+  const findGroupProblem = async (user: SessionUser, groupId: number | null | undefined) => {
+    if (groupId === null || groupId === undefined) {
+      return user.role === "admin" ? null : "Choose one of your groups for the program";
+    }
+    const group = await storage.getGroup(groupId);
+    if (!group) {
+      return "Group not found";
+    }
+    if (user.role !== "admin" && !group.ownerIds.includes(user.id)) {
+      return "Programs can only be added to groups you own";
+    }
+    return null;
+  };
+
+  // A program added to a group is shared with its members and hidden from everyone else
+  const shareWithGroup = (file: PythonFile, groupId: number) =>
+    storage.setProgramPermissions(file.id, { defaultAccess: "none", entries: [{ userId: null, groupId, access: "view" }] });
+
+  // Create a new Python file (admins and teachers)
+  app.post("/api/files", requireTeacher, async (req, res) => {
+    const parsed = insertPythonFileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid file data" });
+    }
+
     try {
-      const validatedData = insertPythonFileSchema.parse(req.body);
-      const file = await storage.createPythonFile(validatedData);
-      res.status(201).json(file);
+      const problem = await findGroupProblem((req.session as any).user, parsed.data.groupId);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const file = await storage.createPythonFile(parsed.data);
+      if (file.groupId !== null) {
+        await shareWithGroup(file, file.groupId);
+      }
+      res.status(201).json(toProgramFile(file, "manage"));
     } catch (error) {
-      res.status(400).json({ message: "Invalid file data" });
+      res.status(500).json({ message: "Failed to create file" });
     }
   });
 
-  // Update a Python file (admin only)
-  app.put("/api/files/:id", requireAdmin, async (req, res) => {
+  // Update a Python file (admins and users who may edit it)
+  app.put("/api/files/:id", requireProgramAccess("edit"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
       const validatedData = updatePythonFileSchema.parse(req.body);
-      const file = await storage.updatePythonFile(id, validatedData);
+      const file = await storage.updatePythonFile(res.locals.file.id, validatedData);
       if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
-      res.json(file);
+      res.json(toProgramFile(file, res.locals.access));
     } catch (error) {
       res.status(400).json({ message: "Invalid file data" });
     }
   });
 
-  // Delete a Python file (admin only)
-  app.delete("/api/files/:id", requireAdmin, async (req, res) => {
+  // The limits runs of a program are held to
+  app.get("/api/files/:id/execution-settings", requireProgramAccess("run"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deletePythonFile(id);
-      if (!deleted) {
+      res.json(getExecutionSettings(res.locals.file));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch execution settings" });
+    }
+  });
+
+  // Change a program's timeout, memory and output limits or whether it may
+  // read from the keyboard (admins and the owners of its group)
+  app.patch("/api/files/:id/execution-settings", requireProgramAccess("manage"), async (req, res) => {
+    const parsed = updateExecutionSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid execution settings" });
+    }
+
+    try {
+      const file = await storage.updateExecutionSettings(res.locals.file.id, parsed.data);
+      if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
+      res.json(toProgramFile(file, "manage"));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update execution settings" });
+    }
+  });
+
+  // Saved versions of a program's code, newest first (admins and users who may edit it)
+  app.get("/api/files/:id/revisions", requireProgramAccess("edit"), async (req, res) => {
+    try {
+      res.json(await storage.getFileRevisions(res.locals.file.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Line diff between two revisions, by default against the latest
+  app.get("/api/files/:id/revisions/diff", requireProgramAccess("edit"), async (req, res) => {
+    const parsed = revisionDiffQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid revisions" });
+    }
+
+    try {
+      const file: PythonFile = res.locals.file;
+      const to = parsed.data.to ?? file.revision;
+      const [fromRevision, toRevision] = await Promise.all([
+        storage.getFileRevision(file.id, parsed.data.from),
+        storage.getFileRevision(file.id, to),
+      ]);
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const diff: RevisionDiff = {
+        from: fromRevision.revision,
+        to: toRevision.revision,
+        lines: diffLines(fromRevision.content, toRevision.content),
+      };
+      res.json(diff);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to diff revisions" });
+    }
+  });
+
+  app.get("/api/files/:id/revisions/:revision", requireProgramAccess("edit"), async (req, res) => {
+    try {
+      const revision = await storage.getFileRevision(res.locals.file.id, parseInt(req.params.revision));
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch revision" });
+    }
+  });
+
+  // Save an old revision's code again as the latest revision
+  app.post("/api/files/:id/revisions/:revision/restore", requireProgramAccess("edit"), async (req, res) => {
+    try {
+      const file = await storage.restoreFileRevision(res.locals.file.id, parseInt(req.params.revision));
+      if (!file) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(toProgramFile(file, res.locals.access));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  // Syntax errors and pyflakes warnings of a saved file, or of the unsaved
+  // code the editor sends (admins and users who may edit it)
+  app.post("/api/files/:id/check", requireProgramAccess("edit"), async (req, res) => {
+    const parsed = checkFileSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code" });
+    }
+
+    try {
+      const file: PythonFile = res.locals.file;
+      res.json(await checkPythonSource(parsed.data.content ?? file.content, file.name));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to check file" });
+    }
+  });
+
+  // The same check for code that is not saved yet, e.g. a file being uploaded
+  // (admins and teachers)
+  app.post("/api/check", requireTeacher, async (req, res) => {
+    const parsed = checkSourceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code" });
+    }
+
+    try {
+      res.json(await checkPythonSource(parsed.data.content, parsed.data.name));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to check code" });
+    }
+  });
+
+  // Delete a Python file (admins and the owners of its group). Deleting a
+  // project's entry point removes the whole project, since it is listed
+  // through that file.
+  app.delete("/api/files/:id", requireProgramAccess("manage"), async (req, res) => {
+    try {
+      const file: PythonFile = res.locals.file;
+      if (file.projectId !== null) {
+        await storage.deleteProject(file.projectId);
+      } else {
+        await storage.deletePythonFile(file.id);
+      }
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete file" });
     }
   });
 
-  // Execute Python code
-  app.post("/api/execute/:id", async (req, res) => {
+  // Who may see, run and edit a program (admins and the owners of its group)
+  app.get("/api/files/:id/permissions", requireProgramAccess("manage"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const file = await storage.getPythonFile(id);
-      
-      if (!file) {
+      const permissions = await storage.getProgramPermissions(res.locals.file.id);
+      if (!permissions) {
         return res.status(404).json({ message: "File not found" });
       }
+      res.json(permissions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
 
-      const startTime = Date.now();
-      const tempDir = path.join(__dirname, "..", "temp");
-      
-      // Create temp directory if it doesn't exist
-      try {
-        await fs.mkdir(tempDir, { recursive: true });
-      } catch (error) {
-        // Directory already exists
+  // Replace a program's default access and permission entries (admins and
+  // the owners of its group, who can only name their groups and members)
+  app.put("/api/files/:id/permissions", requireProgramAccess("manage"), async (req, res) => {
+    const parsed = updateProgramPermissionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid permissions" });
+    }
+
+    try {
+      const currentUser = (req.session as any).user;
+      const [users, groups] = await Promise.all([storage.getAllUsers(), getVisibleGroups(currentUser)]);
+      const userIds = currentUser.role === "admin"
+        ? users.map((user) => user.id)
+        : groups.flatMap((group) => [...group.memberIds, ...group.ownerIds]);
+      const unknown = parsed.data.entries.some((entry) => entry.userId !== null
+        ? !userIds.includes(entry.userId)
+        : !groups.some((group) => group.id === entry.groupId));
+      if (unknown) {
+        return res.status(400).json({ message: "Unknown user or group" });
       }
 
-      const tempFile = path.join(tempDir, `${file.id}_${Date.now()}.py`);
-      
-      try {
-        // Write Python code to temporary file
-        await fs.writeFile(tempFile, file.content);
+      const permissions = await storage.setProgramPermissions(res.locals.file.id, parsed.data);
+      if (!permissions) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      res.json(permissions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update permissions" });
+    }
+  });
 
-        // Execute Python code with timeout
-        const python = spawn("python3", [tempFile], {
-          timeout: 30000, // 30 second timeout
-          cwd: tempDir,
-        });
+  // Admins see every group, teachers the groups they own
+  const getVisibleGroups = async (user: SessionUser): Promise<GroupDetails[]> => {
+    const groups = await storage.getAllGroups();
+    return user.role === "admin" ? groups : groups.filter((group) => group.ownerIds.includes(user.id));
+  };
 
-        let stdout = "";
-        let stderr = "";
+  // Groups of users programs can be shared with (admins, and teachers for their own groups)
+  app.get("/api/groups", requireTeacher, async (req, res) => {
+    try {
+      res.json(await getVisibleGroups((req.session as any).user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch groups" });
+    }
+  });
 
-        python.stdout.on("data", (data) => {
-          stdout += data.toString();
-        });
+  // Create a group (admin only)
+  app.post("/api/groups", requireAdmin, async (req, res) => {
+    const parsed = insertGroupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid group data" });
+    }
 
-        python.stderr.on("data", (data) => {
-          stderr += data.toString();
-        });
+    try {
+      const groups = await storage.getAllGroups();
+      if (groups.some((group) => group.name === parsed.data.name)) {
+        return res.status(409).json({ message: "A group with this name already exists" });
+      }
+      res.status(201).json(await storage.createGroup(parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create group" });
+    }
+  });
 
-        python.on("close", async (code) => {
-          const executionTime = Date.now() - startTime;
-          const status = code === 0 ? "success" : "error";
-          
-          try {
-            // Clean up temp file
-            await fs.unlink(tempFile);
-          } catch (error) {
-            // File cleanup failed, but continue
-          }
-
-          const execution = await storage.createExecution({
-            fileId: id,
-            output: stdout || null,
-            error: stderr || null,
-            executionTime,
-            status,
-          });
-
-          res.json({
-            execution,
-            output: stdout,
-            error: stderr,
-            executionTime,
-            status,
-          });
-        });
+  // Replace a group's members (admins and the group's owners) and owners (admin only)
+  app.put("/api/groups/:id/members", requireGroupOwner, async (req, res) => {
+    const parsed = groupMembersSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid members" });
+    }
 
-        python.on("error", async (error) => {
-          const executionTime = Date.now() - startTime;
-          
-          try {
-            await fs.unlink(tempFile);
-          } catch (cleanupError) {
-            // Cleanup failed
-          }
-
-          const execution = await storage.createExecution({
-            fileId: id,
-            output: null,
-            error: error.message,
-            executionTime,
-            status: "error",
-          });
-
-          res.json({
-            execution,
-            output: "",
-            error: error.message,
-            executionTime,
-            status: "error",
-          });
-        });
+    try {
+      if (parsed.data.ownerIds && (req.session as any).user.role !== "admin") {
+        return res.status(403).json({ message: "Only admins can change the owners of a group" });
+      }
+
+      const users = await storage.getAllUsers();
+      if (parsed.data.userIds.some((userId) => !users.some((user) => user.id === userId))) {
+        return res.status(400).json({ message: "Unknown user" });
+      }
+      if (parsed.data.ownerIds?.some((userId) => users.find((user) => user.id === userId)?.role !== "teacher")) {
+        return res.status(400).json({ message: "Group owners must be teachers" });
+      }
+
+      const group = await storage.setGroupMembers(res.locals.group.id, parsed.data);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      res.json(group);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update group members" });
+    }
+  });
+
+  // Delete a group (admin only)
+  app.delete("/api/groups/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteGroup(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete group" });
+    }
+  });
+
+  const toProjectDetails = async (project: Project): Promise<ProjectDetails> => {
+    const [sources, dataFiles] = await Promise.all([
+      storage.getProjectPythonFiles(project.id),
+      storage.getProjectDataFiles(project.id),
+    ]);
+    const files = [
+      ...sources.map(file => ({ path: file.name, size: file.size, fileId: file.id })),
+      ...dataFiles.map(file => ({ path: file.path, size: file.size })),
+    ].sort((a, b) => a.path.localeCompare(b.path));
+    return { ...project, files };
+  };
+
+  // The projects the signed-in user may see (requires authentication)
+  app.get("/api/projects", requireAuth, async (req, res) => {
+    try {
+      const projects = await storage.getAllProjects((req.session as any).user);
+      res.json(projects);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch projects" });
+    }
+  });
+
+  // Projects go by the permissions of their entry point
+  const getProjectAccess = async (id: number, user: SessionUser): Promise<ProgramAccess | null> => {
+    const project = await storage.getProject(id);
+    if (!project) {
+      return null;
+    }
+    if (user.role === "admin") {
+      return "manage";
+    }
+    const entryFile = project.entryFileId !== null ? await storage.getPythonFile(project.entryFileId) : undefined;
+    return entryFile ? storage.getProgramAccess(entryFile, user) : null;
+  };
+
+  // Get a project with its file list (requires authentication)
+  app.get("/api/projects/:id", requireAuth, async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project || !await getProjectAccess(project.id, (req.session as any).user)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await toProjectDetails(project));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch project" });
+    }
+  });
+
+  // Upload a multi-file project (admins and teachers)
+  app.post("/api/projects", requireTeacher, async (req, res) => {
+    const parsed = insertProjectSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid project data" });
+    }
+
+    try {
+      const problem = await findGroupProblem((req.session as any).user, parsed.data.groupId);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const project = await storage.createProject(parsed.data);
+      const entryFile = project.entryFileId !== null ? await storage.getPythonFile(project.entryFileId) : undefined;
+      if (entryFile && parsed.data.groupId !== null) {
+        await shareWithGroup(entryFile, parsed.data.groupId);
+      }
+      res.status(201).json({ project, entryFile: entryFile && toProgramFile(entryFile, "manage") });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create project" });
+    }
+  });
+
+  // Rename a project or change its entry point (admins and the owners of its group)
+  app.patch("/api/projects/:id", requireTeacher, async (req, res) => {
+    const parsed = updateProjectSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid project data" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (!hasAccess(await getProjectAccess(id, (req.session as any).user), "manage")) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (parsed.data.entryFileId !== undefined) {
+        const entryFile = await storage.getPythonFile(parsed.data.entryFileId);
+        if (!entryFile || entryFile.projectId !== id) {
+          return res.status(400).json({ message: "The entry point must be one of the project's Python files" });
+        }
+      }
+
+      const project = await storage.updateProject(id, parsed.data);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await toProjectDetails(project));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  // Delete a project and all of its files (admins and the owners of its group)
+  app.delete("/api/projects/:id", requireTeacher, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!hasAccess(await getProjectAccess(id, (req.session as any).user), "manage")) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const deleted = await storage.deleteProject(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+
+  // Saved run configurations of a program, for everyone who can run it
+  app.get("/api/files/:id/run-configs", requireProgramAccess("run"), async (req, res) => {
+    try {
+      res.json(await storage.getRunConfigs(res.locals.file.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch run configurations" });
+    }
+  });
+
+  // The interpreter programs run with unless a run configuration says
+  // otherwise, for everyone who edits or runs them
+  app.get("/api/interpreter", requireAuth, async (req, res) => {
+    const interpreter: Interpreter = { name: "python3", version: await getInterpreterVersion("python3") };
+    res.json(interpreter);
+  });
+
+  // Interpreters run configurations may use, with the versions they report
+  app.get("/api/interpreters", requireTeacher, async (req, res) => {
+    const interpreters: Interpreter[] = await Promise.all(config.sandbox.interpreters.map(async (name) => ({
+      name,
+      version: await getInterpreterVersion(name),
+    })));
+    res.json(interpreters);
+  });
+
+  // Refuses interpreters that are not allowed and names another configuration
+  // of the program already uses
+  const findRunConfigProblem = async (fileId: number, name?: string, interpreter?: string | null, id?: number) => {
+    if (interpreter && !config.sandbox.interpreters.includes(interpreter)) {
+      return `Interpreter not allowed: ${interpreter}`;
+    }
+    if (name !== undefined) {
+      const existing = await storage.getRunConfigs(fileId);
+      if (existing.some((runConfig) => runConfig.name === name && runConfig.id !== id)) {
+        return "A run configuration with this name already exists";
+      }
+    }
+    return null;
+  };
+
+  // Save a run configuration on a program (admins and the owners of its group)
+  app.post("/api/files/:id/run-configs", requireProgramAccess("manage"), async (req, res) => {
+    const parsed = insertRunConfigSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid run configuration" });
+    }
+
+    try {
+      const file: PythonFile = res.locals.file;
+      const problem = await findRunConfigProblem(file.id, parsed.data.name, parsed.data.interpreter);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      res.status(201).json(await storage.createRunConfig(file.id, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create run configuration" });
+    }
+  });
+
+  // Run configurations are managed along with their program
+  const canManageRunConfig = async (fileId: number, user: SessionUser) => {
+    const file = await storage.getPythonFile(fileId);
+    return !!file && hasAccess(await storage.getProgramAccess(file, user), "manage");
+  };
+
+  // Change a run configuration (admins and the owners of its program's group)
+  app.patch("/api/run-configs/:id", requireTeacher, async (req, res) => {
+    const parsed = updateRunConfigSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid run configuration" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getRunConfig(id);
+      if (!existing || !await canManageRunConfig(existing.fileId, (req.session as any).user)) {
+        return res.status(404).json({ message: "Run configuration not found" });
+      }
+      const problem = await findRunConfigProblem(existing.fileId, parsed.data.name, parsed.data.interpreter, id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      res.json(await storage.updateRunConfig(id, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update run configuration" });
+    }
+  });
+
+  // Delete a run configuration (admins and the owners of its program's group)
+  app.delete("/api/run-configs/:id", requireTeacher, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getRunConfig(id);
+      if (!existing || !await canManageRunConfig(existing.fileId, (req.session as any).user)) {
+        return res.status(404).json({ message: "Run configuration not found" });
+      }
+      const deleted = await storage.deleteRunConfig(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Run configuration not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete run configuration" });
+    }
+  });
+
+  // Execute Python code, optionally with arguments, environment variables and stdin
+  app.post("/api/execute/:id", requireProgramAccess("run"), async (req, res) => {
+    try {
+      const file: PythonFile = res.locals.file;
+      const input = runInputSchema.safeParse(req.body ?? {});
+      if (!input.success) {
+        return res.status(400).json({ message: input.error.errors[0]?.message ?? "Invalid run input" });
+      }
 
+      let queued: QueuedRun;
+      try {
+        queued = enqueueRun(file, { userId: (req.session as any).user.id, input: input.data });
+      } catch (error) {
+        if (error instanceof RunInputError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      // A run still waiting for a worker is dropped when the client gives up
+      res.on("close", queued.cancel);
+
+      let run: RunHandle;
+      try {
+        run = await queued.started;
       } catch (fsError) {
-        res.status(500).json({ 
+        if (fsError instanceof RunCancelledError) {
+          return res.status(409).json({ message: fsError.message });
+        }
+        if (fsError instanceof RunInputError) {
+          return res.status(400).json({ message: fsError.message });
+        }
+        if (fsError instanceof WorkspaceQuotaError) {
+          return res.status(507).json({ message: fsError.message });
+        }
+        if (fsError instanceof SandboxUnavailableError) {
+          return res.status(503).json({ message: fsError.message });
+        }
+        return res.status(500).json({ 
           message: "Failed to create temporary file",
           error: fsError instanceof Error ? fsError.message : "Unknown error"
         });
       }
 
+      // Nothing can be typed into a plain HTTP request, so input() sees end-of-file
+      run.end();
+      const result = await run.result;
+      res.json({ ...result, execution: toVisibleExecution(result.execution, res.locals.access) });
     } catch (error) {
       res.status(500).json({ message: "Execution failed" });
     }
   });
 
-  // Get execution history for a file
-  app.get("/api/files/:id/executions", async (req, res) => {
+  // Limits every run is subject to
+  app.get("/api/execution-limits", requireAuth, (req, res) => {
+    const limits: ExecutionLimits = {
+      timeoutMs: config.execution.timeoutMs,
+      allowInteractive: config.execution.allowInteractive,
+      cpuSeconds: config.sandbox.cpuSeconds,
+      memoryBytes: config.sandbox.memoryBytes,
+      maxProcesses: config.sandbox.maxProcesses,
+      maxOpenFiles: config.sandbox.maxOpenFiles,
+      maxOutputBytes: config.sandbox.maxOutputBytes,
+      workspaceQuotaBytes: config.workspace.quotaBytes,
+    };
+    res.json(limits);
+  });
+
+  // Where a queued or running execution stands (the user who started it, or an admin)
+  app.get("/api/executions/:runId", requireAuth, (req, res) => {
+    const user = (req.session as any).user;
+    const queued = getQueueEntry(req.params.runId);
+    const active = getActiveExecution(req.params.runId);
+    const owner = queued ?? active;
+    if (!owner) {
+      return res.status(404).json({ message: "Execution not found" });
+    }
+    if (owner.userId !== user.id && user.role !== "admin") {
+      return res.status(403).json({ message: "Not allowed to view this execution" });
+    }
+
+    const status: RunStatus = queued
+      ? { runId: queued.runId, fileId: queued.fileId, state: "queued", position: queued.position }
+      : { runId: active!.runId, fileId: active!.fileId, state: "running", startedAt: active!.startedAt.toISOString() };
+    res.json(status);
+  });
+
+  // Stop a queued or running execution (the user who started it, or an admin)
+  app.delete("/api/executions/:runId", requireAuth, (req, res) => {
+    const user = (req.session as any).user;
+    const execution = getQueueEntry(req.params.runId) ?? getActiveExecution(req.params.runId);
+    if (!execution) {
+      return res.status(404).json({ message: "Execution not found" });
+    }
+    if (execution.userId !== user.id && user.role !== "admin") {
+      return res.status(403).json({ message: "Not allowed to stop this execution" });
+    }
+    execution.cancel();
+    res.status(204).send();
+  });
+
+  // Get execution history for a file: every user's runs for those who manage
+  // the program, otherwise only the caller's own
+  app.get("/api/files/:id/executions", requireProgramAccess("run"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const executions = await storage.getExecutionsForFile(id);
-      res.json(executions);
+      const access: ProgramAccess = res.locals.access;
+      const userId = hasAccess(access, "manage") ? undefined : (req.session as any).user.id;
+      const executions = await storage.getExecutionsForFile(res.locals.file.id, userId);
+      res.json(executions.map((execution) => toVisibleExecution(execution, access)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch executions" });
     }
   });
 
+  // List the files the signed-in user's runs of a program have left behind
+  app.get("/api/files/:id/workspace", requireProgramAccess("run"), async (req, res) => {
+    try {
+      const dir = getWorkspaceDir((req.session as any).user.id, res.locals.file);
+      const files = await listWorkspaceFiles(dir);
+      res.json({
+        files,
+        usage: files.reduce((total, entry) => total + entry.size, 0),
+        quota: config.workspace.quotaBytes,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to read workspace" });
+    }
+  });
+
+  // Download a single file from the signed-in user's workspace
+  app.get("/api/files/:id/workspace/download", requireProgramAccess("run"), async (req, res) => {
+    try {
+      if (typeof req.query.path !== "string") {
+        return res.status(400).json({ message: "Missing path" });
+      }
+
+      const dir = getWorkspaceDir((req.session as any).user.id, res.locals.file);
+      // Sent from the opened file, so a link the program put there is never followed
+      const handle = await openInside(dir, req.query.path);
+      if (!handle) {
+        return res.status(404).json({ message: "Workspace file not found" });
+      }
+      const { size } = await handle.stat();
+      res.attachment(path.basename(req.query.path));
+      // Sent as plain bytes, as a program may have written anything under any name
+      res.type("application/octet-stream");
+      res.setHeader("Content-Length", size);
+      handle.createReadStream()
+        .on("error", () => res.destroy())
+        .pipe(res);
+    } catch (error) {
+      if (error instanceof WorkspacePathError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to download workspace file" });
+    }
+  });
+
+  // Reset the signed-in user's workspace, removing everything their runs saved
+  app.delete("/api/files/:id/workspace", requireProgramAccess("run"), async (req, res) => {
+    try {
+      await resetWorkspace(getWorkspaceDir((req.session as any).user.id, res.locals.file));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset workspace" });
+    }
+  });
+
   // Download project files as zip (admin only)
   app.get("/api/download-project", requireAdmin, async (req, res) => {
     try {
@@ -331,5 +1068,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  attachRunSocket(httpServer, sessionMiddleware);
   return httpServer;
 }
@@ -0,0 +1,133 @@
+import { randomUUID } from "crypto";
+import { config } from "./config";
+import { runPythonFile, checkRunInput, type RunHandle, type RunOptions } from "./executor";
+import type { PythonFile } from "@shared/schema";
+
+export interface QueuedRun {
+  runId: string;
+  // Resolves once the program has been spawned
+  started: Promise<RunHandle>;
+  // Takes the run out of the queue; a run that already started is not affected
+  cancel: () => void;
+}
+
+export interface QueueEntry {
+  runId: string;
+  fileId: number;
+  userId?: number;
+  position: number;
+  cancel: () => void;
+}
+
+export class RunCancelledError extends Error {
+  constructor() {
+    super("The run was cancelled before it started");
+  }
+}
+
+// Called with the run's place in the queue, starting at 1, whenever it changes
+export type PositionListener = (position: number, runId: string) => void;
+
+interface Job {
+  runId: string;
+  file: PythonFile;
+  options: RunOptions;
+  onPosition?: PositionListener;
+  lastPosition?: number;
+  resolve: (handle: RunHandle) => void;
+  reject: (error: unknown) => void;
+}
+
+// Waiting jobs in arrival order, and the runs currently holding a worker
+const waiting: Job[] = [];
+const running = new Map<string, { fileId: number; userId?: number }>();
+
+const countRunning = (matches: (run: { fileId: number; userId?: number }) => boolean) =>
+  Array.from(running.values()).filter(matches).length;
+
+// Anonymous runs share one user slot
+const canStart = (job: Job) =>
+  running.size < config.queue.workers &&
+  countRunning((run) => run.userId === job.options.userId) < config.queue.maxPerUser &&
+  countRunning((run) => run.fileId === job.file.id) < config.queue.maxPerProgram;
+
+function startJob(job: Job) {
+  running.set(job.runId, { fileId: job.file.id, userId: job.options.userId });
+
+  const release = () => {
+    running.delete(job.runId);
+    schedule();
+  };
+
+  runPythonFile(job.file, { ...job.options, runId: job.runId }).then(
+    (handle) => {
+      handle.result.then(release, release);
+      job.resolve(handle);
+    },
+    (error) => {
+      release();
+      job.reject(error);
+    },
+  );
+}
+
+// Starts every waiting job the limits allow, earliest first, then tells the
+// remaining ones where they stand
+function schedule() {
+  for (let i = 0; i < waiting.length; ) {
+    if (canStart(waiting[i])) {
+      startJob(waiting.splice(i, 1)[0]);
+    } else {
+      i++;
+    }
+  }
+
+  waiting.forEach((job, index) => {
+    const position = index + 1;
+    if (job.lastPosition !== position) {
+      job.lastPosition = position;
+      job.onPosition?.(position, job.runId);
+    }
+  });
+}
+
+// Queues a run of the file. It starts as soon as a worker is free and
+// neither the user nor the program is at its concurrency limit. Throws a
+// RunInputError right away for input that can never run.
+export function enqueueRun(file: PythonFile, options: RunOptions = {}, onPosition?: PositionListener): QueuedRun {
+  checkRunInput(options.input);
+  const runId = randomUUID();
+
+  const started = new Promise<RunHandle>((resolve, reject) => {
+    waiting.push({ runId, file, options, onPosition, resolve, reject });
+  });
+
+  schedule();
+
+  return {
+    runId,
+    started,
+    cancel: () => cancelQueuedRun(runId),
+  };
+}
+
+function cancelQueuedRun(runId: string) {
+  const index = waiting.findIndex((job) => job.runId === runId);
+  if (index === -1) return;
+  const [job] = waiting.splice(index, 1);
+  job.reject(new RunCancelledError());
+  schedule();
+}
+
+export function getQueueEntry(runId: string): QueueEntry | undefined {
+  const index = waiting.findIndex((job) => job.runId === runId);
+  if (index === -1) return undefined;
+  const job = waiting[index];
+  return {
+    runId,
+    fileId: job.file.id,
+    userId: job.options.userId,
+    position: index + 1,
+    cancel: () => cancelQueuedRun(runId),
+  };
+}
@@ -0,0 +1,141 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { RunInputError, type RunHandle } from "./executor";
+import { enqueueRun, RunCancelledError, type QueuedRun } from "./run-queue";
+import { getBearerToken, loadSessionUser, loadTokenUser, type SessionUser } from "./auth";
+import { WorkspaceQuotaError } from "./workspace";
+import { SandboxUnavailableError } from "./sandbox";
+import { runClientMessageSchema, type RunServerMessage } from "@shared/protocol";
+import { toVisibleExecution } from "@shared/access";
+
+// Attaches the interactive run channel at /api/run. Each connection runs a
+// single program: output is streamed back as it arrives and input messages
+// are forwarded to the program's stdin.
+export function attachRunSocket(server: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== "/api/run") {
+      // Leave other upgrades (e.g. the Vite HMR socket) to their own listeners
+      return;
+    }
+
+    const accept = (user: SessionUser | null) => {
+      if (!user || user.mustChangePassword) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        handleRunConnection(ws, user);
+      });
+    };
+
+    // Scripts connect with a personal access token that has the "execute" scope
+    const token = getBearerToken(req);
+    if (token !== null) {
+      loadTokenUser(token, "execute").catch(() => null).then(accept);
+      return;
+    }
+
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      accept(await loadSessionUser(req as Request).catch(() => null));
+    });
+  });
+
+  return wss;
+}
+
+function handleRunConnection(ws: WebSocket, user: SessionUser) {
+  let queued: QueuedRun | null = null;
+  let run: RunHandle | null = null;
+  let started = false;
+
+  const send = (message: RunServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  ws.on("message", async (raw) => {
+    const parsed = (() => {
+      try {
+        return runClientMessageSchema.safeParse(JSON.parse(raw.toString()));
+      } catch (error) {
+        return null;
+      }
+    })();
+
+    if (!parsed?.success) {
+      send({ type: "error", message: "Invalid message" });
+      return;
+    }
+
+    const message = parsed.data;
+
+    switch (message.type) {
+      case "start": {
+        if (started) {
+          send({ type: "error", message: "A program is already running on this connection" });
+          return;
+        }
+        started = true;
+
+        try {
+          // Programs hidden from the user are reported as missing, as over HTTP
+          const file = await storage.getPythonFile(message.fileId);
+          const access = file && await storage.getProgramAccess(file, user);
+          if (!file || !access) {
+            send({ type: "error", message: "File not found" });
+            ws.close();
+            return;
+          }
+
+          queued = enqueueRun(file, {
+            userId: user.id,
+            terminal: message.terminal,
+            input: message.input,
+            onStdout: (data) => send({ type: "stdout", data }),
+            onStderr: (data) => send({ type: "stderr", data }),
+          }, (position, runId) => send({ type: "queued", fileId: file.id, runId, position }));
+          run = await queued.started;
+          send({ type: "started", fileId: file.id, runId: run.runId });
+
+          const result = await run.result;
+          send({ type: "exit", result: { ...result, execution: toVisibleExecution(result.execution, access) } });
+        } catch (error) {
+          const reportable = error instanceof WorkspaceQuotaError
+            || error instanceof SandboxUnavailableError
+            || error instanceof RunCancelledError
+            || error instanceof RunInputError;
+          send({ type: "error", message: reportable ? error.message : "Execution failed" });
+        }
+        ws.close();
+        break;
+      }
+
+      case "stdin":
+        run?.write(message.data);
+        break;
+
+      case "eof":
+        run?.end();
+        break;
+
+      case "resize":
+        run?.resize({ cols: message.cols, rows: message.rows });
+        break;
+    }
+  });
+
+  ws.on("close", () => {
+    // Nobody is left to see the output of a run that has not started yet
+    queued?.cancel();
+    // Let a program blocked on input() see end-of-file instead of waiting for the timeout
+    run?.end();
+  });
+}
@@ -0,0 +1,298 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs/promises";
+import path from "path";
+import { config } from "./config";
+import type { ExecutionLimit, ExecutionSettings } from "@shared/schema";
+
+const execFileAsync = promisify(execFile);
+
+// Applies the resource limits to itself and then runs the program in a child
+// process, so the limits hold for the program and everything it starts. It
+// stays around to measure what the program used, takes the program down with
+// it when it is killed, and ends the way the program did, with its exit code
+// or by the same signal.
+//
+// Usage: python3 -c RLIMITS_SOURCE <cpu-seconds> <memory-bytes> <processes> <open-files> <file-size-bytes> <command...>
+// A limit of 0 leaves the corresponding resource alone. When fd 4 is open it
+// receives "usage <cpu-seconds> <max-rss-kb>" once the program has ended; the
+// program itself does not get it, so it cannot report for itself.
+const RLIMITS_SOURCE = String.raw`
+import ctypes, os, resource, signal, sys
+
+cpu, memory, processes, open_files, file_size = (int(value) for value in sys.argv[1:6])
+command = sys.argv[6:]
+
+def limit(kind, soft, hard=None):
+    if soft > 0:
+        try:
+            resource.setrlimit(kind, (soft, hard or soft))
+        except (ValueError, OSError):
+            pass
+
+def own_processes():
+    uid = os.getuid()
+    count = 0
+    for entry in os.listdir("/proc"):
+        try:
+            if entry.isdigit() and os.stat("/proc/" + entry).st_uid == uid:
+                count += 1
+        except OSError:
+            pass
+    return count
+
+try:
+    os.fstat(4)
+    report = 4
+except OSError:
+    report = None
+
+# SIGXCPU at the soft limit, SIGKILL a second later
+limit(resource.RLIMIT_CPU, cpu, cpu + 1)
+limit(resource.RLIMIT_AS, memory)
+limit(resource.RLIMIT_NOFILE, open_files)
+limit(resource.RLIMIT_FSIZE, file_size)
+# RLIMIT_NPROC counts every process of the user, so allow for the ones that
+# already exist and the program's own
+if processes > 0:
+    limit(resource.RLIMIT_NPROC, own_processes() + processes + 1)
+
+wrapper = os.getpid()
+pid = os.fork()
+if pid == 0:
+    # Die together with this process: on a terminal the program has a session
+    # of its own, so killing the process group around it does not reach it
+    try:
+        ctypes.CDLL(None).prctl(1, signal.SIGKILL)
+    except Exception:
+        pass
+    if os.getppid() != wrapper:
+        os._exit(1)
+    if report is not None:
+        os.close(report)
+    os.execvp(command[0], command)
+
+# Signals for the program, like Ctrl+C on a terminal, reach this process too;
+# it waits for the program to end instead
+for signum in (signal.SIGINT, signal.SIGQUIT, signal.SIGTERM, signal.SIGHUP, signal.SIGTSTP):
+    signal.signal(signum, signal.SIG_IGN)
+
+while True:
+    try:
+        _, status, usage = os.wait4(pid, 0)
+        break
+    except InterruptedError:
+        continue
+
+if report is not None:
+    os.write(report, ("usage %.3f %d\n" % (usage.ru_utime + usage.ru_stime, usage.ru_maxrss)).encode())
+    os.close(report)
+
+if os.WIFSIGNALED(status):
+    signum = os.WTERMSIG(status)
+    # Ending by SIGXCPU must not leave a core dump in the working directory
+    resource.setrlimit(resource.RLIMIT_CORE, (0, 0))
+    # SIGKILL and SIGSTOP cannot be handled, so they need no resetting
+    if signum not in (signal.SIGKILL, signal.SIGSTOP):
+        signal.signal(signum, signal.SIG_DFL)
+    os.kill(os.getpid(), signum)
+sys.exit(os.WEXITSTATUS(status))
+`;
+
+// What a run used, as reported by the wrapper above
+export interface ResourceUsage {
+  cpuSeconds: number;
+  maxRssBytes: number;
+}
+
+export function parseResourceUsage(report: string): ResourceUsage | null {
+  const match = /^usage (\d+(?:\.\d+)?) (\d+)$/m.exec(report);
+  return match ? { cpuSeconds: parseFloat(match[1]), maxRssBytes: parseInt(match[2]) * 1024 } : null;
+}
+
+let pythonPrefix: Promise<string> | null = null;
+
+// The directory python3 is installed under, which has to be visible inside
+// the sandbox when it does not live in /usr
+function getPythonPrefix(): Promise<string> {
+  pythonPrefix ??= execFileAsync("python3", ["-c", "import sys; print(sys.base_prefix)"])
+    .then(({ stdout }) => stdout.trim());
+  return pythonPrefix;
+}
+
+async function bubblewrapArgs(workDir: string, newSession: boolean, sourceDir?: string): Promise<string[]> {
+  const prefix = await getPythonPrefix();
+  const readOnly = ["/usr", "/bin", "/lib", "/lib64", "/sbin", "/etc/alternatives", "/etc/ld.so.cache", "/etc/localtime"];
+  if (!readOnly.some((dir) => prefix === dir || prefix.startsWith(dir + path.sep))) {
+    readOnly.push(prefix);
+  }
+
+  return [
+    "--die-with-parent",
+    // New user, PID, network, IPC and UTS namespaces: no network access
+    "--unshare-all",
+    ...(newSession ? ["--new-session"] : []),
+    ...readOnly.flatMap((dir) => ["--ro-bind-try", dir, dir]),
+    "--proc", "/proc",
+    "--dev", "/dev",
+    "--tmpfs", "/tmp",
+    ...(sourceDir ? ["--ro-bind", sourceDir, sourceDir] : []),
+    "--bind", workDir, workDir,
+    "--chdir", workDir,
+  ];
+}
+
+const interpreterVersions = new Map<string, Promise<string | null>>();
+
+// What an interpreter reports as its version, e.g. "Python 3.11.7", or null
+// when it is not installed. Older interpreters print it to stderr.
+export function getInterpreterVersion(interpreter: string): Promise<string | null> {
+  let version = interpreterVersions.get(interpreter);
+  if (!version) {
+    version = execFileAsync(interpreter, ["--version"])
+      .then(({ stdout, stderr }) => (stdout || stderr).trim() || null, () => null);
+    interpreterVersions.set(interpreter, version);
+  }
+  return version;
+}
+
+let bubblewrapAvailable: Promise<boolean> | null = null;
+
+// bubblewrap needs unprivileged user namespaces, which many containers turn
+// off, so it is tried once before being relied on
+function isBubblewrapAvailable(): Promise<boolean> {
+  bubblewrapAvailable ??= (async () => {
+    try {
+      const probeDir = await fs.mkdtemp(path.join(await fs.realpath("/tmp"), "sandbox-probe-"));
+      try {
+        await execFileAsync("bwrap", [...await bubblewrapArgs(probeDir, true), "true"]);
+        return true;
+      } finally {
+        await fs.rm(probeDir, { recursive: true, force: true });
+      }
+    } catch (error) {
+      return false;
+    }
+  })();
+  return bubblewrapAvailable;
+}
+
+export class SandboxUnavailableError extends Error {
+  constructor() {
+    super("The bubblewrap sandbox is not available on this host");
+  }
+}
+
+let warnedAboutFallback = false;
+
+// Wraps a command so it runs with the configured resource limits and, when
+// possible, isolated from the network and the rest of the filesystem, seeing
+// only its working directory and, read-only, the source directory. Runs on a
+// pseudo-terminal keep the session so Ctrl+C still reaches the program.
+export async function sandboxCommand(
+  command: string[],
+  workDir: string,
+  options: { sourceDir?: string; terminal?: boolean; memoryBytes?: number; fileSizeBytes?: number } = {},
+): Promise<string[]> {
+  const limits = config.sandbox;
+  const limited = [
+    "python3", "-c", RLIMITS_SOURCE,
+    String(limits.cpuSeconds),
+    String(options.memoryBytes ?? limits.memoryBytes),
+    String(limits.maxProcesses),
+    String(limits.maxOpenFiles),
+    String(options.fileSizeBytes ?? config.workspace.quotaBytes),
+    ...command,
+  ];
+
+  if (limits.mode === "rlimits") {
+    return limited;
+  }
+
+  if (await isBubblewrapAvailable()) {
+    return ["bwrap", ...await bubblewrapArgs(workDir, !options.terminal, options.sourceDir), ...limited];
+  }
+
+  if (limits.mode === "bubblewrap") {
+    throw new SandboxUnavailableError();
+  }
+
+  if (!warnedAboutFallback) {
+    warnedAboutFallback = true;
+    console.warn("bubblewrap is not available, running programs with resource limits only");
+  }
+  return limited;
+}
+
+export function isAllowedEnvName(name: string): boolean {
+  return config.sandbox.envAllowList.some((allowed) =>
+    allowed.endsWith("*") ? name.startsWith(allowed.slice(0, -1)) : name === allowed);
+}
+
+// Only what programs need from the server's environment, so secrets such as
+// DATABASE_URL or SESSION_SECRET never reach them. Variables the run asked
+// for come first, so they cannot replace the ones the sandbox relies on.
+export function sandboxEnv(workDir: string, extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  return {
+    ...extra,
+    PATH: process.env.PATH ?? "/usr/local/bin:/usr/bin:/bin",
+    LANG: process.env.LANG ?? "C.UTF-8",
+    HOME: workDir,
+    TMPDIR: "/tmp",
+    PYTHONUNBUFFERED: "1",
+    // Lets programs like `clear` emit the escape sequences the output views interpret
+    TERM: "xterm-256color",
+  };
+}
+
+const CPU_TIME_SLACK_SECONDS = 0.1;
+
+// Works out which limit stopped a failed run from how it ended and what it
+// used. Python turns most breaches into exceptions, so their messages are
+// checked as well.
+export function detectLimitBreach(
+  signal: string | null,
+  output: string,
+  usage: ResourceUsage | null,
+  memoryBytes: number,
+): ExecutionLimit | null {
+  if (signal === "SIGXCPU" || signal === "SIGKILL") {
+    // The CPU limit ends a program with SIGXCPU and then SIGKILL, but so can
+    // the kernel running out of memory or the program itself. The measured
+    // time is counted in clock ticks and can come out a little short.
+    if (usage && usage.cpuSeconds >= config.sandbox.cpuSeconds - CPU_TIME_SLACK_SECONDS) {
+      return "cpu";
+    }
+    if (signal === "SIGKILL" && usage && usage.maxRssBytes >= memoryBytes * 0.9) {
+      return "memory";
+    }
+  }
+  if (signal === "SIGXFSZ") {
+    return "file_size";
+  }
+
+  const tail = output.slice(-2000);
+  if (/\bMemoryError\b|Cannot allocate memory/.test(tail)) return "memory";
+  if (/\[Errno 24\]|Too many open files/.test(tail)) return "open_files";
+  if (/\[Errno 11\] Resource temporarily unavailable/.test(tail)) return "processes";
+  if (/\[Errno 27\]|File too large/.test(tail)) return "file_size";
+  return null;
+}
+
+type LimitSettings = Pick<ExecutionSettings, "memoryBytes" | "maxOutputBytes">;
+
+const LIMIT_DESCRIPTIONS: Record<ExecutionLimit, (settings: LimitSettings) => string> = {
+  cpu: () => `CPU time limit of ${config.sandbox.cpuSeconds} seconds exceeded`,
+  memory: ({ memoryBytes }) => `Memory limit of ${Math.round(memoryBytes / 1024 / 1024)} MB exceeded`,
+  processes: () => `Process limit of ${config.sandbox.maxProcesses} exceeded`,
+  open_files: () => `Open file limit of ${config.sandbox.maxOpenFiles} exceeded`,
+  file_size: () => `File size limit of ${Math.round(config.workspace.quotaBytes / 1024)} KB exceeded`,
+  output: ({ maxOutputBytes }) => `Output limit of ${Math.round(maxOutputBytes / 1024)} KB exceeded`,
+  workspace: () => `Workspace quota of ${Math.round(config.workspace.quotaBytes / 1024)} KB exceeded`,
+};
+
+// The program's own memory and output limits are passed in, since they can
+// differ from the server's defaults
+export function describeLimit(limit: ExecutionLimit, settings: LimitSettings): string {
+  return LIMIT_DESCRIPTIONS[limit](settings);
+}
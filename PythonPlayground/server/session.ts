@@ -0,0 +1,34 @@
+import session from "express-session";
+import MemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import { config } from "./config";
+
+function createSessionStore(): session.Store {
+  if (config.session.store === "database") {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      conString: config.databaseUrl,
+      tableName: "sessions", // created by `npm run db:push` from shared/schema.ts
+      createTableIfMissing: false,
+      ttl: Math.ceil(config.session.cookie.maxAge / 1000),
+    });
+  }
+
+  const MemStore = MemoryStore(session);
+  return new MemStore({
+    checkPeriod: 86400000 // prune expired entries every 24h
+  });
+}
+
+export const sessionMiddleware = session({
+  secret: config.session.secret,
+  resave: false,
+  saveUninitialized: false,
+  store: createSessionStore(),
+  cookie: {
+    secure: config.session.cookie.secure,
+    httpOnly: true,
+    sameSite: config.session.cookie.sameSite,
+    maxAge: config.session.cookie.maxAge,
+  }
+});
@@ -0,0 +1,441 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ES module build cannot load its own dependencies, so the
+// CommonJS one is used to turn the schema into tables
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+// Both storages have to behave the same, so every test below runs against each
+// of them. A test gets an empty storage; the PGlite database is started once
+// and emptied between tests, which is much faster than starting it again.
+interface StorageUnderTest {
+  setup?: () => Promise<void>;
+  create: () => Promise<IStorage>;
+  teardown?: () => Promise<void>;
+}
+
+function memoryStorage(): StorageUnderTest {
+  return { create: async () => new MemStorage() };
+}
+
+function pgliteStorage(): StorageUnderTest {
+  const client = new PGlite();
+  return {
+    setup: async () => {
+      const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+      for (const statement of statements) {
+        await client.exec(statement);
+      }
+    },
+    create: async () => {
+      const { rows } = await client.query<{ tablename: string }>("SELECT tablename FROM pg_tables WHERE schemaname = 'public'");
+      await client.exec(`TRUNCATE ${rows.map(({ tablename }) => `"${tablename}"`).join(", ")} RESTART IDENTITY CASCADE`);
+      return new DatabaseStorage(drizzle(client, { schema }));
+    },
+    teardown: () => client.close(),
+  };
+}
+
+const program = (name: string, content = "print('hi')\n") => ({ name, content, size: content.length });
+
+function describeStorage(name: string, underTest: StorageUnderTest) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    before(async () => {
+      await underTest.setup?.();
+    });
+
+    beforeEach(async () => {
+      storage = await underTest.create();
+    });
+
+    after(async () => {
+      await underTest.teardown?.();
+    });
+
+    const createUser = (username: string, role = "user") =>
+      storage.createUser({ username, password: "password123", role });
+
+    describe("users", () => {
+      it("stores hashed passwords and authenticates with them", async () => {
+        const user = await createUser("alice");
+        assert.notEqual(user.password, "password123");
+        assert.equal(user.mustChangePassword, false);
+        assert.equal(user.disabled, false);
+
+        assert.equal((await storage.authenticateUser("alice", "password123"))?.id, user.id);
+        assert.equal(await storage.authenticateUser("alice", "wrong"), null);
+        assert.equal(await storage.authenticateUser("nobody", "password123"), null);
+      });
+
+      it("finds users by id and name and lists them by name", async () => {
+        const bob = await createUser("bob");
+        const alice = await createUser("alice", "admin");
+
+        assert.equal((await storage.getUser(bob.id))?.username, "bob");
+        assert.equal((await storage.getUserByUsername("alice"))?.role, "admin");
+        assert.equal(await storage.getUserByUsername("carol"), undefined);
+        assert.deepEqual((await storage.getAllUsers()).map((user) => user.id), [alice.id, bob.id]);
+        assert.equal(await storage.getUserCount(), 2);
+      });
+
+      it("refuses disabled users", async () => {
+        const user = await createUser("alice");
+        const updated = await storage.updateUser(user.id, { disabled: true, role: "teacher" });
+        assert.equal(updated?.disabled, true);
+        assert.equal(updated?.role, "teacher");
+        assert.equal(await storage.authenticateUser("alice", "password123"), null);
+        assert.equal(await storage.updateUser(user.id + 100, { disabled: true }), undefined);
+      });
+
+      it("changes passwords", async () => {
+        const user = await createUser("alice");
+        const updated = await storage.updateUserPassword(user.id, "password456", true);
+        assert.equal(updated?.mustChangePassword, true);
+        assert.equal(await storage.authenticateUser("alice", "password123"), null);
+        assert.equal((await storage.authenticateUser("alice", "password456"))?.id, user.id);
+      });
+
+      it("deletes users together with their tokens, memberships and permissions", async () => {
+        const user = await createUser("alice");
+        const group = await storage.createGroup({ name: "class" });
+        await storage.setGroupMembers(group.id, { userIds: [user.id] });
+        const file = await storage.createPythonFile(program("a.py"));
+        await storage.setProgramPermissions(file.id, { defaultAccess: "none", entries: [{ userId: user.id, groupId: null, access: "edit" }] });
+        await storage.createApiToken({ userId: user.id, name: "ci", tokenHash: "hash", prefix: "pyl_", scopes: ["execute"], expiresAt: null });
+
+        assert.equal(await storage.deleteUser(user.id), true);
+        assert.equal(await storage.getUser(user.id), undefined);
+        assert.equal(await storage.getApiTokenByHash("hash"), undefined);
+        assert.deepEqual((await storage.getGroup(group.id))?.memberIds, []);
+        assert.deepEqual((await storage.getProgramPermissions(file.id))?.entries, []);
+        assert.equal(await storage.deleteUser(user.id), false);
+      });
+    });
+
+    describe("personal access tokens", () => {
+      it("finds tokens by hash, records their use and only lets their owner delete them", async () => {
+        const alice = await createUser("alice");
+        const bob = await createUser("bob");
+        const token = await storage.createApiToken({ userId: alice.id, name: "ci", tokenHash: "hash", prefix: "pyl_", scopes: ["files:read"], expiresAt: null });
+        assert.equal(token.lastUsedAt, null);
+        assert.deepEqual((await storage.getApiTokenByHash("hash"))?.scopes, ["files:read"]);
+        assert.deepEqual((await storage.getApiTokens(alice.id)).map((apiToken) => apiToken.id), [token.id]);
+        assert.deepEqual(await storage.getApiTokens(bob.id), []);
+
+        await storage.touchApiToken(token.id);
+        assert.ok((await storage.getApiTokenByHash("hash"))?.lastUsedAt instanceof Date);
+
+        assert.equal(await storage.deleteApiToken(token.id, bob.id), false);
+        assert.equal(await storage.deleteApiToken(token.id, alice.id), true);
+        assert.equal(await storage.getApiTokenByHash("hash"), undefined);
+      });
+    });
+
+    describe("programs and revisions", () => {
+      it("creates programs with default settings and a first revision", async () => {
+        const file = await storage.createPythonFile(program("a.py"));
+        assert.equal(file.revision, 1);
+        assert.equal(file.projectId, null);
+        assert.equal(file.groupId, null);
+        assert.equal(file.defaultAccess, "view");
+        assert.equal(file.timeoutMs, null);
+        assert.equal((await storage.getPythonFile(file.id))?.content, "print('hi')\n");
+        assert.deepEqual((await storage.getFileRevisions(file.id)).map((revision) => revision.revision), [1]);
+      });
+
+      it("keeps every saved version and restores one as a new revision", async () => {
+        const file = await storage.createPythonFile(program("a.py", "v1"));
+        const updated = await storage.updatePythonFile(file.id, program("b.py", "v2"));
+        assert.equal(updated?.revision, 2);
+        assert.equal(updated?.name, "b.py");
+
+        const revisions = await storage.getFileRevisions(file.id);
+        assert.deepEqual(revisions.map((revision) => revision.revision), [2, 1]);
+        assert.ok(!("content" in revisions[0]));
+        assert.equal((await storage.getFileRevision(file.id, 1))?.content, "v1");
+        assert.equal(await storage.getFileRevision(file.id, 5), undefined);
+
+        const restored = await storage.restoreFileRevision(file.id, 1);
+        assert.equal(restored?.revision, 3);
+        assert.equal(restored?.content, "v1");
+        assert.equal(restored?.name, "a.py");
+        assert.equal((await storage.getFileRevisions(file.id))[0].restoredFrom, 1);
+        assert.equal(await storage.restoreFileRevision(file.id, 9), undefined);
+        assert.equal(await storage.updatePythonFile(file.id + 100, program("a.py")), undefined);
+      });
+
+      it("changes execution settings without saving a revision", async () => {
+        const file = await storage.createPythonFile(program("a.py"));
+        const updated = await storage.updateExecutionSettings(file.id, { timeoutMs: 5000, allowInteractive: false });
+        assert.equal(updated?.timeoutMs, 5000);
+        assert.equal(updated?.allowInteractive, false);
+        assert.equal(updated?.memoryMb, null);
+        assert.equal(updated?.revision, 1);
+
+        const cleared = await storage.updateExecutionSettings(file.id, { timeoutMs: null });
+        assert.equal(cleared?.timeoutMs, null);
+        assert.equal(cleared?.allowInteractive, false);
+      });
+
+      it("deletes programs together with their revisions, run configurations and run history", async () => {
+        const file = await storage.createPythonFile(program("a.py"));
+        const runConfig = await storage.createRunConfig(file.id, { name: "fast", args: [], env: {}, stdin: null, timeoutMs: null, interpreter: null });
+        await storage.createExecution({ fileId: file.id, status: "success" });
+        const other = await storage.createPythonFile(program("b.py"));
+        await storage.createExecution({ fileId: other.id, status: "success" });
+        assert.equal(await storage.deletePythonFile(file.id), true);
+        assert.equal(await storage.getPythonFile(file.id), undefined);
+        assert.deepEqual(await storage.getFileRevisions(file.id), []);
+        assert.equal(await storage.getRunConfig(runConfig.id), undefined);
+        assert.deepEqual(await storage.getExecutionsForFile(file.id), []);
+        assert.equal((await storage.getExecutionsForFile(other.id)).length, 1);
+        assert.equal(await storage.deletePythonFile(file.id), false);
+      });
+    });
+
+    describe("access control", () => {
+      it("gives admins everything and others the program's default access", async () => {
+        const admin = await createUser("admin", "admin");
+        const user = await createUser("alice");
+        const file = await storage.createPythonFile(program("a.py"));
+        assert.equal(await storage.getProgramAccess(file, admin), "manage");
+        assert.equal(await storage.getProgramAccess(file, user), "view");
+
+        await storage.setProgramPermissions(file.id, { defaultAccess: "none", entries: [] });
+        assert.equal(await storage.getProgramAccess((await storage.getPythonFile(file.id))!, user), null);
+        assert.equal(await storage.getProgramAccess((await storage.getPythonFile(file.id))!, admin), "manage");
+      });
+
+      it("gives users the most their own and their groups' entries allow", async () => {
+        const alice = await createUser("alice");
+        const bob = await createUser("bob");
+        const carol = await createUser("carol");
+        const group = await storage.createGroup({ name: "class" });
+        await storage.setGroupMembers(group.id, { userIds: [alice.id, bob.id] });
+        const file = await storage.createPythonFile(program("a.py"));
+
+        const permissions = await storage.setProgramPermissions(file.id, {
+          defaultAccess: "none",
+          entries: [
+            { userId: null, groupId: group.id, access: "run" },
+            { userId: alice.id, groupId: null, access: "edit" },
+          ],
+        });
+        assert.equal(permissions?.defaultAccess, "none");
+        assert.equal(permissions?.entries.length, 2);
+
+        const saved = (await storage.getPythonFile(file.id))!;
+        assert.equal(await storage.getProgramAccess(saved, alice), "edit");
+        assert.equal(await storage.getProgramAccess(saved, bob), "run");
+        assert.equal(await storage.getProgramAccess(saved, carol), null);
+        assert.equal(await storage.setProgramPermissions(file.id + 100, { defaultAccess: "run", entries: [] }), undefined);
+      });
+
+      it("lists only visible programs and leaves out the code of run-only ones", async () => {
+        const user = await createUser("alice");
+        const hidden = await storage.createPythonFile(program("hidden.py"));
+        const runOnly = await storage.createPythonFile(program("run.py"));
+        const viewable = await storage.createPythonFile(program("view.py"));
+        await storage.setProgramPermissions(hidden.id, { defaultAccess: "none", entries: [] });
+        await storage.setProgramPermissions(runOnly.id, { defaultAccess: "run", entries: [] });
+
+        const files = await storage.getAllPythonFiles(user);
+        const byName = new Map(files.map((file) => [file.name, file]));
+        assert.deepEqual(Array.from(byName.keys()).sort(), ["run.py", "view.py"]);
+        assert.equal(byName.get("run.py")?.content, null);
+        assert.equal(byName.get("run.py")?.access, "run");
+        assert.equal(byName.get("view.py")?.content, viewable.content);
+      });
+
+      it("gives teachers full control of the programs of groups they own", async () => {
+        const teacher = await createUser("teacher", "teacher");
+        const group = await storage.createGroup({ name: "class" });
+        await storage.setGroupMembers(group.id, { userIds: [], ownerIds: [teacher.id] });
+        const owned = await storage.createPythonFile({ ...program("owned.py"), groupId: group.id });
+        const other = await storage.createPythonFile(program("other.py"));
+        assert.equal(await storage.getProgramAccess(owned, teacher), "manage");
+        assert.equal(await storage.getProgramAccess(other, teacher), "view");
+      });
+    });
+
+    describe("groups", () => {
+      it("keeps members and owners apart and lists groups by name", async () => {
+        const alice = await createUser("alice");
+        const bob = await createUser("bob");
+        const second = await storage.createGroup({ name: "b-class" });
+        const first = await storage.createGroup({ name: "a-class" });
+
+        const details = await storage.setGroupMembers(second.id, { userIds: [alice.id, bob.id], ownerIds: [bob.id] });
+        assert.deepEqual(details?.memberIds, [alice.id]);
+        assert.deepEqual(details?.ownerIds, [bob.id]);
+
+        // Owners stay when they are not given
+        const kept = await storage.setGroupMembers(second.id, { userIds: [] });
+        assert.deepEqual(kept?.memberIds, []);
+        assert.deepEqual(kept?.ownerIds, [bob.id]);
+
+        assert.deepEqual((await storage.getAllGroups()).map((group) => group.id), [first.id, second.id]);
+        assert.equal(await storage.setGroupMembers(second.id + 100, { userIds: [] }), undefined);
+      });
+
+      it("deletes groups together with their permissions and leaves their programs", async () => {
+        const alice = await createUser("alice");
+        const group = await storage.createGroup({ name: "class" });
+        await storage.setGroupMembers(group.id, { userIds: [alice.id] });
+        const file = await storage.createPythonFile({ ...program("a.py"), groupId: group.id });
+        await storage.setProgramPermissions(file.id, { defaultAccess: "none", entries: [{ userId: null, groupId: group.id, access: "run" }] });
+
+        assert.equal(await storage.deleteGroup(group.id), true);
+        assert.equal(await storage.getGroup(group.id), undefined);
+        assert.equal((await storage.getPythonFile(file.id))?.groupId, null);
+        assert.deepEqual((await storage.getProgramPermissions(file.id))?.entries, []);
+        assert.equal(await storage.getProgramAccess((await storage.getPythonFile(file.id))!, alice), null);
+        assert.equal(await storage.deleteGroup(group.id), false);
+      });
+    });
+
+    describe("projects", () => {
+      const createProject = () => storage.createProject({
+        name: "game",
+        groupId: null,
+        entryPoint: "main.py",
+        files: [
+          { path: "main.py", content: "import lib\n", encoding: "utf8" },
+          { path: "lib.py", content: "x = 1\n", encoding: "utf8" },
+          { path: "data/level.txt", content: "###\n", encoding: "utf8" },
+          { path: "logo.png", content: Buffer.from([1, 2, 3]).toString("base64"), encoding: "base64" },
+        ],
+      });
+
+      it("keeps Python sources as programs and everything else as data", async () => {
+        const project = await createProject();
+        const sources = await storage.getProjectPythonFiles(project.id);
+        assert.deepEqual(sources.map((file) => file.name), ["lib.py", "main.py"]);
+        assert.equal(project.entryFileId, sources[1].id);
+        assert.ok(sources.every((file) => file.projectId === project.id && file.revision === 1));
+
+        const dataFiles = await storage.getProjectDataFiles(project.id);
+        assert.deepEqual(dataFiles.map((file) => [file.path, file.encoding, file.size]), [
+          ["data/level.txt", "utf8", 4],
+          ["logo.png", "base64", 3],
+        ]);
+
+        // Only the entry point is listed among the programs
+        const admin = await createUser("admin", "admin");
+        assert.deepEqual((await storage.getAllPythonFiles(admin)).map((file) => file.name), ["main.py"]);
+        assert.deepEqual((await storage.getAllProjects(admin)).map((listed) => listed.id), [project.id]);
+      });
+
+      it("keeps the permissions of all its files on the entry point", async () => {
+        const user = await createUser("alice");
+        const project = await createProject();
+        const [lib, main] = await storage.getProjectPythonFiles(project.id);
+
+        await storage.setProgramPermissions(lib.id, { defaultAccess: "none", entries: [] });
+        assert.equal((await storage.getPythonFile(main.id))?.defaultAccess, "none");
+        assert.equal(await storage.getProgramAccess(lib, user), null);
+        assert.deepEqual(await storage.getAllProjects(user), []);
+
+        // Choosing another entry point takes the permissions along
+        await storage.setProgramPermissions(main.id, { defaultAccess: "none", entries: [{ userId: user.id, groupId: null, access: "run" }] });
+        const updated = await storage.updateProject(project.id, { name: "renamed", entryFileId: lib.id });
+        assert.equal(updated?.name, "renamed");
+        assert.equal(updated?.entryFileId, lib.id);
+        const permissions = await storage.getProgramPermissions(lib.id);
+        assert.equal(permissions?.defaultAccess, "none");
+        assert.deepEqual(permissions?.entries.map((entry) => [entry.fileId, entry.userId, entry.access]), [[lib.id, user.id, "run"]]);
+        assert.equal(await storage.getProgramAccess((await storage.getPythonFile(main.id))!, user), "run");
+      });
+
+      it("deletes projects together with their files and their run history", async () => {
+        const project = await createProject();
+        const sources = await storage.getProjectPythonFiles(project.id);
+        await storage.createExecution({ fileId: sources[0].id, status: "error" });
+        assert.equal(await storage.deleteProject(project.id), true);
+        assert.equal(await storage.getProject(project.id), undefined);
+        assert.equal(await storage.getPythonFile(sources[0].id), undefined);
+        assert.deepEqual(await storage.getExecutionsForFile(sources[0].id), []);
+        assert.deepEqual(await storage.getProjectDataFiles(project.id), []);
+        assert.equal(await storage.deleteProject(project.id), false);
+        assert.equal(await storage.updateProject(project.id, { name: "gone" }), undefined);
+      });
+    });
+
+    describe("run configurations", () => {
+      it("saves, lists by name, changes and deletes them", async () => {
+        const file = await storage.createPythonFile(program("a.py"));
+        const slow = await storage.createRunConfig(file.id, { name: "slow", args: ["--slow"], env: { DEBUG: "1" }, stdin: "input", timeoutMs: 5000, interpreter: null });
+        const fast = await storage.createRunConfig(file.id, { name: "fast", args: [], env: {}, stdin: null, timeoutMs: null, interpreter: "python3" });
+        assert.deepEqual(slow.args, ["--slow"]);
+        assert.deepEqual(slow.env, { DEBUG: "1" });
+        assert.deepEqual((await storage.getRunConfigs(file.id)).map((runConfig) => runConfig.id), [fast.id, slow.id]);
+
+        const updated = await storage.updateRunConfig(slow.id, { stdin: null, args: [] });
+        assert.equal(updated?.stdin, null);
+        assert.deepEqual(updated?.args, []);
+        assert.equal(updated?.timeoutMs, 5000);
+
+        assert.equal(await storage.deleteRunConfig(fast.id), true);
+        assert.equal(await storage.deleteRunConfig(fast.id), false);
+        assert.equal(await storage.updateRunConfig(fast.id, { name: "gone" }), undefined);
+        assert.deepEqual((await storage.getRunConfigs(file.id)).map((runConfig) => runConfig.id), [slow.id]);
+      });
+    });
+
+    describe("executions", () => {
+      it("records runs and lists them newest first", async () => {
+        const file = await storage.createPythonFile(program("a.py"));
+        assert.equal(await storage.getLatestExecution(file.id), undefined);
+
+        const first = await storage.createExecution({ fileId: file.id, output: "hi\n", error: null, executionTime: 12, status: "success", exitCode: 0 });
+        assert.equal(first.timedOut, false);
+        assert.equal(first.signal, null);
+        assert.equal(first.traceback, null);
+
+        const traceback = { exceptionType: "ValueError", message: "bad", frames: [{ file: "a.py", fileId: file.id, line: 1, function: "<module>", code: "x" }] };
+        const second = await storage.createExecution({
+          fileId: file.id,
+          output: null,
+          error: "ValueError: bad",
+          executionTime: 5,
+          status: "error",
+          exitCode: 1,
+          args: ["--x"],
+          env: { DEBUG: "1" },
+          stdin: "in",
+          revision: 1,
+          traceback,
+        });
+        assert.deepEqual(second.traceback, traceback);
+        assert.deepEqual(second.env, { DEBUG: "1" });
+
+        assert.deepEqual((await storage.getExecutionsForFile(file.id)).map((execution) => execution.id), [second.id, first.id]);
+        assert.equal((await storage.getLatestExecution(file.id))?.id, second.id);
+      });
+
+      it("lists one user's runs when asked", async () => {
+        const file = await storage.createPythonFile(program("a.py"));
+        const ann = await createUser("ann");
+        const bob = await createUser("bob");
+        const annRun = await storage.createExecution({ fileId: file.id, userId: ann.id, status: "success" });
+        const bobRun = await storage.createExecution({ fileId: file.id, userId: bob.id, status: "success" });
+        assert.equal(annRun.userId, ann.id);
+
+        assert.deepEqual((await storage.getExecutionsForFile(file.id, ann.id)).map((execution) => execution.id), [annRun.id]);
+        assert.deepEqual((await storage.getExecutionsForFile(file.id, bob.id)).map((execution) => execution.id), [bobRun.id]);
+        assert.equal((await storage.getExecutionsForFile(file.id)).length, 2);
+      });
+    });
+  });
+}
+
+describeStorage("MemStorage", memoryStorage());
+describeStorage("DatabaseStorage on PGlite", pgliteStorage());
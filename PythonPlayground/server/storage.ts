@@ -1,55 +1,178 @@
-import { users, pythonFiles, executions, type User, type InsertUser, type PythonFile, type InsertPythonFile, type UpdatePythonFile, type Execution, type InsertExecution } from "@shared/schema";
+import { users, apiTokens, pythonFiles, pythonFileRevisions, executions, projects, projectFiles, runConfigs, groups, groupMembers, programPermissions, type User, type InsertUser, type UpdateUser, type PythonFile, type InsertPythonFile, type UpdatePythonFile, type UpdateExecutionSettings, type FileRevision, type FileRevisionSummary, type Execution, type InsertExecution, type Project, type ProjectFile, type ProjectFileInput, type InsertProject, type UpdateProject, type RunConfig, type InsertRunConfig, type UpdateRunConfig, type AccessUser, type ProgramAccess, type ProgramFile, type ProgramPermission, type ProgramPermissions, type UpdateProgramPermissions, type DefaultAccess, type Group, type GroupDetails, type GroupMember, type InsertGroup, type GroupMembers, type ApiToken, type InsertApiToken } from "@shared/schema";
+import * as schema from "@shared/schema";
+import { and, asc, count, desc, eq, getTableColumns, inArray, isNull, ne, or, sql } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { config } from "./config";
+import { hashPassword, verifyPassword } from "./passwords";
+import { strongestAccess, toProgramFile } from "@shared/access";
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  getUserCount(): Promise<number>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: UpdateUser): Promise<User | undefined>;
+  updateUserPassword(id: number, password: string, mustChangePassword?: boolean): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
   authenticateUser(username: string, password: string): Promise<User | null>;
+
+  // Personal access tokens (deleted together with their user). Tokens are
+  // looked up by hash; expired ones are found too and refused by the caller.
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(apiToken: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(id: number): Promise<void>; // records that it was just used
+  deleteApiToken(id: number, userId: number): Promise<boolean>;
   
-  // Python files
-  getAllPythonFiles(): Promise<PythonFile[]>;
+  // Python files (getAllPythonFiles lists the standalone files and project
+  // entry points the user may see, without the code of run-only ones)
+  getAllPythonFiles(user: AccessUser): Promise<ProgramFile[]>;
   getPythonFile(id: number): Promise<PythonFile | undefined>;
   createPythonFile(file: InsertPythonFile): Promise<PythonFile>;
-  updatePythonFile(id: number, file: UpdatePythonFile): Promise<PythonFile | undefined>;
+  updatePythonFile(id: number, file: UpdatePythonFile): Promise<PythonFile | undefined>; // records a new revision
+  updateExecutionSettings(id: number, settings: UpdateExecutionSettings): Promise<PythonFile | undefined>;
   deletePythonFile(id: number): Promise<boolean>;
+
+  // Saved versions of a program's code (deleted together with it)
+  getFileRevisions(fileId: number): Promise<FileRevisionSummary[]>; // newest first
+  getFileRevision(fileId: number, revision: number): Promise<FileRevision | undefined>;
+  restoreFileRevision(fileId: number, revision: number): Promise<PythonFile | undefined>;
+
+  // Access control. Admins may do everything with every program, and teachers
+  // with the programs of the groups they own; other users get the most its
+  // default access, their own entry and their groups' entries allow, and null
+  // when the program is hidden from them. A project's files go by the
+  // permissions of its entry point.
+  getProgramAccess(file: PythonFile, user: AccessUser): Promise<ProgramAccess | null>;
+  getProgramPermissions(fileId: number): Promise<ProgramPermissions | undefined>;
+  setProgramPermissions(fileId: number, permissions: UpdateProgramPermissions): Promise<ProgramPermissions | undefined>;
+
+  // Groups of users (deleting a group or a user removes their memberships and
+  // permissions; the programs of a deleted group are left to admins)
+  getAllGroups(): Promise<GroupDetails[]>;
+  getGroup(id: number): Promise<GroupDetails | undefined>;
+  createGroup(group: InsertGroup): Promise<GroupDetails>;
+  setGroupMembers(id: number, members: GroupMembers): Promise<GroupDetails | undefined>;
+  deleteGroup(id: number): Promise<boolean>;
+
+  // Projects (getAllProjects lists those whose entry point the user may see)
+  getAllProjects(user: AccessUser): Promise<Project[]>;
+  getProject(id: number): Promise<Project | undefined>;
+  getProjectPythonFiles(projectId: number): Promise<PythonFile[]>;
+  getProjectDataFiles(projectId: number): Promise<ProjectFile[]>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: number, project: UpdateProject): Promise<Project | undefined>;
+  deleteProject(id: number): Promise<boolean>;
+
+  // Saved run configurations of a program (deleted together with it)
+  getRunConfigs(fileId: number): Promise<RunConfig[]>;
+  getRunConfig(id: number): Promise<RunConfig | undefined>;
+  createRunConfig(fileId: number, runConfig: InsertRunConfig): Promise<RunConfig>;
+  updateRunConfig(id: number, runConfig: UpdateRunConfig): Promise<RunConfig | undefined>;
+  deleteRunConfig(id: number): Promise<boolean>;
   
   // Executions
-  getExecutionsForFile(fileId: number): Promise<Execution[]>;
+  // Every user's runs of the program, or only the given user's
+  getExecutionsForFile(fileId: number, userId?: number): Promise<Execution[]>;
   createExecution(execution: InsertExecution): Promise<Execution>;
   getLatestExecution(fileId: number): Promise<Execution | undefined>;
 }
 
+// Python sources become python_files rows so they can be edited and run on
+// their own; everything else is kept as project data
+const isPythonSource = (file: ProjectFileInput) => file.path.endsWith(".py") && file.encoding === "utf8";
+
+// New programs use the server's default execution settings
+const defaultExecutionSettings = {
+  timeoutMs: null,
+  memoryMb: null,
+  maxOutputBytes: null,
+  allowInteractive: null,
+};
+
+// The revision row recording a file's current code
+const revisionOf = (file: PythonFile, restoredFrom: number | null = null): Omit<FileRevision, "id"> => ({
+  fileId: file.id,
+  revision: file.revision,
+  name: file.name,
+  content: file.content,
+  size: file.size,
+  restoredFrom,
+  createdAt: file.updatedAt,
+});
+
+const withoutContent = ({ content, ...revision }: FileRevision): FileRevisionSummary => revision;
+
+// Permission entries as far as working out access needs them
+type Grant = Pick<ProgramPermission, "fileId" | "access">;
+
+// What the user may do with a standalone file or project entry point, given
+// the entries that name them or one of their groups and, for teachers, the
+// programs of the groups they own
+const accessOf = (program: PythonFile, user: AccessUser, grants: Grant[]): ProgramAccess | null =>
+  user.role === "admin"
+    ? "manage"
+    : strongestAccess([program.defaultAccess, ...grants.filter(grant => grant.fileId === program.id).map(grant => grant.access)]);
+
+const withAccess = (files: PythonFile[], user: AccessUser, grants: Grant[]): ProgramFile[] =>
+  files.flatMap(file => {
+    const access = accessOf(file, user, grants);
+    return access ? [toProgramFile(file, access)] : [];
+  });
+
+const byteSize = (file: ProjectFileInput) =>
+  Buffer.byteLength(file.content, file.encoding === "base64" ? "base64" : "utf8");
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private apiTokens: Map<number, ApiToken>;
   private pythonFiles: Map<number, PythonFile>;
+  private projects: Map<number, Project>;
+  private projectFiles: Map<number, ProjectFile>;
+  private runConfigs: Map<number, RunConfig>;
+  private fileRevisions: Map<number, FileRevision>;
+  private groups: Map<number, Group>;
+  private groupMembers: Map<number, Set<number>>; // user ids by group id
+  private groupOwners: Map<number, Set<number>>;
+  private programPermissions: Map<number, ProgramPermission>;
   private executions: Map<number, Execution>;
   private currentUserId: number;
+  private currentApiTokenId: number;
   private currentFileId: number;
+  private currentProjectId: number;
+  private currentProjectFileId: number;
+  private currentRunConfigId: number;
+  private currentFileRevisionId: number;
+  private currentGroupId: number;
+  private currentProgramPermissionId: number;
   private currentExecutionId: number;
 
   constructor() {
     this.users = new Map();
+    this.apiTokens = new Map();
     this.pythonFiles = new Map();
+    this.projects = new Map();
+    this.projectFiles = new Map();
+    this.runConfigs = new Map();
+    this.fileRevisions = new Map();
+    this.groups = new Map();
+    this.groupMembers = new Map();
+    this.groupOwners = new Map();
+    this.programPermissions = new Map();
     this.executions = new Map();
     this.currentUserId = 1;
+    this.currentApiTokenId = 1;
     this.currentFileId = 1;
+    this.currentProjectId = 1;
+    this.currentProjectFileId = 1;
+    this.currentRunConfigId = 1;
+    this.currentFileRevisionId = 1;
+    this.currentGroupId = 1;
+    this.currentProgramPermissionId = 1;
     this.currentExecutionId = 1;
-    
-    // Create default users
-    setTimeout(async () => {
-      await this.createUser({
-        username: "admin",
-        password: "admin123",
-        role: "admin"
-      });
-      
-      await this.createUser({
-        username: "user",
-        password: "user123", 
-        role: "user"
-      });
-    }, 0);
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -62,23 +185,112 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async getUserCount(): Promise<number> {
+    return this.users.size;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
     const user: User = { 
       id,
       username: insertUser.username,
-      password: insertUser.password,
+      password: await hashPassword(insertUser.password),
       role: insertUser.role || "user",
+      mustChangePassword: insertUser.mustChangePassword ?? false,
+      disabled: false,
       createdAt: new Date()
     };
     this.users.set(id, user);
     return user;
   }
 
-  async getAllPythonFiles(): Promise<PythonFile[]> {
-    return Array.from(this.pythonFiles.values()).sort((a, b) => 
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    );
+  async updateUser(id: number, updateUser: UpdateUser): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) {
+      return undefined;
+    }
+
+    const updatedUser: User = {
+      ...existingUser,
+      ...updateUser,
+    };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserPassword(id: number, password: string, mustChangePassword = false): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) {
+      return undefined;
+    }
+
+    const updatedUser: User = {
+      ...existingUser,
+      password: await hashPassword(password),
+      mustChangePassword,
+    };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    for (const members of Array.from(this.groupMembers.values()).concat(Array.from(this.groupOwners.values()))) {
+      members.delete(id);
+    }
+    this.deletePermissionsWhere(permission => permission.userId === id);
+    for (const apiToken of Array.from(this.apiTokens.values())) {
+      if (apiToken.userId === id) this.apiTokens.delete(apiToken.id);
+    }
+    return this.users.delete(id);
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(apiToken => apiToken.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(apiToken => apiToken.tokenHash === tokenHash);
+  }
+
+  async createApiToken(insertApiToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.currentApiTokenId++;
+    const apiToken: ApiToken = {
+      ...insertApiToken,
+      id,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    };
+    this.apiTokens.set(id, apiToken);
+    return apiToken;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    const apiToken = this.apiTokens.get(id);
+    if (apiToken) {
+      this.apiTokens.set(id, { ...apiToken, lastUsedAt: new Date() });
+    }
+  }
+
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    if (this.apiTokens.get(id)?.userId !== userId) {
+      return false;
+    }
+    return this.apiTokens.delete(id);
+  }
+
+  async getAllPythonFiles(user: AccessUser): Promise<ProgramFile[]> {
+    const files = Array.from(this.pythonFiles.values())
+      .filter(file => file.projectId === null || this.projects.get(file.projectId)?.entryFileId === file.id)
+      .sort((a, b) => 
+        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+      );
+    return withAccess(files, user, this.grantsOf(user));
   }
 
   async getPythonFile(id: number): Promise<PythonFile | undefined> {
@@ -90,15 +302,25 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const file: PythonFile = {
       ...insertFile,
+      ...defaultExecutionSettings,
       id,
+      projectId: null,
+      groupId: insertFile.groupId ?? null,
+      revision: 1,
+      defaultAccess: "view",
       createdAt: now,
       updatedAt: now,
     };
     this.pythonFiles.set(id, file);
+    this.addRevision(file);
     return file;
   }
 
   async updatePythonFile(id: number, updateFile: UpdatePythonFile): Promise<PythonFile | undefined> {
+    return this.saveNewRevision(id, updateFile, null);
+  }
+
+  async updateExecutionSettings(id: number, settings: UpdateExecutionSettings): Promise<PythonFile | undefined> {
     const existingFile = this.pythonFiles.get(id);
     if (!existingFile) {
       return undefined;
@@ -106,7 +328,7 @@ export class MemStorage implements IStorage {
 
     const updatedFile: PythonFile = {
       ...existingFile,
-      ...updateFile,
+      ...settings,
       updatedAt: new Date(),
     };
     this.pythonFiles.set(id, updatedFile);
@@ -114,13 +336,353 @@ export class MemStorage implements IStorage {
   }
 
   async deletePythonFile(id: number): Promise<boolean> {
+    this.deleteRunConfigsOf(id);
+    this.deleteRevisionsOf(id);
+    this.deleteExecutionsOf(id);
+    this.deletePermissionsWhere(permission => permission.fileId === id);
     return this.pythonFiles.delete(id);
   }
 
-  async getExecutionsForFile(fileId: number): Promise<Execution[]> {
+  async getFileRevisions(fileId: number): Promise<FileRevisionSummary[]> {
+    return Array.from(this.fileRevisions.values())
+      .filter(revision => revision.fileId === fileId)
+      .sort((a, b) => b.revision - a.revision)
+      .map(withoutContent);
+  }
+
+  async getFileRevision(fileId: number, revision: number): Promise<FileRevision | undefined> {
+    return Array.from(this.fileRevisions.values())
+      .find(fileRevision => fileRevision.fileId === fileId && fileRevision.revision === revision);
+  }
+
+  async restoreFileRevision(fileId: number, revision: number): Promise<PythonFile | undefined> {
+    const restored = await this.getFileRevision(fileId, revision);
+    if (!restored) {
+      return undefined;
+    }
+    return this.saveNewRevision(fileId, restored, revision);
+  }
+
+  private saveNewRevision(id: number, updateFile: UpdatePythonFile, restoredFrom: number | null): PythonFile | undefined {
+    const existingFile = this.pythonFiles.get(id);
+    if (!existingFile) {
+      return undefined;
+    }
+
+    const updatedFile: PythonFile = {
+      ...existingFile,
+      name: updateFile.name,
+      content: updateFile.content,
+      size: updateFile.size,
+      revision: existingFile.revision + 1,
+      updatedAt: new Date(),
+    };
+    this.pythonFiles.set(id, updatedFile);
+    this.addRevision(updatedFile, restoredFrom);
+    return updatedFile;
+  }
+
+  private addRevision(file: PythonFile, restoredFrom: number | null = null) {
+    const id = this.currentFileRevisionId++;
+    this.fileRevisions.set(id, { id, ...revisionOf(file, restoredFrom) });
+  }
+
+  private deleteRevisionsOf(fileId: number) {
+    for (const revision of Array.from(this.fileRevisions.values())) {
+      if (revision.fileId === fileId) this.fileRevisions.delete(revision.id);
+    }
+  }
+
+  async getProgramAccess(file: PythonFile, user: AccessUser): Promise<ProgramAccess | null> {
+    return accessOf(this.programOf(file), user, this.grantsOf(user));
+  }
+
+  async getProgramPermissions(fileId: number): Promise<ProgramPermissions | undefined> {
+    const file = this.pythonFiles.get(fileId);
+    if (!file) {
+      return undefined;
+    }
+
+    const program = this.programOf(file);
+    return {
+      defaultAccess: program.defaultAccess as DefaultAccess,
+      entries: Array.from(this.programPermissions.values()).filter(permission => permission.fileId === program.id),
+    };
+  }
+
+  async setProgramPermissions(fileId: number, permissions: UpdateProgramPermissions): Promise<ProgramPermissions | undefined> {
+    const file = this.pythonFiles.get(fileId);
+    if (!file) {
+      return undefined;
+    }
+
+    const program = this.programOf(file);
+    this.pythonFiles.set(program.id, { ...program, defaultAccess: permissions.defaultAccess });
+    this.deletePermissionsWhere(permission => permission.fileId === program.id);
+    for (const entry of permissions.entries) {
+      const id = this.currentProgramPermissionId++;
+      this.programPermissions.set(id, { id, fileId: program.id, ...entry, createdAt: new Date() });
+    }
+    return this.getProgramPermissions(program.id);
+  }
+
+  // The file a project file's permissions are kept on
+  private programOf(file: PythonFile): PythonFile {
+    const entryFileId = file.projectId !== null ? this.projects.get(file.projectId)?.entryFileId : null;
+    return (entryFileId != null && this.pythonFiles.get(entryFileId)) || file;
+  }
+
+  private grantsOf(user: AccessUser): Grant[] {
+    const isIn = (groupId: number) => !!this.groupMembers.get(groupId)?.has(user.id) || this.owns(user.id, groupId);
+    const granted: Grant[] = Array.from(this.programPermissions.values()).filter(permission =>
+      permission.userId === user.id || (permission.groupId !== null && isIn(permission.groupId)));
+    if (user.role !== "teacher") {
+      return granted;
+    }
+
+    const managed: Grant[] = Array.from(this.pythonFiles.values())
+      .filter(file => file.groupId !== null && this.owns(user.id, file.groupId))
+      .map(file => ({ fileId: file.id, access: "manage" }));
+    return [...granted, ...managed];
+  }
+
+  private owns(userId: number, groupId: number): boolean {
+    return !!this.groupOwners.get(groupId)?.has(userId);
+  }
+
+  private deletePermissionsWhere(matches: (permission: ProgramPermission) => boolean) {
+    for (const permission of Array.from(this.programPermissions.values())) {
+      if (matches(permission)) this.programPermissions.delete(permission.id);
+    }
+  }
+
+  async getAllGroups(): Promise<GroupDetails[]> {
+    return Array.from(this.groups.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(group => this.toGroupDetails(group));
+  }
+
+  async getGroup(id: number): Promise<GroupDetails | undefined> {
+    const group = this.groups.get(id);
+    return group && this.toGroupDetails(group);
+  }
+
+  async createGroup(insertGroup: InsertGroup): Promise<GroupDetails> {
+    const id = this.currentGroupId++;
+    const group: Group = { id, name: insertGroup.name, createdAt: new Date() };
+    this.groups.set(id, group);
+    this.groupMembers.set(id, new Set());
+    this.groupOwners.set(id, new Set());
+    return this.toGroupDetails(group);
+  }
+
+  async setGroupMembers(id: number, members: GroupMembers): Promise<GroupDetails | undefined> {
+    const group = this.groups.get(id);
+    if (!group) {
+      return undefined;
+    }
+    // Owners are only listed once, as owners
+    const owners = members.ownerIds ? new Set(members.ownerIds) : this.groupOwners.get(id) ?? new Set<number>();
+    this.groupOwners.set(id, owners);
+    this.groupMembers.set(id, new Set(members.userIds.filter(userId => !owners.has(userId))));
+    return this.toGroupDetails(group);
+  }
+
+  async deleteGroup(id: number): Promise<boolean> {
+    this.groupMembers.delete(id);
+    this.groupOwners.delete(id);
+    for (const file of Array.from(this.pythonFiles.values())) {
+      if (file.groupId === id) this.pythonFiles.set(file.id, { ...file, groupId: null });
+    }
+    this.deletePermissionsWhere(permission => permission.groupId === id);
+    return this.groups.delete(id);
+  }
+
+  private toGroupDetails(group: Group): GroupDetails {
+    return {
+      ...group,
+      memberIds: Array.from(this.groupMembers.get(group.id) ?? []).sort((a, b) => a - b),
+      ownerIds: Array.from(this.groupOwners.get(group.id) ?? []).sort((a, b) => a - b),
+    };
+  }
+
+  async getAllProjects(user: AccessUser): Promise<Project[]> {
+    const grants = this.grantsOf(user);
+    return Array.from(this.projects.values())
+      .filter(project => {
+        const entryFile = project.entryFileId !== null ? this.pythonFiles.get(project.entryFileId) : undefined;
+        return user.role === "admin" || (!!entryFile && accessOf(entryFile, user, grants) !== null);
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async getProjectPythonFiles(projectId: number): Promise<PythonFile[]> {
+    return Array.from(this.pythonFiles.values())
+      .filter(file => file.projectId === projectId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getProjectDataFiles(projectId: number): Promise<ProjectFile[]> {
+    return Array.from(this.projectFiles.values())
+      .filter(file => file.projectId === projectId)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const id = this.currentProjectId++;
+    const now = new Date();
+    let entryFileId: number | null = null;
+
+    for (const input of insertProject.files) {
+      if (isPythonSource(input)) {
+        const fileId = this.currentFileId++;
+        const file: PythonFile = {
+          id: fileId,
+          name: input.path,
+          content: input.content,
+          size: byteSize(input),
+          projectId: id,
+          groupId: insertProject.groupId,
+          ...defaultExecutionSettings,
+          revision: 1,
+          defaultAccess: "view",
+          createdAt: now,
+          updatedAt: now,
+        };
+        this.pythonFiles.set(fileId, file);
+        this.addRevision(file);
+        if (input.path === insertProject.entryPoint) {
+          entryFileId = fileId;
+        }
+      } else {
+        const dataFileId = this.currentProjectFileId++;
+        this.projectFiles.set(dataFileId, {
+          id: dataFileId,
+          projectId: id,
+          path: input.path,
+          content: input.content,
+          encoding: input.encoding,
+          size: byteSize(input),
+          createdAt: now,
+        });
+      }
+    }
+
+    const project: Project = {
+      id,
+      name: insertProject.name,
+      entryFileId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async updateProject(id: number, updateProject: UpdateProject): Promise<Project | undefined> {
+    const existingProject = this.projects.get(id);
+    if (!existingProject) {
+      return undefined;
+    }
+
+    // The permissions go with the project's entry point
+    const oldEntryFile = existingProject.entryFileId !== null ? this.pythonFiles.get(existingProject.entryFileId) : undefined;
+    const newEntryFile = updateProject.entryFileId !== undefined ? this.pythonFiles.get(updateProject.entryFileId) : undefined;
+    if (oldEntryFile && newEntryFile && oldEntryFile.id !== newEntryFile.id) {
+      this.pythonFiles.set(newEntryFile.id, { ...newEntryFile, defaultAccess: oldEntryFile.defaultAccess });
+      for (const permission of Array.from(this.programPermissions.values())) {
+        if (permission.fileId === oldEntryFile.id) permission.fileId = newEntryFile.id;
+      }
+    }
+
+    const updatedProject: Project = {
+      ...existingProject,
+      ...updateProject,
+      updatedAt: new Date(),
+    };
+    this.projects.set(id, updatedProject);
+    return updatedProject;
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    for (const file of Array.from(this.pythonFiles.values())) {
+      if (file.projectId === id) {
+        this.deleteRunConfigsOf(file.id);
+        this.deleteRevisionsOf(file.id);
+        this.deleteExecutionsOf(file.id);
+        this.deletePermissionsWhere(permission => permission.fileId === file.id);
+        this.pythonFiles.delete(file.id);
+      }
+    }
+    for (const file of Array.from(this.projectFiles.values())) {
+      if (file.projectId === id) this.projectFiles.delete(file.id);
+    }
+    return this.projects.delete(id);
+  }
+
+  async getRunConfigs(fileId: number): Promise<RunConfig[]> {
+    return Array.from(this.runConfigs.values())
+      .filter(runConfig => runConfig.fileId === fileId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getRunConfig(id: number): Promise<RunConfig | undefined> {
+    return this.runConfigs.get(id);
+  }
+
+  async createRunConfig(fileId: number, insertRunConfig: InsertRunConfig): Promise<RunConfig> {
+    const id = this.currentRunConfigId++;
+    const now = new Date();
+    const runConfig: RunConfig = {
+      id,
+      fileId,
+      ...insertRunConfig,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.runConfigs.set(id, runConfig);
+    return runConfig;
+  }
+
+  async updateRunConfig(id: number, updateRunConfig: UpdateRunConfig): Promise<RunConfig | undefined> {
+    const existingRunConfig = this.runConfigs.get(id);
+    if (!existingRunConfig) {
+      return undefined;
+    }
+
+    const updatedRunConfig: RunConfig = {
+      ...existingRunConfig,
+      ...updateRunConfig,
+      updatedAt: new Date(),
+    };
+    this.runConfigs.set(id, updatedRunConfig);
+    return updatedRunConfig;
+  }
+
+  async deleteRunConfig(id: number): Promise<boolean> {
+    return this.runConfigs.delete(id);
+  }
+
+  private deleteRunConfigsOf(fileId: number) {
+    for (const runConfig of Array.from(this.runConfigs.values())) {
+      if (runConfig.fileId === fileId) this.runConfigs.delete(runConfig.id);
+    }
+  }
+
+  async getExecutionsForFile(fileId: number, userId?: number): Promise<Execution[]> {
     return Array.from(this.executions.values())
-      .filter(exec => exec.fileId === fileId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      .filter(exec => exec.fileId === fileId && (userId === undefined || exec.userId === userId))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || b.id - a.id);
+  }
+
+  private deleteExecutionsOf(fileId: number) {
+    for (const execution of Array.from(this.executions.values())) {
+      if (execution.fileId === fileId) this.executions.delete(execution.id);
+    }
   }
 
   async createExecution(insertExecution: InsertExecution): Promise<Execution> {
@@ -128,10 +690,21 @@ export class MemStorage implements IStorage {
     const execution: Execution = {
       id,
       fileId: insertExecution.fileId,
+      userId: insertExecution.userId ?? null,
       output: insertExecution.output || null,
       error: insertExecution.error || null,
       executionTime: insertExecution.executionTime || null,
       status: insertExecution.status,
+      exitCode: insertExecution.exitCode ?? null,
+      signal: insertExecution.signal ?? null,
+      timedOut: insertExecution.timedOut ?? false,
+      limitExceeded: insertExecution.limitExceeded ?? null,
+      args: insertExecution.args ?? null,
+      env: (insertExecution.env as Record<string, string> | null | undefined) ?? null,
+      stdin: insertExecution.stdin ?? null,
+      runConfigId: insertExecution.runConfigId ?? null,
+      revision: insertExecution.revision ?? null,
+      traceback: insertExecution.traceback ?? null,
       createdAt: new Date(),
     };
     this.executions.set(id, execution);
@@ -145,11 +718,636 @@ export class MemStorage implements IStorage {
 
   async authenticateUser(username: string, password: string): Promise<User | null> {
     const user = await this.getUserByUsername(username);
-    if (user && user.password === password) {
+    if (user && !user.disabled && await verifyPassword(password, user.password)) {
       return user;
     }
     return null;
   }
 }
 
-export const storage = new MemStorage();
+// Any Postgres flavoured Drizzle client works, so a local Postgres or PGlite
+// instance can stand in for the Neon database, as in storage.test.ts
+type StorageDatabase = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+const { content: _content, ...revisionSummaryColumns } = getTableColumns(pythonFileRevisions);
+
+const toGroupDetails = (group: Group, members: GroupMember[]): GroupDetails => ({
+  ...group,
+  memberIds: members.filter(member => member.role !== "owner").map(member => member.userId),
+  ownerIds: members.filter(member => member.role === "owner").map(member => member.userId),
+});
+
+export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: StorageDatabase) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async getUserCount(): Promise<number> {
+    const [{ value }] = await this.db.select({ value: count() }).from(users);
+    return value;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, password: await hashPassword(insertUser.password) })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: number, updateUser: UpdateUser): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(updateUser)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updateUserPassword(id: number, password: string, mustChangePassword = false): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ password: await hashPassword(password), mustChangePassword })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(groupMembers).where(eq(groupMembers.userId, id));
+      await tx.delete(programPermissions).where(eq(programPermissions.userId, id));
+      await tx.delete(apiTokens).where(eq(apiTokens.userId, id));
+      const deleted = await tx
+        .delete(users)
+        .where(eq(users.id, id))
+        .returning({ id: users.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return this.db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [apiToken] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return apiToken;
+  }
+
+  async createApiToken(insertApiToken: InsertApiToken): Promise<ApiToken> {
+    const [apiToken] = await this.db.insert(apiTokens).values(insertApiToken).returning();
+    return apiToken;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  // Only hidden programs are left out in the query; how much of the others
+  // the user may see is worked out from their grants
+  async getAllPythonFiles(user: AccessUser): Promise<ProgramFile[]> {
+    const grants = user.role === "admin" ? [] : await this.grantsOf(user);
+    const grantedIds = grants.map(grant => grant.fileId);
+    const visible = user.role === "admin"
+      ? undefined
+      : grantedIds.length > 0
+        ? or(ne(pythonFiles.defaultAccess, "none"), inArray(pythonFiles.id, grantedIds))
+        : ne(pythonFiles.defaultAccess, "none");
+
+    const rows = await this.db
+      .select({ file: pythonFiles })
+      .from(pythonFiles)
+      .leftJoin(projects, eq(pythonFiles.projectId, projects.id))
+      .where(and(or(isNull(pythonFiles.projectId), eq(projects.entryFileId, pythonFiles.id)), visible))
+      .orderBy(desc(pythonFiles.updatedAt));
+    return withAccess(rows.map(row => row.file), user, grants);
+  }
+
+  async getPythonFile(id: number): Promise<PythonFile | undefined> {
+    const [file] = await this.db.select().from(pythonFiles).where(eq(pythonFiles.id, id));
+    return file;
+  }
+
+  async createPythonFile(insertFile: InsertPythonFile): Promise<PythonFile> {
+    return this.db.transaction(async (tx) => {
+      const [file] = await tx.insert(pythonFiles).values(insertFile).returning();
+      await tx.insert(pythonFileRevisions).values(revisionOf(file));
+      return file;
+    });
+  }
+
+  async updatePythonFile(id: number, updateFile: UpdatePythonFile): Promise<PythonFile | undefined> {
+    return this.saveNewRevision(id, updateFile, null);
+  }
+
+  async updateExecutionSettings(id: number, settings: UpdateExecutionSettings): Promise<PythonFile | undefined> {
+    const [file] = await this.db
+      .update(pythonFiles)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(eq(pythonFiles.id, id))
+      .returning();
+    return file;
+  }
+
+  async deletePythonFile(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(runConfigs).where(eq(runConfigs.fileId, id));
+      await tx.delete(pythonFileRevisions).where(eq(pythonFileRevisions.fileId, id));
+      await tx.delete(executions).where(eq(executions.fileId, id));
+      await tx.delete(programPermissions).where(eq(programPermissions.fileId, id));
+      const deleted = await tx
+        .delete(pythonFiles)
+        .where(eq(pythonFiles.id, id))
+        .returning({ id: pythonFiles.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getFileRevisions(fileId: number): Promise<FileRevisionSummary[]> {
+    return this.db
+      .select(revisionSummaryColumns)
+      .from(pythonFileRevisions)
+      .where(eq(pythonFileRevisions.fileId, fileId))
+      .orderBy(desc(pythonFileRevisions.revision));
+  }
+
+  async getFileRevision(fileId: number, revision: number): Promise<FileRevision | undefined> {
+    const [fileRevision] = await this.db
+      .select()
+      .from(pythonFileRevisions)
+      .where(and(eq(pythonFileRevisions.fileId, fileId), eq(pythonFileRevisions.revision, revision)));
+    return fileRevision;
+  }
+
+  async restoreFileRevision(fileId: number, revision: number): Promise<PythonFile | undefined> {
+    const restored = await this.getFileRevision(fileId, revision);
+    if (!restored) {
+      return undefined;
+    }
+    return this.saveNewRevision(fileId, restored, revision);
+  }
+
+  // Bumps the revision number in the update itself so concurrent saves get
+  // different numbers. Files saved before revisions were recorded get their
+  // old code recorded first, so the save can still be undone.
+  private async saveNewRevision(id: number, updateFile: UpdatePythonFile, restoredFrom: number | null): Promise<PythonFile | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existingFile] = await tx.select().from(pythonFiles).where(eq(pythonFiles.id, id));
+      if (!existingFile) {
+        return undefined;
+      }
+
+      const [recorded] = await tx
+        .select({ id: pythonFileRevisions.id })
+        .from(pythonFileRevisions)
+        .where(eq(pythonFileRevisions.fileId, id))
+        .limit(1);
+      if (!recorded) {
+        await tx.insert(pythonFileRevisions).values(revisionOf(existingFile));
+      }
+
+      const [file] = await tx
+        .update(pythonFiles)
+        .set({
+          name: updateFile.name,
+          content: updateFile.content,
+          size: updateFile.size,
+          revision: sql`${pythonFiles.revision} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(pythonFiles.id, id))
+        .returning();
+      await tx.insert(pythonFileRevisions).values(revisionOf(file, restoredFrom));
+      return file;
+    });
+  }
+
+  async getProgramAccess(file: PythonFile, user: AccessUser): Promise<ProgramAccess | null> {
+    if (user.role === "admin") {
+      return "manage";
+    }
+
+    const program = await this.programOf(file);
+    const grants: Grant[] = await this.db
+      .select({ fileId: programPermissions.fileId, access: programPermissions.access })
+      .from(programPermissions)
+      .where(and(eq(programPermissions.fileId, program.id), this.grantedTo(user.id)));
+    if (user.role === "teacher" && program.groupId !== null) {
+      const [owned] = await this.db
+        .select({ id: groupMembers.id })
+        .from(groupMembers)
+        .where(and(eq(groupMembers.groupId, program.groupId), eq(groupMembers.userId, user.id), eq(groupMembers.role, "owner")));
+      if (owned) {
+        grants.push({ fileId: program.id, access: "manage" });
+      }
+    }
+    return accessOf(program, user, grants);
+  }
+
+  async getProgramPermissions(fileId: number): Promise<ProgramPermissions | undefined> {
+    const file = await this.getPythonFile(fileId);
+    if (!file) {
+      return undefined;
+    }
+
+    const program = await this.programOf(file);
+    const entries = await this.db
+      .select()
+      .from(programPermissions)
+      .where(eq(programPermissions.fileId, program.id))
+      .orderBy(asc(programPermissions.id));
+    return { defaultAccess: program.defaultAccess as DefaultAccess, entries };
+  }
+
+  async setProgramPermissions(fileId: number, permissions: UpdateProgramPermissions): Promise<ProgramPermissions | undefined> {
+    const file = await this.getPythonFile(fileId);
+    if (!file) {
+      return undefined;
+    }
+
+    const program = await this.programOf(file);
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(pythonFiles)
+        .set({ defaultAccess: permissions.defaultAccess })
+        .where(eq(pythonFiles.id, program.id));
+      await tx.delete(programPermissions).where(eq(programPermissions.fileId, program.id));
+      if (permissions.entries.length > 0) {
+        await tx.insert(programPermissions).values(permissions.entries.map(entry => ({ ...entry, fileId: program.id })));
+      }
+    });
+    return this.getProgramPermissions(program.id);
+  }
+
+  // The file a project file's permissions are kept on
+  private async programOf(file: PythonFile): Promise<PythonFile> {
+    if (file.projectId === null) {
+      return file;
+    }
+    const [row] = await this.db
+      .select({ entryFile: pythonFiles })
+      .from(projects)
+      .innerJoin(pythonFiles, eq(pythonFiles.id, projects.entryFileId))
+      .where(eq(projects.id, file.projectId));
+    return row?.entryFile ?? file;
+  }
+
+  // Entries naming the user or one of their groups
+  private grantedTo(userId: number) {
+    return or(
+      eq(programPermissions.userId, userId),
+      inArray(
+        programPermissions.groupId,
+        this.db.select({ groupId: groupMembers.groupId }).from(groupMembers).where(eq(groupMembers.userId, userId)),
+      ),
+    );
+  }
+
+  private ownedGroupIds(userId: number) {
+    return this.db
+      .select({ groupId: groupMembers.groupId })
+      .from(groupMembers)
+      .where(and(eq(groupMembers.userId, userId), eq(groupMembers.role, "owner")));
+  }
+
+  private async grantsOf(user: AccessUser): Promise<Grant[]> {
+    const granted: Grant[] = await this.db
+      .select({ fileId: programPermissions.fileId, access: programPermissions.access })
+      .from(programPermissions)
+      .where(this.grantedTo(user.id));
+    if (user.role !== "teacher") {
+      return granted;
+    }
+
+    const managed = await this.db
+      .select({ fileId: pythonFiles.id })
+      .from(pythonFiles)
+      .where(inArray(pythonFiles.groupId, this.ownedGroupIds(user.id)));
+    return [...granted, ...managed.map(({ fileId }) => ({ fileId, access: "manage" }))];
+  }
+
+  async getAllGroups(): Promise<GroupDetails[]> {
+    const [allGroups, members] = await Promise.all([
+      this.db.select().from(groups).orderBy(asc(groups.name)),
+      this.db.select().from(groupMembers).orderBy(asc(groupMembers.userId)),
+    ]);
+    return allGroups.map(group => toGroupDetails(group, members.filter(member => member.groupId === group.id)));
+  }
+
+  async getGroup(id: number): Promise<GroupDetails | undefined> {
+    const [group] = await this.db.select().from(groups).where(eq(groups.id, id));
+    if (!group) {
+      return undefined;
+    }
+
+    const members = await this.db
+      .select()
+      .from(groupMembers)
+      .where(eq(groupMembers.groupId, id))
+      .orderBy(asc(groupMembers.userId));
+    return toGroupDetails(group, members);
+  }
+
+  async createGroup(insertGroup: InsertGroup): Promise<GroupDetails> {
+    const [group] = await this.db.insert(groups).values(insertGroup).returning();
+    return toGroupDetails(group, []);
+  }
+
+  async setGroupMembers(id: number, members: GroupMembers): Promise<GroupDetails | undefined> {
+    const updated = await this.db.transaction(async (tx) => {
+      const [group] = await tx.select({ id: groups.id }).from(groups).where(eq(groups.id, id));
+      if (!group) {
+        return false;
+      }
+
+      let ownerIds: number[];
+      if (members.ownerIds) {
+        ownerIds = Array.from(new Set(members.ownerIds));
+        await tx.delete(groupMembers).where(eq(groupMembers.groupId, id));
+        if (ownerIds.length > 0) {
+          await tx.insert(groupMembers).values(ownerIds.map(userId => ({ groupId: id, userId, role: "owner" })));
+        }
+      } else {
+        const owners = await tx
+          .select({ userId: groupMembers.userId })
+          .from(groupMembers)
+          .where(and(eq(groupMembers.groupId, id), eq(groupMembers.role, "owner")));
+        ownerIds = owners.map(owner => owner.userId);
+        await tx.delete(groupMembers).where(and(eq(groupMembers.groupId, id), ne(groupMembers.role, "owner")));
+      }
+
+      // Owners are only listed once, as owners
+      const memberIds = Array.from(new Set(members.userIds)).filter(userId => !ownerIds.includes(userId));
+      if (memberIds.length > 0) {
+        await tx.insert(groupMembers).values(memberIds.map(userId => ({ groupId: id, userId })));
+      }
+      return true;
+    });
+    return updated ? this.getGroup(id) : undefined;
+  }
+
+  async deleteGroup(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(groupMembers).where(eq(groupMembers.groupId, id));
+      await tx.delete(programPermissions).where(eq(programPermissions.groupId, id));
+      await tx.update(pythonFiles).set({ groupId: null }).where(eq(pythonFiles.groupId, id));
+      const deleted = await tx
+        .delete(groups)
+        .where(eq(groups.id, id))
+        .returning({ id: groups.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getAllProjects(user: AccessUser): Promise<Project[]> {
+    const allProjects = await this.db.select().from(projects).orderBy(asc(projects.name));
+    if (user.role === "admin") {
+      return allProjects;
+    }
+    const visibleIds = new Set((await this.getAllPythonFiles(user)).map(file => file.id));
+    return allProjects.filter(project => project.entryFileId !== null && visibleIds.has(project.entryFileId));
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectPythonFiles(projectId: number): Promise<PythonFile[]> {
+    return this.db
+      .select()
+      .from(pythonFiles)
+      .where(eq(pythonFiles.projectId, projectId))
+      .orderBy(asc(pythonFiles.name));
+  }
+
+  async getProjectDataFiles(projectId: number): Promise<ProjectFile[]> {
+    return this.db
+      .select()
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, projectId))
+      .orderBy(asc(projectFiles.path));
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    return this.db.transaction(async (tx) => {
+      const [project] = await tx.insert(projects).values({ name: insertProject.name }).returning();
+
+      const sources = insertProject.files.filter(isPythonSource);
+      const dataFiles = insertProject.files.filter(file => !isPythonSource(file));
+
+      const createdSources = await tx
+        .insert(pythonFiles)
+        .values(sources.map(file => ({
+          name: file.path,
+          content: file.content,
+          size: byteSize(file),
+          projectId: project.id,
+          groupId: insertProject.groupId,
+        })))
+        .returning();
+      await tx.insert(pythonFileRevisions).values(createdSources.map(file => revisionOf(file)));
+
+      if (dataFiles.length > 0) {
+        await tx.insert(projectFiles).values(dataFiles.map(file => ({
+          projectId: project.id,
+          path: file.path,
+          content: file.content,
+          encoding: file.encoding,
+          size: byteSize(file),
+        })));
+      }
+
+      const entryFile = createdSources.find(file => file.name === insertProject.entryPoint);
+      const [createdProject] = await tx
+        .update(projects)
+        .set({ entryFileId: entryFile?.id ?? null })
+        .where(eq(projects.id, project.id))
+        .returning();
+      return createdProject;
+    });
+  }
+
+  async updateProject(id: number, updateProject: UpdateProject): Promise<Project | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existingProject] = await tx.select().from(projects).where(eq(projects.id, id));
+      if (!existingProject) {
+        return undefined;
+      }
+
+      // The permissions go with the project's entry point
+      const oldEntryFileId = existingProject.entryFileId;
+      const newEntryFileId = updateProject.entryFileId;
+      if (oldEntryFileId !== null && newEntryFileId !== undefined && newEntryFileId !== oldEntryFileId) {
+        const [oldEntryFile] = await tx
+          .select({ defaultAccess: pythonFiles.defaultAccess })
+          .from(pythonFiles)
+          .where(eq(pythonFiles.id, oldEntryFileId));
+        if (oldEntryFile) {
+          await tx
+            .update(pythonFiles)
+            .set({ defaultAccess: oldEntryFile.defaultAccess })
+            .where(eq(pythonFiles.id, newEntryFileId));
+        }
+        await tx
+          .update(programPermissions)
+          .set({ fileId: newEntryFileId })
+          .where(eq(programPermissions.fileId, oldEntryFileId));
+      }
+
+      const [project] = await tx
+        .update(projects)
+        .set({ ...updateProject, updatedAt: new Date() })
+        .where(eq(projects.id, id))
+        .returning();
+      return project;
+    });
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const projectFileIds = tx.select({ id: pythonFiles.id }).from(pythonFiles).where(eq(pythonFiles.projectId, id));
+      await tx.delete(runConfigs).where(inArray(runConfigs.fileId, projectFileIds));
+      await tx.delete(pythonFileRevisions).where(inArray(pythonFileRevisions.fileId, projectFileIds));
+      await tx.delete(executions).where(inArray(executions.fileId, projectFileIds));
+      await tx.delete(programPermissions).where(inArray(programPermissions.fileId, projectFileIds));
+      await tx.delete(pythonFiles).where(eq(pythonFiles.projectId, id));
+      await tx.delete(projectFiles).where(eq(projectFiles.projectId, id));
+      const deleted = await tx
+        .delete(projects)
+        .where(eq(projects.id, id))
+        .returning({ id: projects.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getRunConfigs(fileId: number): Promise<RunConfig[]> {
+    return this.db
+      .select()
+      .from(runConfigs)
+      .where(eq(runConfigs.fileId, fileId))
+      .orderBy(asc(runConfigs.name));
+  }
+
+  async getRunConfig(id: number): Promise<RunConfig | undefined> {
+    const [runConfig] = await this.db.select().from(runConfigs).where(eq(runConfigs.id, id));
+    return runConfig;
+  }
+
+  async createRunConfig(fileId: number, insertRunConfig: InsertRunConfig): Promise<RunConfig> {
+    const [runConfig] = await this.db.insert(runConfigs).values({ ...insertRunConfig, fileId }).returning();
+    return runConfig;
+  }
+
+  async updateRunConfig(id: number, updateRunConfig: UpdateRunConfig): Promise<RunConfig | undefined> {
+    const [runConfig] = await this.db
+      .update(runConfigs)
+      .set({ ...updateRunConfig, updatedAt: new Date() })
+      .where(eq(runConfigs.id, id))
+      .returning();
+    return runConfig;
+  }
+
+  async deleteRunConfig(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(runConfigs)
+      .where(eq(runConfigs.id, id))
+      .returning({ id: runConfigs.id });
+    return deleted.length > 0;
+  }
+
+  async getExecutionsForFile(fileId: number, userId?: number): Promise<Execution[]> {
+    return this.db
+      .select()
+      .from(executions)
+      .where(userId === undefined
+        ? eq(executions.fileId, fileId)
+        : and(eq(executions.fileId, fileId), eq(executions.userId, userId)))
+      .orderBy(desc(executions.createdAt), desc(executions.id));
+  }
+
+  async createExecution(insertExecution: InsertExecution): Promise<Execution> {
+    const [execution] = await this.db.insert(executions).values(insertExecution).returning();
+    return execution;
+  }
+
+  async getLatestExecution(fileId: number): Promise<Execution | undefined> {
+    const [execution] = await this.db
+      .select()
+      .from(executions)
+      .where(eq(executions.fileId, fileId))
+      .orderBy(desc(executions.createdAt), desc(executions.id))
+      .limit(1);
+    return execution;
+  }
+
+  async authenticateUser(username: string, password: string): Promise<User | null> {
+    const user = await this.getUserByUsername(username);
+    if (user && !user.disabled && await verifyPassword(password, user.password)) {
+      return user;
+    }
+    return null;
+  }
+}
+
+// Prepares the accounts needed to sign in. Demo mode gets the well-known demo
+// accounts; otherwise an empty install gets the admin named in the config, or
+// none at all, in which case the first visitor creates one through /api/setup.
+export async function bootstrapUsers(storage: IStorage): Promise<void> {
+  if (config.demoMode) {
+    const demoUsers: InsertUser[] = [
+      { username: "admin", password: "admin123", role: "admin" },
+      { username: "user", password: "user123", role: "user" },
+    ];
+
+    for (const user of demoUsers) {
+      if (!(await storage.getUserByUsername(user.username))) {
+        await storage.createUser(user);
+      }
+    }
+    return;
+  }
+
+  if (config.bootstrapAdmin && await storage.getUserCount() === 0) {
+    await storage.createUser({
+      username: config.bootstrapAdmin.username,
+      password: config.bootstrapAdmin.password,
+      role: "admin",
+      mustChangePassword: true,
+    });
+  }
+}
+
+function createStorage(): IStorage {
+  if (config.storageDriver === "database") {
+    return new DatabaseStorage(db);
+  }
+  return new MemStorage();
+}
+
+export const storage = createStorage();
@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from "crypto";
+
+// Tokens start with this so they are easy to recognise, e.g. by secret scanners
+const TOKEN_PREFIX = "pyl_";
+
+// Enough of the token to tell tokens apart in the list
+const DISPLAY_LENGTH = TOKEN_PREFIX.length + 6;
+
+// A new random token, with the start that is shown to tell it apart
+export function generateToken(): { token: string; prefix: string } {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, prefix: token.slice(0, DISPLAY_LENGTH) };
+}
+
+// Tokens are random and long, so a plain SHA-256 is enough to keep them from
+// being read back, and it lets a token be looked up by its hash. Passwords are
+// hashed with scrypt instead (see passwords.ts).
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
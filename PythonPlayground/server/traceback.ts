@@ -0,0 +1,55 @@
+import path from "path";
+import type { Traceback, TracebackFrame } from "@shared/schema";
+
+const FRAME_PATTERN = /^ {2}File "(.+)", line (\d+)(?:, in (.+))?$/;
+// The ^^^ and ~~~ lines Python 3.11+ puts under the failing expression
+const MARKER_PATTERN = /^\s*[\^~]+\s*$/;
+const EXCEPTION_PATTERN = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+
+// Turns the last traceback in a run's error output into frames. Paths inside
+// the run's working directory become the program's own file names, with the
+// id of the python_files row they came from.
+export function parseTraceback(output: string, workDir: string, sources: Map<string, number>): Traceback | null {
+  const lines = output.replace(/\r\n?/g, "\n").split("\n");
+
+  // Chained exceptions print one traceback after another; the last one is the
+  // exception that ended the program. Its frames are found from the last one
+  // up, since syntax errors in the program come without a "Traceback" header.
+  let start = lines.findLastIndex((line) => FRAME_PATTERN.test(line));
+  if (start === -1) {
+    return null;
+  }
+  while (start > 0 && (FRAME_PATTERN.test(lines[start - 1]) || lines[start - 1].startsWith("    "))) {
+    start--;
+  }
+
+  const frames: TracebackFrame[] = [];
+  let i = start;
+  for (; i < lines.length && lines[i].startsWith(" "); i++) {
+    const match = FRAME_PATTERN.exec(lines[i]);
+    if (match) {
+      frames.push({ ...programFile(match[1], workDir, sources), line: parseInt(match[2]), function: match[3] ?? null, code: null });
+    } else if (frames.length > 0 && frames[frames.length - 1].code === null && !MARKER_PATTERN.test(lines[i])) {
+      frames[frames.length - 1].code = lines[i].trim();
+    }
+  }
+
+  const exception = EXCEPTION_PATTERN.exec(lines[i] ?? "");
+  if (frames.length === 0 || !exception) {
+    return null;
+  }
+
+  const message = [exception[2] ?? "", ...lines.slice(i + 1)].join("\n").trim();
+  return { exceptionType: exception[1], message, frames };
+}
+
+function programFile(file: string, workDir: string, sources: Map<string, number>): Pick<TracebackFrame, "file" | "fileId"> {
+  // Also keeps names such as "<frozen runpy>" or "<string>" as they are
+  const relative = path.relative(workDir, file);
+  if (!path.isAbsolute(file) || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return { file, fileId: null };
+  }
+
+  const name = relative.split(path.sep).join("/");
+  return { file: name, fileId: sources.get(name) ?? null };
+}
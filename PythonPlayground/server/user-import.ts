@@ -0,0 +1,100 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { createUserSchema, type ImportUsersResult } from "@shared/schema";
+
+// Splits CSV text into rows of fields, honouring quoted fields with embedded
+// commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const generatePassword = () => randomBytes(9).toString("base64url");
+
+// Creates an account per CSV row. The header row is optional; without one the
+// columns are read as username, password, role. Rows without a password get a
+// generated one, and every imported user has to change it on first login.
+export async function importUsers(csv: string): Promise<ImportUsersResult> {
+  const rows = parseCsv(csv);
+  const result: ImportUsersResult = { created: [], errors: [] };
+
+  let columns = ["username", "password", "role"];
+  let firstDataRow = 0;
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase());
+  if (header?.includes("username")) {
+    columns = header;
+    firstDataRow = 1;
+  }
+
+  for (let index = firstDataRow; index < rows.length; index++) {
+    const line = index + 1;
+    const cells = rows[index];
+    if (cells.every((cell) => !cell.trim())) continue;
+
+    const value = (column: string) => cells[columns.indexOf(column)]?.trim() || undefined;
+    const generatedPassword = value("password") ? undefined : generatePassword();
+
+    const parsed = createUserSchema.safeParse({
+      username: value("username"),
+      password: value("password") ?? generatedPassword,
+      role: value("role")?.toLowerCase(),
+      mustChangePassword: true,
+    });
+
+    if (!parsed.success) {
+      result.errors.push({ line, message: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") });
+      continue;
+    }
+
+    try {
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        result.errors.push({ line, message: `Username "${parsed.data.username}" is already taken` });
+        continue;
+      }
+
+      const user = await storage.createUser(parsed.data);
+      result.created.push({ username: user.username, role: user.role, password: generatedPassword });
+    } catch (error) {
+      result.errors.push({ line, message: "Failed to create user" });
+    }
+  }
+
+  return result;
+}
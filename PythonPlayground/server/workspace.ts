@@ -0,0 +1,162 @@
+import path from "path";
+import fs, { constants as fsConstants, type FileHandle } from "fs/promises";
+import { config } from "./config";
+import type { PythonFile } from "@shared/schema";
+
+export interface WorkspaceEntry {
+  path: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export class WorkspacePathError extends Error {}
+
+export class WorkspaceQuotaError extends Error {
+  constructor() {
+    super(`Workspace quota of ${Math.round(config.workspace.quotaBytes / 1024)} KB exceeded; reset the workspace to run this program again`);
+  }
+}
+
+// Resolves a relative path against root, refusing paths that would escape it
+export function resolveInside(root: string, relativePath: string): string {
+  const target = path.resolve(root, relativePath);
+  if (!target.startsWith(root + path.sep)) {
+    throw new WorkspacePathError(`Invalid path: ${relativePath}`);
+  }
+  return target;
+}
+
+// Programs may leave symbolic links in their workspace, and the server must
+// not follow them to files outside of it. Walks from root down to dir and
+// reports whether every step is a real directory; with create, missing
+// directories are made on the way.
+async function enterDirectories(root: string, dir: string, create: boolean): Promise<boolean> {
+  let current = root;
+  for (const part of path.relative(root, dir).split(path.sep).filter(Boolean)) {
+    current = path.join(current, part);
+    if (create) {
+      await fs.mkdir(current).catch((error) => {
+        if (error.code !== "EEXIST") throw error;
+      });
+    }
+    const stats = await fs.lstat(current).catch(() => null);
+    if (!stats?.isDirectory()) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Where an open file really is, which catches a directory that was swapped for
+// a link after it was checked. Only Linux tells, elsewhere the checks on the
+// way in have to do.
+async function isOpenedInside(root: string, handle: FileHandle): Promise<boolean> {
+  const opened = await fs.realpath(`/proc/self/fd/${handle.fd}`).catch(() => null);
+  return opened === null || opened.startsWith(await fs.realpath(root) + path.sep);
+}
+
+// Opens a regular file below root for reading, or returns null when there is
+// none. Links are treated as missing; FIFOs are opened without blocking and
+// then refused.
+export async function openInside(root: string, relativePath: string): Promise<FileHandle | null> {
+  const target = resolveInside(root, relativePath);
+  if (!await enterDirectories(root, path.dirname(target), false)) {
+    return null;
+  }
+
+  const handle = await fs.open(target, fsConstants.O_RDONLY | fsConstants.O_NOFOLLOW | fsConstants.O_NONBLOCK).catch(() => null);
+  if (!handle) {
+    return null;
+  }
+  if ((await handle.stat()).isFile() && await isOpenedInside(root, handle)) {
+    return handle;
+  }
+  await handle.close();
+  return null;
+}
+
+// Writes a file below root unless one is there already, making the
+// directories it needs
+export async function writeInside(root: string, relativePath: string, content: string | Buffer, mode = 0o644): Promise<string> {
+  const target = resolveInside(root, relativePath);
+  if (!await enterDirectories(root, path.dirname(target), true)) {
+    throw new WorkspacePathError(`Invalid path: ${relativePath}`);
+  }
+
+  const flags = fsConstants.O_WRONLY | fsConstants.O_CREAT | fsConstants.O_EXCL | fsConstants.O_NOFOLLOW;
+  const handle = await fs.open(target, flags, mode).catch((error) => {
+    if (error.code === "EEXIST") return null;
+    throw error;
+  });
+  if (!handle) {
+    return target;
+  }
+  try {
+    if (!await isOpenedInside(root, handle)) {
+      throw new WorkspacePathError(`Invalid path: ${relativePath}`);
+    }
+    await handle.writeFile(content);
+  } finally {
+    await handle.close();
+  }
+  return target;
+}
+
+// Removes a file below root if there is one; a link in its place is removed
+// itself, never what it points to
+export async function removeInside(root: string, relativePath: string): Promise<void> {
+  const target = resolveInside(root, relativePath);
+  if (await enterDirectories(root, path.dirname(target), false)) {
+    await fs.unlink(target).catch((error) => {
+      if (error.code !== "ENOENT" && error.code !== "EISDIR" && error.code !== "EPERM") throw error;
+    });
+  }
+}
+
+// Project files share one workspace, so saved data is kept when the entry
+// point changes
+function workspaceKey(file: PythonFile): string {
+  return file.projectId !== null ? `project-${file.projectId}` : `file-${file.id}`;
+}
+
+export function getWorkspaceDir(userId: number, file: PythonFile): string {
+  return path.resolve(config.workspace.dir, `user-${userId}`, workspaceKey(file));
+}
+
+export async function listWorkspaceFiles(dir: string): Promise<WorkspaceEntry[]> {
+  const entries: WorkspaceEntry[] = [];
+
+  const walk = async (current: string) => {
+    const children = await fs.readdir(current, { withFileTypes: true }).catch(() => []);
+    for (const child of children) {
+      const childPath = path.join(current, child.name);
+      if (child.isDirectory()) {
+        await walk(childPath);
+      } else if (child.isFile()) {
+        // Programs may delete their files while the workspace is measured
+        const stats = await fs.lstat(childPath).catch((error) => {
+          if (error.code === "ENOENT") return null;
+          throw error;
+        });
+        if (!stats) continue;
+        entries.push({
+          path: path.relative(dir, childPath).split(path.sep).join("/"),
+          size: stats.size,
+          modifiedAt: stats.mtime,
+        });
+      }
+    }
+  };
+
+  await walk(dir);
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export async function getWorkspaceUsage(dir: string): Promise<number> {
+  const entries = await listWorkspaceFiles(dir);
+  return entries.reduce((total, entry) => total + entry.size, 0);
+}
+
+export async function resetWorkspace(dir: string): Promise<void> {
+  await fs.rm(dir, { recursive: true, force: true });
+}
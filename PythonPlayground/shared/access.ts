@@ -0,0 +1,33 @@
+import { programAccessSchema, type Execution, type PythonFile, type ProgramAccess, type ProgramFile } from "./schema";
+
+const levels = programAccessSchema.options;
+
+export function hasAccess(access: ProgramAccess | null, needed: ProgramAccess): boolean {
+  return access !== null && levels.indexOf(access) >= levels.indexOf(needed);
+}
+
+// The most any of the given grants allows; "none" and missing grants allow nothing
+export function strongestAccess(grants: (string | null | undefined)[]): ProgramAccess | null {
+  let strongest: ProgramAccess | null = null;
+  for (const grant of grants) {
+    const parsed = programAccessSchema.safeParse(grant);
+    if (parsed.success && !hasAccess(strongest, parsed.data)) {
+      strongest = parsed.data;
+    }
+  }
+  return strongest;
+}
+
+// Leaves out the code of programs the user may only run
+export function toProgramFile(file: PythonFile, access: ProgramAccess): ProgramFile {
+  return { ...file, content: hasAccess(access, "view") ? file.content : null, access };
+}
+
+// Leaves out the lines of code tracebacks quote from programs the user may only run
+export function toVisibleExecution(execution: Execution, access: ProgramAccess): Execution {
+  if (!execution.traceback || hasAccess(access, "view")) {
+    return execution;
+  }
+  const frames = execution.traceback.frames.map((frame) => ({ ...frame, code: null }));
+  return { ...execution, traceback: { ...execution.traceback, frames } };
+}
@@ -0,0 +1,34 @@
+import type { Execution, ExecutionLimit } from "./schema";
+
+const LIMIT_LABELS: Record<ExecutionLimit, string> = {
+  cpu: "CPU time",
+  memory: "memory",
+  processes: "process",
+  open_files: "open file",
+  file_size: "file size",
+  output: "output",
+  workspace: "workspace storage",
+};
+
+// How a finished run ended, e.g. "Exited with code 1"
+export function describeExecutionEnd(
+  execution: Pick<Execution, "status" | "exitCode" | "signal" | "timedOut" | "limitExceeded">,
+): string {
+  if (execution.timedOut) {
+    return "Ran too long and was stopped";
+  }
+  if (execution.status === "limit_exceeded") {
+    const label = LIMIT_LABELS[execution.limitExceeded as ExecutionLimit] ?? "resource";
+    return `Stopped for exceeding the ${label} limit`;
+  }
+  if (execution.status === "cancelled") {
+    return "Stopped by user";
+  }
+  if (execution.signal) {
+    return `Killed by ${execution.signal}`;
+  }
+  if (execution.exitCode !== null) {
+    return `Exited with code ${execution.exitCode}`;
+  }
+  return "Failed to start";
+}
@@ -0,0 +1,14 @@
+// Files left out of uploaded projects, e.g. macOS metadata and bytecode caches
+export const isIgnoredPath = (path: string) =>
+  path.split("/").some((part) => part === "__MACOSX" || part === "__pycache__" || part === ".DS_Store");
+
+// Prefers main.py, then a Python file at the project root, then any Python file
+export function guessEntryPoint(paths: string[]): string {
+  const sources = paths.filter((path) => path.endsWith(".py")).sort();
+  return (
+    sources.find((path) => path === "main.py") ??
+    sources.find((path) => !path.includes("/")) ??
+    sources[0] ??
+    ""
+  );
+}
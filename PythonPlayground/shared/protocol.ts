@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { runInputSchema, type Execution } from "./schema";
+
+export interface ExecutionResult {
+  execution: Execution;
+  output: string;
+  error: string;
+  executionTime: number;
+  status: string;
+}
+
+export const terminalSizeSchema = z.object({
+  cols: z.number().int().min(1).max(1000),
+  rows: z.number().int().min(1).max(1000),
+});
+
+export type TerminalSize = z.infer<typeof terminalSizeSchema>;
+
+// Messages sent by the browser over the /api/run WebSocket. Starting with a
+// terminal size runs the program on a pseudo-terminal; input given at the
+// start replaces the keyboard as the program's stdin.
+export const runClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("start"),
+    fileId: z.number().int(),
+    terminal: terminalSizeSchema.optional(),
+    input: runInputSchema.optional(),
+  }),
+  z.object({ type: z.literal("stdin"), data: z.string() }),
+  z.object({ type: z.literal("eof") }),
+  z.object({ type: z.literal("resize"), cols: terminalSizeSchema.shape.cols, rows: terminalSizeSchema.shape.rows }),
+]);
+
+// What the browser sends, before defaults are filled in
+export type RunClientMessage = z.input<typeof runClientMessageSchema>;
+
+// Where a run stands before it has been recorded in the execution history
+export type RunStatus =
+  | { runId: string; fileId: number; state: "queued"; position: number }
+  | { runId: string; fileId: number; state: "running"; startedAt: string };
+
+// Messages sent by the server over the /api/run WebSocket. "queued" is sent
+// whenever a waiting run's place in the queue changes.
+export type RunServerMessage =
+  | { type: "queued"; fileId: number; runId: string; position: number }
+  | { type: "started"; fileId: number; runId: string }
+  | { type: "stdout"; data: string }
+  | { type: "stderr"; data: string }
+  | { type: "exit"; result: ExecutionResult }
+  | { type: "error"; message: string };
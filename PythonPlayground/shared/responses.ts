@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { defaultAccessSchema, programAccessSchema } from "./schema";
+import type {
+  CheckResult,
+  CreatedApiToken,
+  Execution,
+  ExecutionLimits,
+  ExecutionSettings,
+  FileRevision,
+  FileRevisionSummary,
+  GroupDetails,
+  ImportUsersResult,
+  Interpreter,
+  ProgramFile,
+  ProgramPermissions,
+  Project,
+  ProjectDetails,
+  PublicApiToken,
+  PublicUser,
+  RevisionDiff,
+  RunConfig,
+  WorkspaceListing,
+} from "./schema";
+import type { ExecutionResult, RunStatus } from "./protocol";
+
+// Zod schemas of what the API sends back, as JSON. The request schemas are in
+// schema.ts; together they make up the OpenAPI document (server/openapi.ts).
+
+// Dates are sent as ISO 8601 strings
+const timestamp = z.string().datetime();
+const id = z.number().int();
+
+export const messageSchema = z.object({
+  message: z.string(),
+});
+
+export const sessionUserSchema = z.object({
+  id,
+  username: z.string(),
+  role: z.string(),
+  mustChangePassword: z.boolean(),
+});
+
+export const currentUserSchema = z.object({
+  user: sessionUserSchema,
+});
+
+export const setupStatusSchema = z.object({
+  setupRequired: z.boolean(),
+  demoMode: z.boolean(),
+});
+
+export const publicUserSchema = sessionUserSchema.extend({
+  disabled: z.boolean(),
+  createdAt: timestamp,
+});
+
+export const importUsersResultSchema = z.object({
+  created: z.array(z.object({ username: z.string(), role: z.string(), password: z.string().optional() })),
+  errors: z.array(z.object({ line: z.number().int(), message: z.string() })),
+});
+
+export const publicApiTokenSchema = z.object({
+  id,
+  userId: id,
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.string()),
+  expiresAt: timestamp.nullable(),
+  lastUsedAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+
+export const createdApiTokenSchema = z.object({
+  apiToken: publicApiTokenSchema,
+  token: z.string().describe("The token itself, only ever returned here"),
+});
+
+export const programFileSchema = z.object({
+  id,
+  name: z.string(),
+  content: z.string().nullable().describe("null when the user may only run the program"),
+  size: z.number().int(),
+  projectId: id.nullable(),
+  groupId: id.nullable(),
+  timeoutMs: z.number().int().nullable(),
+  memoryMb: z.number().int().nullable(),
+  maxOutputBytes: z.number().int().nullable(),
+  allowInteractive: z.boolean().nullable(),
+  revision: z.number().int(),
+  defaultAccess: z.string(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  access: programAccessSchema,
+});
+
+export const executionSettingsSchema = z.object({
+  timeoutMs: z.number().int(),
+  memoryBytes: z.number().int(),
+  maxOutputBytes: z.number().int(),
+  allowInteractive: z.boolean(),
+});
+
+export const executionLimitsSchema = z.object({
+  timeoutMs: z.number().int(),
+  allowInteractive: z.boolean(),
+  cpuSeconds: z.number(),
+  memoryBytes: z.number().int(),
+  maxProcesses: z.number().int(),
+  maxOpenFiles: z.number().int(),
+  maxOutputBytes: z.number().int(),
+  workspaceQuotaBytes: z.number().int(),
+});
+
+export const fileRevisionSummarySchema = z.object({
+  id,
+  fileId: id,
+  revision: z.number().int(),
+  name: z.string(),
+  size: z.number().int(),
+  restoredFrom: z.number().int().nullable(),
+  createdAt: timestamp,
+});
+
+export const fileRevisionSchema = fileRevisionSummarySchema.extend({
+  content: z.string(),
+});
+
+export const revisionDiffSchema = z.object({
+  from: z.number().int(),
+  to: z.number().int(),
+  lines: z.array(z.object({
+    type: z.enum(["equal", "added", "removed"]),
+    text: z.string(),
+    oldLine: z.number().int().nullable(),
+    newLine: z.number().int().nullable(),
+  })),
+});
+
+export const checkResultSchema = z.object({
+  diagnostics: z.array(z.object({
+    line: z.number().int(),
+    column: z.number().int(),
+    endLine: z.number().int().nullable(),
+    endColumn: z.number().int().nullable(),
+    severity: z.enum(["error", "warning"]),
+    message: z.string(),
+    source: z.enum(["syntax", "pyflakes"]),
+  })),
+  pyflakes: z.boolean().describe("false when pyflakes is not installed on the server"),
+});
+
+export const programPermissionsSchema = z.object({
+  defaultAccess: defaultAccessSchema,
+  entries: z.array(z.object({
+    id,
+    fileId: id,
+    userId: id.nullable(),
+    groupId: id.nullable(),
+    access: z.string(),
+    createdAt: timestamp,
+  })),
+});
+
+export const groupDetailsSchema = z.object({
+  id,
+  name: z.string(),
+  createdAt: timestamp,
+  memberIds: z.array(id),
+  ownerIds: z.array(id),
+});
+
+export const projectSchema = z.object({
+  id,
+  name: z.string(),
+  entryFileId: id.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const projectDetailsSchema = projectSchema.extend({
+  files: z.array(z.object({
+    path: z.string(),
+    size: z.number().int(),
+    fileId: id.optional().describe("Set for Python files"),
+  })),
+});
+
+export const createdProjectSchema = z.object({
+  project: projectSchema,
+  entryFile: programFileSchema.optional(),
+});
+
+export const runConfigSchema = z.object({
+  id,
+  fileId: id,
+  name: z.string(),
+  args: z.array(z.string()),
+  env: z.record(z.string()),
+  stdin: z.string().nullable(),
+  timeoutMs: z.number().int().nullable(),
+  interpreter: z.string().nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export const interpreterSchema = z.object({
+  name: z.string(),
+  version: z.string().nullable().describe("null when the interpreter is not installed"),
+});
+
+export const tracebackSchema = z.object({
+  exceptionType: z.string(),
+  message: z.string(),
+  frames: z.array(z.object({
+    file: z.string(),
+    fileId: id.nullable(),
+    line: z.number().int(),
+    function: z.string().nullable(),
+    code: z.string().nullable(),
+  })),
+});
+
+export const executionSchema = z.object({
+  id,
+  fileId: id,
+  userId: id.nullable(),
+  output: z.string().nullable(),
+  error: z.string().nullable(),
+  executionTime: z.number().int().nullable(),
+  status: z.string(),
+  exitCode: z.number().int().nullable(),
+  signal: z.string().nullable(),
+  timedOut: z.boolean(),
+  limitExceeded: z.string().nullable(),
+  args: z.array(z.string()).nullable(),
+  env: z.record(z.string()).nullable(),
+  stdin: z.string().nullable(),
+  runConfigId: id.nullable(),
+  revision: z.number().int().nullable(),
+  traceback: tracebackSchema.nullable(),
+  createdAt: timestamp,
+});
+
+export const executionResultSchema = z.object({
+  execution: executionSchema,
+  output: z.string(),
+  error: z.string(),
+  executionTime: z.number(),
+  status: z.string(),
+});
+
+export const runStatusSchema = z.discriminatedUnion("state", [
+  z.object({ runId: z.string(), fileId: id, state: z.literal("queued"), position: z.number().int() }),
+  z.object({ runId: z.string(), fileId: id, state: z.literal("running"), startedAt: timestamp }),
+]);
+
+export const workspaceListingSchema = z.object({
+  files: z.array(z.object({ path: z.string(), size: z.number().int(), modifiedAt: timestamp })),
+  usage: z.number().int(),
+  quota: z.number().int(),
+});
+
+// What a value of T looks like once sent as JSON
+export type Json<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Json<U>[]
+    : T extends object
+      ? { [K in keyof T]: Json<T[K]> }
+      : T;
+
+export type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+export type Expect<T extends true> = T;
+
+// The schemas must describe exactly the types the server sends and the client
+// reads, so a field added to one and not the other fails the type check
+type _ResponseTypeChecks = [
+  Expect<Same<z.infer<typeof setupStatusSchema>, { setupRequired: boolean; demoMode: boolean }>>,
+  Expect<Same<z.infer<typeof publicUserSchema>, Json<PublicUser>>>,
+  Expect<Same<z.infer<typeof importUsersResultSchema>, ImportUsersResult>>,
+  Expect<Same<z.infer<typeof publicApiTokenSchema>, Json<PublicApiToken>>>,
+  Expect<Same<z.infer<typeof createdApiTokenSchema>, Json<CreatedApiToken>>>,
+  Expect<Same<z.infer<typeof programFileSchema>, Json<ProgramFile>>>,
+  Expect<Same<z.infer<typeof executionSettingsSchema>, ExecutionSettings>>,
+  Expect<Same<z.infer<typeof executionLimitsSchema>, ExecutionLimits>>,
+  Expect<Same<z.infer<typeof fileRevisionSummarySchema>, Json<FileRevisionSummary>>>,
+  Expect<Same<z.infer<typeof fileRevisionSchema>, Json<FileRevision>>>,
+  Expect<Same<z.infer<typeof revisionDiffSchema>, RevisionDiff>>,
+  Expect<Same<z.infer<typeof checkResultSchema>, CheckResult>>,
+  Expect<Same<z.infer<typeof programPermissionsSchema>, Json<ProgramPermissions>>>,
+  Expect<Same<z.infer<typeof groupDetailsSchema>, Json<GroupDetails>>>,
+  Expect<Same<z.infer<typeof projectSchema>, Json<Project>>>,
+  Expect<Same<z.infer<typeof projectDetailsSchema>, Json<ProjectDetails>>>,
+  Expect<Same<z.infer<typeof runConfigSchema>, Json<RunConfig>>>,
+  Expect<Same<z.infer<typeof interpreterSchema>, Interpreter>>,
+  Expect<Same<z.infer<typeof executionSchema>, Json<Execution>>>,
+  Expect<Same<z.infer<typeof executionResultSchema>, Json<ExecutionResult>>>,
+  Expect<Same<z.infer<typeof runStatusSchema>, RunStatus>>,
+  Expect<Same<z.infer<typeof workspaceListingSchema>, WorkspaceListing>>,
+];
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, boolean, varchar, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, varchar, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,26 +17,150 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("user"), // "admin" or "user"
+  role: text("role").notNull().default("user"), // "admin", "teacher" or "user"
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  disabled: boolean("disabled").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const pythonFiles = pgTable("python_files", {
+export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  entryFileId: integer("entry_file_id"), // the python_files row that is run
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const pythonFiles = pgTable("python_files", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // path relative to the project root for project files
   content: text("content").notNull(),
   size: integer("size").notNull(),
+  projectId: integer("project_id"),
+  groupId: integer("group_id"), // the group whose owners manage the program, if any
+  // Execution settings admins can change per program; null uses the server's default
+  timeoutMs: integer("timeout_ms"),
+  memoryMb: integer("memory_mb"),
+  maxOutputBytes: integer("max_output_bytes"),
+  allowInteractive: boolean("allow_interactive"), // false closes stdin unless input is given
+  revision: integer("revision").notNull().default(1), // number of the latest python_file_revisions row
+  // What every signed-in user may do with the program: 'none', 'run' or 'view'
+  defaultAccess: text("default_access").notNull().default("view"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Every saved version of a program, numbered from 1 per file. Restoring an
+// old revision saves its code again as a new one.
+export const pythonFileRevisions = pgTable(
+  "python_file_revisions",
+  {
+    id: serial("id").primaryKey(),
+    fileId: integer("file_id").notNull(),
+    revision: integer("revision").notNull(),
+    name: text("name").notNull(),
+    content: text("content").notNull(),
+    size: integer("size").notNull(),
+    restoredFrom: integer("restored_from"), // the revision this one brought back
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_python_file_revisions_file_revision").on(table.fileId, table.revision)],
+);
+
+// Users programs can be shared with together, e.g. a class. The group's
+// owners (teachers) manage its members and the programs that belong to it.
+export const groups = pgTable("groups", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const groupMembers = pgTable(
+  "group_members",
+  {
+    id: serial("id").primaryKey(),
+    groupId: integer("group_id").notNull(),
+    userId: integer("user_id").notNull(),
+    role: text("role").notNull().default("member"), // 'member' or 'owner'
+  },
+  (table) => [uniqueIndex("IDX_group_members_group_user").on(table.groupId, table.userId)],
+);
+
+// What a user or a group may do with a program beyond its default access.
+// Entries belong to standalone files and project entry points; the other
+// files of a project share the entry point's.
+export const programPermissions = pgTable(
+  "program_permissions",
+  {
+    id: serial("id").primaryKey(),
+    fileId: integer("file_id").notNull(),
+    userId: integer("user_id"), // exactly one of userId and groupId is set
+    groupId: integer("group_id"),
+    access: text("access").notNull(), // 'run', 'view' or 'edit'
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_program_permissions_file").on(table.fileId)],
+);
+
+// Named ways of running a program that admins save, e.g. with sample input
+// or a different interpreter
+export const runConfigs = pgTable("run_configs", {
+  id: serial("id").primaryKey(),
+  fileId: integer("file_id").notNull(),
+  name: text("name").notNull(),
+  args: text("args").array().notNull(),
+  env: jsonb("env").$type<Record<string, string>>().notNull(),
+  stdin: text("stdin"),
+  timeoutMs: integer("timeout_ms"), // null uses the server's default
+  interpreter: text("interpreter"), // null uses python3
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Personal access tokens for scripts and CI, sent as "Authorization: Bearer".
+// Only a hash of each token is kept; the token itself is shown once.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(), // start of the token, to tell tokens apart
+  scopes: text("scopes").array().notNull(), // TokenScope values
+  expiresAt: timestamp("expires_at"), // null never expires
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Non-Python files of a project, e.g. word lists or saved names the programs read
+export const projectFiles = pgTable("project_files", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  path: text("path").notNull(),
+  content: text("content").notNull(),
+  encoding: text("encoding").notNull().default("utf8"), // 'utf8' or 'base64'
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const executions = pgTable("executions", {
   id: serial("id").primaryKey(),
   fileId: integer("file_id").notNull(),
+  userId: integer("user_id"), // who started the run; null for runs recorded before this was kept
   output: text("output"),
   error: text("error"),
   executionTime: integer("execution_time"), // in milliseconds
-  status: text("status").notNull(), // 'success', 'error', 'timeout'
+  status: text("status").notNull(), // 'success', 'error', 'timeout', 'cancelled', 'limit_exceeded'
+  exitCode: integer("exit_code"), // null when the process was killed by a signal
+  signal: text("signal"), // e.g. 'SIGKILL'
+  timedOut: boolean("timed_out").notNull().default(false),
+  limitExceeded: text("limit_exceeded"), // an ExecutionLimit when status is 'limit_exceeded'
+  // What the program was started with, so the run can be repeated
+  args: text("args").array(),
+  env: jsonb("env").$type<Record<string, string>>(),
+  stdin: text("stdin"), // input fed from a payload or file rather than typed
+  runConfigId: integer("run_config_id"), // the saved configuration the run used, if any
+  revision: integer("revision"), // the program's revision that ran
+  traceback: jsonb("traceback").$type<Traceback>(), // the exception a failed run ended with
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -44,6 +168,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   role: true,
+  mustChangePassword: true,
 });
 
 export const loginSchema = z.object({
@@ -51,8 +176,51 @@ export const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+export const setupSchema = z.object({
+  username: z.string().min(1),
+  password: passwordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+export const roleSchema = z.enum(["admin", "teacher", "user"]);
+
+export const createUserSchema = z.object({
+  username: z.string().trim().min(1),
+  password: passwordSchema,
+  role: roleSchema.default("user"),
+  mustChangePassword: z.boolean().default(true),
+});
+
+export const updateUserSchema = z.object({
+  username: z.string().trim().min(1).optional(),
+  role: roleSchema.optional(),
+  disabled: z.boolean().optional(),
+});
+
+export const resetPasswordSchema = z.object({
+  password: passwordSchema,
+  mustChangePassword: z.boolean().default(true),
+});
+
+export const importUsersSchema = z.object({
+  csv: z.string().min(1),
+});
+
 export const insertPythonFileSchema = createInsertSchema(pythonFiles).omit({
   id: true,
+  projectId: true,
+  timeoutMs: true,
+  memoryMb: true,
+  maxOutputBytes: true,
+  allowInteractive: true,
+  revision: true,
+  defaultAccess: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -64,16 +232,307 @@ export const updatePythonFileSchema = createInsertSchema(pythonFiles).pick({
   size: z.number().min(0),
 });
 
+// null goes back to the server's default
+export const updateExecutionSettingsSchema = z.object({
+  timeoutMs: z.number().int().min(1000).max(60 * 60 * 1000).nullable(),
+  memoryMb: z.number().int().min(16).max(64 * 1024).nullable(),
+  maxOutputBytes: z.number().int().min(1024).max(100 * 1024 * 1024).nullable(),
+  allowInteractive: z.boolean().nullable(),
+}).partial();
+
+// Query of a revision diff; `to` defaults to the latest revision
+export const revisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+// Source to check before it is saved, e.g. a file about to be uploaded
+export const checkSourceSchema = z.object({
+  name: z.string().trim().min(1).default("<upload>"),
+  content: z.string().max(10 * 1024 * 1024),
+});
+
+// A saved file is checked as stored unless the editor sends its unsaved code
+export const checkFileSchema = checkSourceSchema.pick({ content: true }).partial();
+
+// Each level includes the ones before it: viewing the source includes running
+// the program, and editing includes viewing. Managing (settings, permissions,
+// deleting) is for admins and the owners of the program's group.
+export const programAccessSchema = z.enum(["run", "view", "edit", "manage"]);
+
+// What permission entries can give
+export const grantableAccessSchema = z.enum(["run", "view", "edit"]);
+
+// Editing is only ever granted to someone in particular
+export const defaultAccessSchema = z.enum(["none", "run", "view"]);
+
+export const programPermissionInputSchema = z.object({
+  userId: z.number().int().nullable().default(null),
+  groupId: z.number().int().nullable().default(null),
+  access: grantableAccessSchema,
+}).refine(
+  (entry) => (entry.userId === null) !== (entry.groupId === null),
+  { message: "Each entry needs either a user or a group" },
+);
+
+// Replaces all of a program's permissions at once
+export const updateProgramPermissionsSchema = z.object({
+  defaultAccess: defaultAccessSchema,
+  entries: z.array(programPermissionInputSchema).max(1000),
+}).refine(
+  (permissions) => new Set(permissions.entries.map((entry) => `${entry.userId}:${entry.groupId}`)).size === permissions.entries.length,
+  { message: "Each user or group can only be listed once", path: ["entries"] },
+);
+
+// What a personal access token may be used for: reading programs, projects
+// and history, changing them, starting and stopping runs, and the user and
+// group routes of admins and teachers
+export const tokenScopeSchema = z.enum(["files:read", "files:write", "execute", "admin"]);
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(tokenScopeSchema).min(1, "Choose at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null), // null never expires
+});
+
+export const insertGroupSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+// Owners are only changed by admins, and left as they are when not given
+export const groupMembersSchema = z.object({
+  userIds: z.array(z.number().int()).max(10000),
+  ownerIds: z.array(z.number().int()).max(100).optional(),
+});
+
+// Relative path inside a project, e.g. "games/TicTacToe.py"
+export const projectPathSchema = z.string().trim().min(1).refine(
+  (value) => !value.startsWith("/") && !value.includes("\\") && value.split("/").every((part) => part !== "" && part !== "." && part !== ".."),
+  { message: "Invalid file path" },
+);
+
+export const projectFileInputSchema = z.object({
+  path: projectPathSchema,
+  content: z.string(),
+  encoding: z.enum(["utf8", "base64"]).default("utf8"),
+});
+
+export const insertProjectSchema = z.object({
+  name: z.string().trim().min(1),
+  groupId: z.number().int().nullable().default(null),
+  entryPoint: projectPathSchema,
+  files: z.array(projectFileInputSchema).min(1),
+}).refine(
+  (project) => project.files.some((file) => file.path === project.entryPoint && file.path.endsWith(".py") && file.encoding === "utf8"),
+  { message: "The entry point must be one of the project's Python files", path: ["entryPoint"] },
+).refine(
+  (project) => new Set(project.files.map((file) => file.path)).size === project.files.length,
+  { message: "File paths must be unique", path: ["files"] },
+);
+
+export const updateProjectSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  entryFileId: z.number().int().optional(),
+});
+
+const runArgsSchema = z.array(z.string().max(4096)).max(256);
+const runEnvSchema = z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Invalid variable name"), z.string().max(4096));
+const runStdinSchema = z.string().max(1024 * 1024);
+
+// Arguments, extra environment variables and input for a run. Input comes
+// either as text or from a file in the run's working directory. A saved run
+// configuration supplies defaults that these add to.
+export const runInputSchema = z.object({
+  args: runArgsSchema.default([]),
+  env: runEnvSchema.default({}),
+  stdin: runStdinSchema.optional(),
+  stdinFile: projectPathSchema.optional(),
+  runConfigId: z.number().int().optional(),
+}).refine(
+  (input) => input.stdin === undefined || input.stdinFile === undefined,
+  { message: "Give either stdin or stdinFile, not both", path: ["stdinFile"] },
+);
+
+export const insertRunConfigSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  args: runArgsSchema.default([]),
+  env: runEnvSchema.default({}),
+  stdin: runStdinSchema.nullable().default(null),
+  timeoutMs: z.number().int().min(1000).max(10 * 60 * 1000).nullable().default(null),
+  interpreter: z.string().trim().min(1).nullable().default(null),
+});
+
+export const updateRunConfigSchema = z.object({
+  name: insertRunConfigSchema.shape.name.optional(),
+  args: runArgsSchema.optional(),
+  env: runEnvSchema.optional(),
+  stdin: runStdinSchema.nullable().optional(),
+  timeoutMs: insertRunConfigSchema.shape.timeoutMs.removeDefault().optional(),
+  interpreter: insertRunConfigSchema.shape.interpreter.removeDefault().optional(),
+});
+
 export const insertExecutionSchema = createInsertSchema(executions).omit({
   id: true,
   createdAt: true,
+}).extend({
+  // Built by the server, so only its type matters
+  traceback: z.custom<Traceback>().nullable().optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
+export type SetupData = z.infer<typeof setupSchema>;
+export type ChangePasswordData = z.infer<typeof changePasswordSchema>;
+export type CreateUserData = z.infer<typeof createUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type PythonFile = typeof pythonFiles.$inferSelect;
 export type InsertPythonFile = z.infer<typeof insertPythonFileSchema>;
 export type UpdatePythonFile = z.infer<typeof updatePythonFileSchema>;
+export type UpdateExecutionSettings = z.infer<typeof updateExecutionSettingsSchema>;
+export type FileRevision = typeof pythonFileRevisions.$inferSelect;
+export type FileRevisionSummary = Omit<FileRevision, "content">;
+export type ProgramAccess = z.infer<typeof programAccessSchema>;
+export type GrantableAccess = z.infer<typeof grantableAccessSchema>;
+export type DefaultAccess = z.infer<typeof defaultAccessSchema>;
+export type ProgramPermission = typeof programPermissions.$inferSelect;
+export type ProgramPermissionInput = z.infer<typeof programPermissionInputSchema>;
+export type UpdateProgramPermissions = z.infer<typeof updateProgramPermissionsSchema>;
+export type TokenScope = z.infer<typeof tokenScopeSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = Omit<ApiToken, "id" | "lastUsedAt" | "createdAt">;
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type Group = typeof groups.$inferSelect;
+export type GroupMember = typeof groupMembers.$inferSelect;
+export type InsertGroup = z.infer<typeof insertGroupSchema>;
+export type GroupMembers = z.infer<typeof groupMembersSchema>;
+// Who access is worked out for; admins may do everything
+export type AccessUser = Pick<User, "id" | "role">;
+export type Project = typeof projects.$inferSelect;
+export type ProjectFile = typeof projectFiles.$inferSelect;
+export type ProjectFileInput = z.infer<typeof projectFileInputSchema>;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type UpdateProject = z.infer<typeof updateProjectSchema>;
+export type RunConfig = typeof runConfigs.$inferSelect;
+export type InsertRunConfig = z.infer<typeof insertRunConfigSchema>;
+export type UpdateRunConfig = z.infer<typeof updateRunConfigSchema>;
 export type Execution = typeof executions.$inferSelect;
+export type ExecutionLimit = "cpu" | "memory" | "processes" | "open_files" | "file_size" | "output" | "workspace";
 export type InsertExecution = z.infer<typeof insertExecutionSchema>;
+export type RunInput = z.input<typeof runInputSchema>;
+
+export interface ImportUsersResult {
+  // Generated passwords are only returned here, once, so they can be handed out
+  created: { username: string; role: string; password?: string }[];
+  errors: { line: number; message: string }[];
+}
+
+// A program as the signed-in user sees it, with what they may do with it.
+// content is null when they may only run it.
+export type ProgramFile = Omit<PythonFile, "content"> & {
+  content: string | null;
+  access: ProgramAccess;
+};
+
+// Returned once when a token is created; only its hash is stored
+export interface CreatedApiToken {
+  apiToken: PublicApiToken;
+  token: string;
+}
+
+export interface ProgramPermissions {
+  defaultAccess: DefaultAccess;
+  entries: ProgramPermission[];
+}
+
+export interface GroupDetails extends Group {
+  memberIds: number[];
+  ownerIds: number[];
+}
+
+// Limits every run is subject to; programs can change the ones in ExecutionSettings
+export interface ExecutionLimits {
+  timeoutMs: number;
+  allowInteractive: boolean;
+  cpuSeconds: number;
+  memoryBytes: number;
+  maxProcesses: number;
+  maxOpenFiles: number;
+  maxOutputBytes: number;
+  workspaceQuotaBytes: number;
+}
+
+// What runs of a program are held to: its own settings where an admin set
+// them, the server's defaults otherwise
+export interface ExecutionSettings {
+  timeoutMs: number;
+  memoryBytes: number;
+  maxOutputBytes: number;
+  allowInteractive: boolean;
+}
+
+// One line of a diff between two revisions, with its line number on each side
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  lines: DiffLine[];
+}
+
+// A problem found in a program without running it; lines and columns start at 1
+export interface Diagnostic {
+  line: number;
+  column: number;
+  endLine: number | null;
+  endColumn: number | null;
+  severity: "error" | "warning";
+  message: string;
+  source: "syntax" | "pyflakes";
+}
+
+export interface CheckResult {
+  diagnostics: Diagnostic[];
+  pyflakes: boolean; // false when pyflakes is not installed on the server
+}
+
+// One call in a traceback, most recent last. file is the program's own file
+// name where fileId is set, and the interpreter's path otherwise.
+export interface TracebackFrame {
+  file: string;
+  fileId: number | null;
+  line: number;
+  function: string | null; // missing for syntax errors
+  code: string | null;
+}
+
+export interface Traceback {
+  exceptionType: string;
+  message: string;
+  frames: TracebackFrame[];
+}
+
+// An interpreter programs may be run with; version is null when it is not installed
+export interface Interpreter {
+  name: string;
+  version: string | null;
+}
+
+// Files a user's runs of a program have saved in their workspace
+export interface WorkspaceListing {
+  files: { path: string; size: number; modifiedAt: string }[];
+  usage: number;
+  quota: number;
+}
+
+export interface ProjectDetails extends Project {
+  files: { path: string; size: number; fileId?: number }[]; // fileId is set for Python files
+}